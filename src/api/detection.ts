@@ -4,6 +4,8 @@
 
 import axiosInstance from './axios';
 import { type DetectionResponse } from '../types/detection';
+import { normalizeDetectionResponse } from '../utils/detectionSchema';
+import { reportPayloadIssues } from '../utils/payloadIssueLog';
 
 // ดึงข้อมูลการตรวจจับล่าสุดจากกล้อง
 // URL: GET /object-detection/{camId}
@@ -17,5 +19,37 @@ export const getRecentDetections = async (
     },
   });
 
-  return response.data;
+  // ตรวจสอบ payload ก่อนส่งต่อ ข้อมูลที่ใช้ไม่ได้จะถูกตัดทิ้งและรายงานไว้แทนการ crash
+  const normalized = normalizeDetectionResponse(response.data, camId);
+  reportPayloadIssues(normalized.issues);
+  return normalized;
+};
+
+// ดึงข้อมูลการตรวจจับในช่วงเวลาที่ระบุ (ใช้เติมช่วงที่ socket หลุด)
+// URL: GET /object-detection/{camId}?since=...&until=...
+// กรองช่วงเวลาซ้ำฝั่ง client เผื่อ server ไม่รองรับ query และส่งแค่ข้อมูลล่าสุดกลับมา
+export const getDetectionsInRange = async (
+  camId: string,
+  token: string,
+  range: { since: string; until: string },
+): Promise<DetectionResponse> => {
+  const response = await axiosInstance.get(`/object-detection/${camId}`, {
+    headers: {
+      'x-camera-token': token,
+    },
+    params: range,
+  });
+
+  const normalized = normalizeDetectionResponse(response.data, camId);
+  reportPayloadIssues(normalized.issues);
+
+  const since = new Date(range.since).getTime();
+  const until = new Date(range.until).getTime();
+  return {
+    ...normalized,
+    data: normalized.data.filter((event) => {
+      const time = new Date(event.timestamp).getTime();
+      return time > since && time <= until;
+    }),
+  };
 };
@@ -0,0 +1,181 @@
+/**
+ * Socket.IO connection เดียวที่ใช้ร่วมกันทุกกล้อง
+ * นับจำนวนผู้ subscribe ต่อ cam_id แล้วส่ง subscribe_camera / unsubscribe_camera ตามจริง
+ * และส่ง object_detection ไปยังผู้ subscribe ของกล้องนั้นตาม cam_id
+ */
+
+import { io, type Socket } from 'socket.io-client';
+import { socketConfig } from '../config/socket';
+import { type DetectionEvent } from '../types/detection';
+import { normalizeSocketDetection } from '../utils/detectionSchema';
+import { reportPayloadIssues } from '../utils/payloadIssueLog';
+import {
+  createSocketConnectionState,
+  socketConnectionReducer,
+  type SocketConnectionAction,
+} from '../utils/socketConnection';
+
+type DetectionListener = (event: DetectionEvent) => void;
+
+// รอสักครู่ก่อนปิด connection เมื่อไม่มีผู้ใช้ (กันการเปิด/ปิดซ้ำตอน remount)
+const IDLE_DISCONNECT_MS = 1000;
+
+const createSocketManager = (config: typeof socketConfig) => {
+  let socket: Socket | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let connection = createSocketConnectionState(config.backoff.attempts);
+
+  const subscribers = new Map<string, Set<DetectionListener>>();
+  const connectionListeners = new Set<() => void>();
+
+  const dispatch = (action: SocketConnectionAction) => {
+    const next = socketConnectionReducer(connection, action);
+    if (next === connection) return;
+    connection = next;
+    connectionListeners.forEach((listener) => listener());
+  };
+
+  const emitSubscription = (camId: string, subscribe: boolean) => {
+    if (!socket?.connected) return;
+    socket.emit(subscribe ? 'subscribe_camera' : 'unsubscribe_camera', { cam_id: camId });
+  };
+
+  const routeDetection = (data: unknown) => {
+    // payload ที่ไม่มี cam_id จะส่งให้กล้องเดียวที่ subscribe อยู่ (ถ้ามีกล้องเดียว)
+    const fallbackCamId = subscribers.size === 1 ? subscribers.keys().next().value : undefined;
+    const { event, issues } = normalizeSocketDetection(data, fallbackCamId);
+    reportPayloadIssues(issues);
+    if (!event) return;
+
+    const listeners = subscribers.get(event.cam_id);
+    if (!listeners) return;
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const startPing = (instance: Socket) => {
+    const { ping } = config;
+    const { event } = ping;
+    if (!event) return;
+    pingTimer = setInterval(() => {
+      if (!instance.connected) return;
+      const sentAt = performance.now();
+      instance.timeout(ping.timeoutMs).emit(event, Date.now(), (error: Error | null) => {
+        if (error) {
+          dispatch({ type: 'latency_timeout' });
+          return;
+        }
+        dispatch({ type: 'latency_sample', rttMs: performance.now() - sentAt, windowSize: ping.windowSize });
+      });
+    }, ping.intervalMs);
+  };
+
+  const connect = () => {
+    if (socket) return;
+    const { backoff } = config;
+    dispatch({ type: 'start', maxAttempts: backoff.attempts });
+
+    const instance = io(config.url, {
+      reconnection: true,
+      reconnectionAttempts: backoff.attempts,
+      reconnectionDelay: backoff.delayMs,
+      reconnectionDelayMax: backoff.delayMaxMs,
+      randomizationFactor: backoff.randomizationFactor,
+      timeout: config.connectTimeoutMs,
+    });
+
+    // เมื่อเชื่อมต่อสำเร็จ (รวมถึงหลัง reconnect ทุกครั้ง)
+    instance.on('connect', () => {
+      console.log('Connected to socket server');
+      dispatch({ type: 'connected' });
+
+      // server ลืม subscription เมื่อ connection หลุด จึงต้อง subscribe ทุกกล้องใหม่ทุกครั้งที่ connect
+      subscribers.forEach((_, camId) => emitSubscription(camId, true));
+    });
+
+    instance.on('disconnect', (reason) => {
+      console.log('Disconnected from socket server:', reason);
+      // server สั่งตัดเองจะไม่ reconnect อัตโนมัติ ต้องเรียก connect() เอง
+      if (reason === 'io server disconnect') instance.connect();
+      dispatch({ type: 'disconnected', reason, willReconnect: reason !== 'io client disconnect' });
+    });
+
+    instance.on('connect_error', (error) => dispatch({ type: 'error', message: error.message }));
+    instance.io.on('reconnect_attempt', (attempt) => dispatch({ type: 'reconnect_attempt', attempt }));
+    instance.io.on('reconnect_failed', () => {
+      // socket ที่ reconnect ครบแล้วจะไม่ลองใหม่อีก ต้องทิ้งไปเพื่อให้ connect() สร้างใหม่ได้
+      if (socket === instance) teardown();
+      dispatch({ type: 'reconnect_failed' });
+    });
+    instance.on('object_detection', routeDetection);
+
+    startPing(instance);
+    socket = instance;
+  };
+
+  const teardown = () => {
+    if (pingTimer) clearInterval(pingTimer);
+    pingTimer = null;
+    socket?.disconnect();
+    socket = null;
+  };
+
+  const disconnect = () => {
+    teardown();
+    dispatch({ type: 'stop' });
+  };
+
+  // เชื่อมต่อใหม่หลัง reconnect ล้มเหลว (ไม่มีผลถ้ายังมี connection อยู่หรือไม่มีผู้ subscribe)
+  const retry = () => {
+    if (subscribers.size > 0) connect();
+  };
+
+  const subscribeCamera = (camId: string, listener: DetectionListener) => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+
+    let listeners = subscribers.get(camId);
+    if (!listeners) {
+      listeners = new Set();
+      subscribers.set(camId, listeners);
+      emitSubscription(camId, true);
+    }
+    listeners.add(listener);
+    connect();
+
+    return () => {
+      const current = subscribers.get(camId);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size > 0) return;
+
+      subscribers.delete(camId);
+      emitSubscription(camId, false);
+      if (subscribers.size === 0) {
+        idleTimer = setTimeout(() => {
+          idleTimer = null;
+          if (subscribers.size === 0) disconnect();
+        }, IDLE_DISCONNECT_MS);
+      }
+    };
+  };
+
+  const subscribeConnection = (listener: () => void) => {
+    connectionListeners.add(listener);
+    return () => {
+      connectionListeners.delete(listener);
+    };
+  };
+
+  return {
+    subscribeCamera,
+    subscribeConnection,
+    getConnection: () => connection,
+    retry,
+    getSubscribedCameras: () => Array.from(subscribers.keys()),
+  };
+};
+
+export const socketManager = createSocketManager(socketConfig);
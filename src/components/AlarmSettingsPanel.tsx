@@ -0,0 +1,125 @@
+/**
+ * Component สำหรับเปิด/ปิดช่องทางแจ้งเตือน (เสียง, desktop notification, เสียงพูด)
+ * และเลือกเสียงเตือนของแต่ละระดับความรุนแรง
+ */
+
+import { useState } from 'react';
+import {
+  Button,
+  Collapse,
+  IconButton,
+  MenuItem,
+  Slider,
+  Stack,
+  TextField,
+  ToggleButton,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Icon } from '@iconify/react';
+import { type AlarmControls } from '../hooks/useAlarms';
+import { type AlarmChannel, type AlarmTone } from '../types/alarm';
+import { ALERT_SEVERITIES } from '../utils/alertRules';
+import { ALARM_TONE_LABELS } from '../utils/alarmTones';
+
+interface AlarmSettingsPanelProps {
+  alarms: AlarmControls;
+}
+
+const CHANNELS: { channel: AlarmChannel; label: string; icon: string; mutedIcon: string }[] = [
+  { channel: 'audio', label: 'Sound', icon: 'mdi:volume-high', mutedIcon: 'mdi:volume-off' },
+  { channel: 'notification', label: 'Desktop', icon: 'mdi:bell-ring-outline', mutedIcon: 'mdi:bell-off-outline' },
+  { channel: 'speech', label: 'Voice', icon: 'mdi:account-voice', mutedIcon: 'mdi:voice-off' },
+];
+
+const AlarmSettingsPanel = ({ alarms }: AlarmSettingsPanelProps) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const { settings, notificationPermission } = alarms;
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        {CHANNELS.map(({ channel, label, icon, mutedIcon }) => {
+          const muted = settings.muted[channel];
+          return (
+            <ToggleButton
+              key={channel}
+              size="small"
+              value={channel}
+              selected={!muted}
+              onChange={() => alarms.setMuted(channel, !muted)}
+              sx={{ textTransform: 'none', gap: 0.5, flex: 1 }}
+            >
+              <Icon icon={muted ? mutedIcon : icon} />
+              {label}
+            </ToggleButton>
+          );
+        })}
+        <Tooltip title="Alarm settings">
+          <IconButton size="small" onClick={() => setShowSettings((value) => !value)}>
+            <Icon icon={showSettings ? 'mdi:chevron-up' : 'mdi:tune-variant'} />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+
+      {!settings.muted.notification && notificationPermission === 'default' && (
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<Icon icon="mdi:bell-check-outline" />}
+          onClick={() => void alarms.requestNotificationPermission()}
+          sx={{ textTransform: 'none' }}
+        >
+          Allow desktop notifications
+        </Button>
+      )}
+      {!settings.muted.notification && (notificationPermission === 'denied' || notificationPermission === 'unsupported') && (
+        <Typography variant="caption" color="warning.main">
+          Desktop notifications are {notificationPermission === 'denied' ? 'blocked by the browser' : 'not supported here'}.
+        </Typography>
+      )}
+
+      <Collapse in={showSettings}>
+        <Stack spacing={1.5} sx={{ pt: 1 }}>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <Icon icon="mdi:volume-medium" />
+            <Slider
+              size="small"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={(_, value) => alarms.setVolume(value as number)}
+            />
+          </Stack>
+          {ALERT_SEVERITIES.map((severity) => (
+            <Stack key={severity} direction="row" spacing={1} alignItems="center">
+              <TextField
+                select
+                size="small"
+                label={`${severity} tone`}
+                value={settings.tones[severity]}
+                onChange={(e) => alarms.setTone(severity, e.target.value as AlarmTone)}
+                sx={{ flex: 1 }}
+              >
+                {(Object.keys(ALARM_TONE_LABELS) as AlarmTone[]).map((tone) => (
+                  <MenuItem key={tone} value={tone}>
+                    {ALARM_TONE_LABELS[tone]}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Button size="small" onClick={() => alarms.test(severity)} sx={{ textTransform: 'none' }}>
+                Test
+              </Button>
+            </Stack>
+          ))}
+          <Typography variant="caption" color="text.secondary">
+            Desktop notifications are only sent while this tab is hidden.
+          </Typography>
+        </Stack>
+      </Collapse>
+    </Stack>
+  );
+};
+
+export default AlarmSettingsPanel;
@@ -0,0 +1,409 @@
+/**
+ * Component คิวการแจ้งเตือน: ผู้ควบคุมรับทราบ / พัก / ปิด alert ได้ และดู audit trail ของแต่ละรายการ
+ * พร้อมแท็บแก้ไขกฎที่ทำให้เกิด alert
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  Chip,
+  Collapse,
+  IconButton,
+  Menu,
+  MenuItem,
+  Stack,
+  Switch,
+  Tab,
+  Tabs,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Icon } from '@iconify/react';
+import {
+  type Alert,
+  type AlertCondition,
+  type AlertConditionType,
+  type AlertRule,
+  type AlertSeverity,
+  type AlertStatus,
+} from '../types/alert';
+import { type GeofenceZone } from '../types/geofence';
+import {
+  ALERT_CONDITION_LABELS,
+  ALERT_SEVERITIES,
+  ALERT_SEVERITY_COLORS,
+  describeAlertCondition,
+} from '../utils/alertRules';
+import { isAlertOpen } from '../utils/alertStore';
+
+interface AlertQueuePanelProps {
+  alerts: Alert[];
+  rules: AlertRule[];
+  zones: GeofenceZone[];
+  onAcknowledge: (id: string) => void;
+  onSnooze: (id: string, minutes: number) => void;
+  onResolve: (id: string) => void;
+  onAddRule: (type: AlertConditionType) => void;
+  onUpdateRule: (id: string, patch: Partial<Omit<AlertRule, 'id'>>) => void;
+  onRemoveRule: (id: string) => void;
+  onResetRules: () => void;
+}
+
+const SNOOZE_MINUTES = [1, 5, 15];
+const ANY = '__any__';
+
+const STATUS_STYLE: Record<AlertStatus, { label: string; color: 'error' | 'info' | 'default' | 'success' }> = {
+  active: { label: 'Active', color: 'error' },
+  acknowledged: { label: 'Acknowledged', color: 'info' },
+  snoozed: { label: 'Snoozed', color: 'default' },
+  resolved: { label: 'Resolved', color: 'success' },
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+const compareAlerts = (a: Alert, b: Alert) =>
+  Number(isAlertOpen(b)) - Number(isAlertOpen(a)) ||
+  ALERT_SEVERITIES.indexOf(b.severity) - ALERT_SEVERITIES.indexOf(a.severity) ||
+  b.lastUpdated - a.lastUpdated;
+
+const downloadAuditTrail = (alerts: Alert[]) => {
+  const blob = new Blob([JSON.stringify({ exportedAt: new Date().toISOString(), alerts }, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `alert-audit-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  // บาง browser เริ่มดาวน์โหลดหลัง click() คืนค่าแล้ว จึงรอก่อนคืน URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const AlertCard = ({
+  alert,
+  onAcknowledge,
+  onSnooze,
+  onResolve,
+}: {
+  alert: Alert;
+  onAcknowledge: () => void;
+  onSnooze: (minutes: number) => void;
+  onResolve: () => void;
+}) => {
+  const [showAudit, setShowAudit] = useState(false);
+  const [snoozeAnchor, setSnoozeAnchor] = useState<HTMLElement | null>(null);
+  const status = STATUS_STYLE[alert.status];
+  const open = isAlertOpen(alert);
+
+  return (
+    <Card
+      variant="outlined"
+      sx={{
+        p: 1.5,
+        borderLeft: 4,
+        borderLeftColor: `${ALERT_SEVERITY_COLORS[alert.severity]}.main`,
+        opacity: open ? 1 : 0.7,
+      }}
+    >
+      <Stack spacing={1}>
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+          <Chip size="small" label={alert.severity.toUpperCase()} color={ALERT_SEVERITY_COLORS[alert.severity]} />
+          <Chip size="small" variant="outlined" label={status.label} color={status.color} />
+          {!alert.conditionActive && open && <Chip size="small" variant="outlined" label="Condition cleared" />}
+        </Stack>
+
+        <Box>
+          <Typography variant="subtitle2">{alert.ruleName}</Typography>
+          <Typography variant="body2">{alert.message}</Typography>
+          <Typography variant="caption" color="text.secondary">
+            First seen {formatTime(alert.firstSeen)} • Updated {formatTime(alert.lastUpdated)}
+            {alert.snoozedUntil !== null && ` • Snoozed until ${formatTime(alert.snoozedUntil)}`}
+          </Typography>
+        </Box>
+
+        <Stack direction="row" spacing={1} alignItems="center">
+          {open && (
+            <>
+              <Button
+                size="small"
+                variant="contained"
+                disabled={alert.status === 'acknowledged'}
+                onClick={onAcknowledge}
+                sx={{ textTransform: 'none' }}
+              >
+                Acknowledge
+              </Button>
+              <Button size="small" onClick={(e) => setSnoozeAnchor(e.currentTarget)} sx={{ textTransform: 'none' }}>
+                Snooze
+              </Button>
+              <Button size="small" color="success" onClick={onResolve} sx={{ textTransform: 'none' }}>
+                Resolve
+              </Button>
+            </>
+          )}
+          <Box sx={{ flexGrow: 1 }} />
+          <Tooltip title="Audit trail">
+            <IconButton size="small" onClick={() => setShowAudit((value) => !value)}>
+              <Icon icon={showAudit ? 'mdi:chevron-up' : 'mdi:history'} />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+
+        <Menu anchorEl={snoozeAnchor} open={Boolean(snoozeAnchor)} onClose={() => setSnoozeAnchor(null)}>
+          {SNOOZE_MINUTES.map((minutes) => (
+            <MenuItem
+              key={minutes}
+              onClick={() => {
+                onSnooze(minutes);
+                setSnoozeAnchor(null);
+              }}
+            >
+              {minutes} min
+            </MenuItem>
+          ))}
+        </Menu>
+
+        <Collapse in={showAudit}>
+          <Stack spacing={0.25} sx={{ pl: 1, borderLeft: 2, borderColor: 'divider' }}>
+            {alert.audit.map((entry, index) => (
+              <Typography key={index} variant="caption" color="text.secondary">
+                {formatTime(entry.time)} • {entry.action} by {entry.actor}
+                {entry.note && ` (${entry.note})`}
+              </Typography>
+            ))}
+          </Stack>
+        </Collapse>
+      </Stack>
+    </Card>
+  );
+};
+
+const RuleCard = ({
+  rule,
+  zones,
+  onUpdate,
+  onRemove,
+}: {
+  rule: AlertRule;
+  zones: GeofenceZone[];
+  onUpdate: (patch: Partial<Omit<AlertRule, 'id'>>) => void;
+  onRemove: () => void;
+}) => {
+  const updateCondition = (patch: Partial<AlertCondition>) =>
+    onUpdate({ condition: { ...rule.condition, ...patch } as AlertCondition });
+  const { condition } = rule;
+
+  return (
+    <Card variant="outlined" sx={{ p: 1.5 }}>
+      <Stack spacing={1.5}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <TextField
+            size="small"
+            label="Name"
+            value={rule.name}
+            onChange={(e) => onUpdate({ name: e.target.value })}
+            sx={{ flex: 1 }}
+          />
+          <Switch size="small" checked={rule.enabled} onChange={(e) => onUpdate({ enabled: e.target.checked })} />
+          <Tooltip title="Delete rule">
+            <IconButton size="small" color="error" onClick={onRemove}>
+              <Icon icon="mdi:delete-outline" />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+
+        <Typography variant="caption" color="text.secondary">
+          {ALERT_CONDITION_LABELS[condition.type]}: {describeAlertCondition(condition, zones)}
+        </Typography>
+
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          <TextField
+            select
+            size="small"
+            label="Severity"
+            value={rule.severity}
+            onChange={(e) => onUpdate({ severity: e.target.value as AlertSeverity })}
+            sx={{ width: 120 }}
+          >
+            {ALERT_SEVERITIES.map((severity) => (
+              <MenuItem key={severity} value={severity}>
+                {severity}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label="Objective"
+            placeholder="any"
+            value={condition.objective ?? ''}
+            onChange={(e) => updateCondition({ objective: e.target.value.trim() || null })}
+            sx={{ width: 110 }}
+          />
+          {condition.type === 'zone' && (
+            <>
+              <TextField
+                select
+                size="small"
+                label="Zone"
+                value={condition.zoneId ?? ANY}
+                onChange={(e) => updateCondition({ zoneId: e.target.value === ANY ? null : e.target.value })}
+                sx={{ minWidth: 130 }}
+              >
+                <MenuItem value={ANY}>Any zone</MenuItem>
+                {zones.map((zone) => (
+                  <MenuItem key={zone.id} value={zone.id}>
+                    {zone.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                size="small"
+                label="Object type"
+                placeholder="any"
+                value={condition.objectType ?? ''}
+                onChange={(e) => updateCondition({ objectType: e.target.value.trim() || null })}
+                sx={{ width: 110 }}
+              />
+            </>
+          )}
+          {condition.type === 'speed' && (
+            <TextField
+              size="small"
+              type="number"
+              label="Min speed (m/s)"
+              value={condition.minSpeed}
+              onChange={(e) => {
+                const parsed = Number(e.target.value);
+                if (Number.isFinite(parsed) && parsed >= 0) updateCondition({ minSpeed: parsed });
+              }}
+              sx={{ width: 130 }}
+            />
+          )}
+        </Stack>
+      </Stack>
+    </Card>
+  );
+};
+
+const AlertQueuePanel = ({
+  alerts,
+  rules,
+  zones,
+  onAcknowledge,
+  onSnooze,
+  onResolve,
+  onAddRule,
+  onUpdateRule,
+  onRemoveRule,
+  onResetRules,
+}: AlertQueuePanelProps) => {
+  const [tab, setTab] = useState<'queue' | 'rules'>('queue');
+  const [filter, setFilter] = useState<'open' | 'all'>('open');
+  const [newRuleType, setNewRuleType] = useState<AlertConditionType>('zone');
+
+  const visibleAlerts = useMemo(
+    () => alerts.filter((alert) => filter === 'all' || isAlertOpen(alert)).sort(compareAlerts),
+    [alerts, filter],
+  );
+
+  return (
+    <Stack spacing={2}>
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} variant="fullWidth">
+        <Tab label="Queue" value="queue" />
+        <Tab label="Rules" value="rules" />
+      </Tabs>
+
+      {tab === 'queue' && (
+        <>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={filter}
+              onChange={(_, value: 'open' | 'all' | null) => value && setFilter(value)}
+            >
+              <ToggleButton value="open" sx={{ textTransform: 'none' }}>
+                Open
+              </ToggleButton>
+              <ToggleButton value="all" sx={{ textTransform: 'none' }}>
+                All
+              </ToggleButton>
+            </ToggleButtonGroup>
+            <Box sx={{ flexGrow: 1 }} />
+            <Button
+              size="small"
+              startIcon={<Icon icon="mdi:download" />}
+              disabled={alerts.length === 0}
+              onClick={() => downloadAuditTrail(alerts)}
+              sx={{ textTransform: 'none' }}
+            >
+              Audit JSON
+            </Button>
+          </Stack>
+
+          {visibleAlerts.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {filter === 'open' ? 'No open alerts.' : 'No alerts yet.'}
+            </Typography>
+          ) : (
+            visibleAlerts.map((alert) => (
+              <AlertCard
+                key={alert.id}
+                alert={alert}
+                onAcknowledge={() => onAcknowledge(alert.id)}
+                onSnooze={(minutes) => onSnooze(alert.id, minutes)}
+                onResolve={() => onResolve(alert.id)}
+              />
+            ))
+          )}
+        </>
+      )}
+
+      {tab === 'rules' && (
+        <>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField
+              select
+              size="small"
+              label="New rule"
+              value={newRuleType}
+              onChange={(e) => setNewRuleType(e.target.value as AlertConditionType)}
+              sx={{ flex: 1 }}
+            >
+              {(Object.keys(ALERT_CONDITION_LABELS) as AlertConditionType[]).map((type) => (
+                <MenuItem key={type} value={type}>
+                  {ALERT_CONDITION_LABELS[type]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Button variant="outlined" size="small" onClick={() => onAddRule(newRuleType)} sx={{ textTransform: 'none' }}>
+              Add
+            </Button>
+            <Button size="small" onClick={onResetRules} sx={{ textTransform: 'none' }}>
+              Reset
+            </Button>
+          </Stack>
+          <Typography variant="caption" color="text.secondary">
+            Active alerts that nobody acknowledges escalate one severity step every minute.
+          </Typography>
+          {rules.map((rule) => (
+            <RuleCard
+              key={rule.id}
+              rule={rule}
+              zones={zones}
+              onUpdate={(patch) => onUpdateRule(rule.id, patch)}
+              onRemove={() => onRemoveRule(rule.id)}
+            />
+          ))}
+        </>
+      )}
+    </Stack>
+  );
+};
+
+export default AlertQueuePanel;
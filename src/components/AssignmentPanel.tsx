@@ -0,0 +1,201 @@
+/**
+ * Component แสดงคู่ interceptor–ผู้บุกรุกที่ solver เสนอ ผู้ควบคุมเปลี่ยน interceptor เอง (override)
+ * หรือล็อกคู่ที่เสนอไว้ไม่ให้เปลี่ยนเมื่อสถานการณ์เปลี่ยนได้
+ */
+
+import {
+  Chip,
+  IconButton,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Icon } from '@iconify/react';
+import { type Interceptor } from '../types/interceptor';
+import { type Assignment, type AssignmentPin, type AssignmentResult, type AssignmentStrategy } from '../utils/assignment';
+import { type ThreatAssessment } from '../utils/threatScore';
+import ThreatLevelChip from './ThreatLevelChip';
+
+interface AssignmentPanelProps {
+  result: AssignmentResult;
+  interceptors: Interceptor[];
+  threats: Record<string, ThreatAssessment>;
+  strategy: AssignmentStrategy;
+  onStrategyChange: (strategy: AssignmentStrategy) => void;
+  onPin: (objId: string, pin: AssignmentPin | null) => void;
+}
+
+const AUTO = '__auto__';
+
+const SOURCE_LABELS: Record<Assignment['source'], string> = {
+  solver: 'Proposed',
+  manual: 'Manual',
+  locked: 'Locked',
+};
+
+const InterceptorSelect = ({
+  value,
+  interceptors,
+  onChange,
+}: {
+  value: string | null;
+  interceptors: Interceptor[];
+  onChange: (interceptorId: string | null) => void;
+}) => (
+  <TextField
+    select
+    size="small"
+    value={value ?? AUTO}
+    onChange={(e) => onChange(e.target.value === AUTO ? null : e.target.value)}
+    sx={{ minWidth: 140 }}
+  >
+    <MenuItem value={AUTO}>Auto</MenuItem>
+    {interceptors
+      .filter((interceptor) => interceptor.available)
+      .map((interceptor) => (
+        <MenuItem key={interceptor.id} value={interceptor.id}>
+          {interceptor.name}
+        </MenuItem>
+      ))}
+  </TextField>
+);
+
+const AssignmentPanel = ({ result, interceptors, threats, strategy, onStrategyChange, onPin }: AssignmentPanelProps) => {
+  const getInterceptorName = (id: string) => interceptors.find((interceptor) => interceptor.id === id)?.name ?? id;
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+          Solver
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={strategy}
+          onChange={(_, value: AssignmentStrategy | null) => value && onStrategyChange(value)}
+        >
+          <ToggleButton value="hungarian" sx={{ textTransform: 'none' }}>
+            Optimal
+          </ToggleButton>
+          <ToggleButton value="greedy" sx={{ textTransform: 'none' }}>
+            Greedy by threat
+          </ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      {result.assignments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No pairings: there are no intruders inside or heading into the rings, or no interceptor is available.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Intruder</TableCell>
+              <TableCell>Interceptor</TableCell>
+              <TableCell>Intercept</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {result.assignments.map((assignment) => {
+              const { solution } = assignment;
+              const pinned = assignment.source !== 'solver';
+              return (
+                <TableRow key={assignment.obj_id}>
+                  <TableCell>
+                    <Stack spacing={0.5} alignItems="flex-start">
+                      <Typography variant="body2" fontWeight={600}>
+                        {assignment.obj_id}
+                      </Typography>
+                      <ThreatLevelChip assessment={threats[assignment.obj_id]} />
+                    </Stack>
+                  </TableCell>
+                  <TableCell>
+                    <InterceptorSelect
+                      value={pinned ? assignment.interceptorId : null}
+                      interceptors={interceptors}
+                      onChange={(interceptorId) =>
+                        onPin(assignment.obj_id, interceptorId ? { interceptorId, mode: 'manual' } : null)
+                      }
+                    />
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {SOURCE_LABELS[assignment.source]}: {getInterceptorName(assignment.interceptorId)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    {solution ? (
+                      <Typography variant="body2" color={solution.beforePenetration ? 'success.main' : 'error.main'}>
+                        {Math.round(solution.timeSec)} s{solution.beforePenetration ? '' : ' (late)'}
+                      </Typography>
+                    ) : (
+                      <Typography variant="body2" color="error.main">
+                        Cannot reach
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell padding="none">
+                    <Tooltip title={pinned ? 'Release to solver' : 'Lock this pairing'}>
+                      <IconButton
+                        size="small"
+                        color={pinned ? 'primary' : 'default'}
+                        onClick={() =>
+                          onPin(
+                            assignment.obj_id,
+                            pinned ? null : { interceptorId: assignment.interceptorId, mode: 'locked' },
+                          )
+                        }
+                      >
+                        <Icon icon={pinned ? 'mdi:lock' : 'mdi:lock-open-variant-outline'} />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {result.unassigned.length > 0 && (
+        <Stack spacing={1}>
+          <Typography variant="subtitle2">Unassigned intruders</Typography>
+          {result.unassigned.map((objId) => (
+            <Stack key={objId} direction="row" spacing={1} alignItems="center">
+              <Typography variant="body2" fontWeight={600} sx={{ minWidth: 80 }}>
+                {objId}
+              </Typography>
+              <ThreatLevelChip assessment={threats[objId]} />
+              <InterceptorSelect
+                value={null}
+                interceptors={interceptors}
+                onChange={(interceptorId) => interceptorId && onPin(objId, { interceptorId, mode: 'manual' })}
+              />
+            </Stack>
+          ))}
+        </Stack>
+      )}
+
+      {result.idleInterceptors.length > 0 && (
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+          <Typography variant="subtitle2">Idle</Typography>
+          {result.idleInterceptors.map((id) => (
+            <Chip key={id} size="small" icon={<Icon icon="mdi:airplane-takeoff" />} label={getInterceptorName(id)} />
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  );
+};
+
+export default AssignmentPanel;
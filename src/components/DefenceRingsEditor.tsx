@@ -0,0 +1,128 @@
+/**
+ * Component สำหรับแก้วงรัศมีซ้อนรอบจุดป้องกัน: ชื่อ รัศมี สี และระดับ alert ของแต่ละวง
+ */
+
+import { useState } from 'react';
+import { Button, IconButton, MenuItem, Stack, TextField, Tooltip, Typography } from '@mui/material';
+import { Icon } from '@iconify/react';
+import { type AlertSeverity } from '../types/alert';
+import { type DefenceRing } from '../types/defenceRing';
+import { ALERT_SEVERITIES } from '../utils/alertRules';
+import { DEFAULT_DEFENCE_RINGS, createRingId, sortRingsOutward } from '../utils/defenceRings';
+
+interface DefenceRingsEditorProps {
+  rings: DefenceRing[];
+  onChange: (rings: DefenceRing[]) => void;
+}
+
+// แก้รัศมีในช่องพิมพ์ก่อน แล้วค่อยส่งเมื่อ blur/Enter เพื่อไม่ให้ลำดับวงสลับระหว่างพิมพ์
+const RadiusField = ({ value, onCommit }: { value: number; onCommit: (value: number) => void }) => {
+  const [input, setInput] = useState<string | null>(null);
+
+  const commit = () => {
+    if (input === null) return;
+    const parsed = Number(input);
+    if (Number.isFinite(parsed) && parsed > 0) onCommit(parsed);
+    setInput(null);
+  };
+
+  return (
+    <TextField
+      size="small"
+      type="number"
+      label="Radius (m)"
+      value={input ?? String(value)}
+      onChange={(e) => setInput(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      sx={{ width: 110 }}
+    />
+  );
+};
+
+const DefenceRingsEditor = ({ rings, onChange }: DefenceRingsEditorProps) => {
+  const updateRing = (id: string, patch: Partial<Omit<DefenceRing, 'id'>>) =>
+    onChange(sortRingsOutward(rings.map((ring) => (ring.id === id ? { ...ring, ...patch } : ring))));
+
+  const addRing = () => {
+    const innermost = rings.reduce((radius, ring) => Math.min(radius, ring.radiusMeters), Number.POSITIVE_INFINITY);
+    const radiusMeters = Number.isFinite(innermost) ? Math.max(50, Math.round(innermost / 2)) : 500;
+    onChange(
+      sortRingsOutward([
+        ...rings,
+        { id: createRingId(), name: `Ring ${rings.length + 1}`, radiusMeters, color: '#7b1fa2', severity: 'critical' },
+      ]),
+    );
+  };
+
+  return (
+    <Stack spacing={1.5}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between">
+        <Typography variant="subtitle2">Defence rings</Typography>
+        <Stack direction="row" spacing={1}>
+          <Button size="small" onClick={addRing} sx={{ textTransform: 'none' }}>
+            Add ring
+          </Button>
+          <Button size="small" onClick={() => onChange(DEFAULT_DEFENCE_RINGS)} sx={{ textTransform: 'none' }}>
+            Reset
+          </Button>
+        </Stack>
+      </Stack>
+
+      {rings.map((ring) => (
+        <Stack key={ring.id} spacing={1} sx={{ pl: 1, borderLeft: 4, borderColor: ring.color }}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField
+              size="small"
+              label="Name"
+              value={ring.name}
+              onChange={(e) => updateRing(ring.id, { name: e.target.value })}
+              sx={{ flex: 1 }}
+            />
+            <Tooltip title="Remove ring">
+              <span>
+                <IconButton
+                  size="small"
+                  color="error"
+                  disabled={rings.length <= 1}
+                  onClick={() => onChange(rings.filter((item) => item.id !== ring.id))}
+                >
+                  <Icon icon="mdi:delete-outline" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <RadiusField value={ring.radiusMeters} onCommit={(radiusMeters) => updateRing(ring.id, { radiusMeters })} />
+            <TextField
+              select
+              size="small"
+              label="Alert"
+              value={ring.severity}
+              onChange={(e) => updateRing(ring.id, { severity: e.target.value as AlertSeverity })}
+              sx={{ width: 110 }}
+            >
+              {ALERT_SEVERITIES.map((severity) => (
+                <MenuItem key={severity} value={severity}>
+                  {severity}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              type="color"
+              label="Colour"
+              value={ring.color}
+              onChange={(e) => updateRing(ring.id, { color: e.target.value })}
+              sx={{ width: 70 }}
+            />
+          </Stack>
+        </Stack>
+      ))}
+    </Stack>
+  );
+};
+
+export default DefenceRingsEditor;
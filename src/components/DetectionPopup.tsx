@@ -2,11 +2,14 @@ import { Card, CardContent, Typography, Box, Stack } from '@mui/material';
 import { Icon } from '@iconify/react';
 import { type DetectedObject } from '../types/detection';
 import ImageViewer from './ImageViewer';
+import MotionEstimateSummary from './MotionEstimateSummary';
+import { type MotionEstimate } from '../utils/motionEstimate';
 import { getObjectLatitude, getObjectLongitude } from '../utils/objectGeo';
 
 interface DetectionPopupProps {
   object: DetectedObject;
   imagePath?: string;
+  estimate?: MotionEstimate | null;  // telemetry ที่ประมาณจาก track ของวัตถุ
 }
 
 const formatCoordinate = (value: number | string | null | undefined) => {
@@ -18,7 +21,7 @@ const formatCoordinate = (value: number | string | null | undefined) => {
   return 'N/A';
 };
 
-const DetectionPopup = ({ object, imagePath }: DetectionPopupProps) => {
+const DetectionPopup = ({ object, imagePath, estimate }: DetectionPopupProps) => {
   const baseUrl = import.meta.env.VITE_API_BASE_URL?.replace('/api', '') ?? '';
   const imageUrl = imagePath && baseUrl ? `${baseUrl}${imagePath}` : null;
   const detail = object.details;
@@ -97,6 +100,8 @@ const DetectionPopup = ({ object, imagePath }: DetectionPopupProps) => {
               </Typography>
             </Box>
           </Stack>
+
+          <MotionEstimateSummary estimate={estimate} reportedSpeed={speed} />
         </Stack>
       </CardContent>
     </Card>
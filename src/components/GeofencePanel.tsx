@@ -0,0 +1,223 @@
+/**
+ * Component สำหรับจัดการโซน geofence: ตั้งชื่อ ประเภท สี การแจ้งเตือน เข้าโหมดแก้รูปร่างบนแผนที่
+ * และแสดง event เข้า/ออก/ค้างในโซนล่าสุด พร้อมวัตถุที่อยู่ในแต่ละโซนขณะนี้
+ */
+
+import {
+  Box,
+  Button,
+  Card,
+  Chip,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Icon } from '@iconify/react';
+import { type GeofenceEvent, type GeofenceEventType, type GeofenceZone, type ZoneKind } from '../types/geofence';
+import { ZONE_KIND_COLORS, ZONE_KIND_LABELS } from '../utils/geofence';
+import { formatDuration } from '../utils/dateFormat';
+
+interface GeofencePanelProps {
+  zones: GeofenceZone[];
+  events: GeofenceEvent[];
+  occupants: Record<string, string[]>;
+  onUpdateZone: (id: string, patch: Partial<Omit<GeofenceZone, 'id'>>) => void;
+  onRemoveZone: (id: string) => void;
+  onEditShape: (id: string) => void;
+  onClearEvents: () => void;
+}
+
+const EVENT_STYLE: Record<GeofenceEventType, { icon: string; color: 'error' | 'success' | 'warning' }> = {
+  enter: { icon: 'mdi:location-enter', color: 'error' },
+  exit: { icon: 'mdi:location-exit', color: 'success' },
+  dwell: { icon: 'mdi:timer-alert-outline', color: 'warning' },
+};
+
+const describeShape = (zone: GeofenceZone) =>
+  zone.shape.type === 'circle'
+    ? `Circle • ${Math.round(zone.shape.radiusMeters)} m`
+    : `Polygon • ${zone.shape.points.length} vertices`;
+
+const ZoneCard = ({
+  zone,
+  occupants,
+  onUpdate,
+  onRemove,
+  onEditShape,
+}: {
+  zone: GeofenceZone;
+  occupants: string[];
+  onUpdate: (patch: Partial<Omit<GeofenceZone, 'id'>>) => void;
+  onRemove: () => void;
+  onEditShape: () => void;
+}) => (
+  <Card variant="outlined" sx={{ p: 1.5, borderLeft: 4, borderLeftColor: zone.color }}>
+    <Stack spacing={1.5}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          size="small"
+          label="Name"
+          value={zone.name}
+          onChange={(e) => onUpdate({ name: e.target.value })}
+          sx={{ flex: 1 }}
+        />
+        <Tooltip title="Edit shape on map">
+          <IconButton size="small" onClick={onEditShape}>
+            <Icon icon="mdi:vector-square-edit" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Delete zone">
+          <IconButton size="small" color="error" onClick={onRemove}>
+            <Icon icon="mdi:delete-outline" />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          select
+          size="small"
+          label="Kind"
+          value={zone.kind}
+          onChange={(e) => {
+            const kind = e.target.value as ZoneKind;
+            onUpdate({ kind, color: ZONE_KIND_COLORS[kind] });
+          }}
+          sx={{ flex: 1 }}
+        >
+          {(Object.keys(ZONE_KIND_LABELS) as ZoneKind[]).map((kind) => (
+            <MenuItem key={kind} value={kind}>
+              {ZONE_KIND_LABELS[kind]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          type="color"
+          label="Colour"
+          value={zone.color}
+          onChange={(e) => onUpdate({ color: e.target.value })}
+          sx={{ width: 80 }}
+        />
+      </Stack>
+
+      <Typography variant="caption" color="text.secondary">
+        {describeShape(zone)}
+      </Typography>
+
+      <Stack direction="row" flexWrap="wrap" alignItems="center">
+        <FormControlLabel
+          control={<Switch size="small" checked={zone.enabled} onChange={(e) => onUpdate({ enabled: e.target.checked })} />}
+          label="Enabled"
+        />
+        <FormControlLabel
+          control={
+            <Switch size="small" checked={zone.alertOnEnter} onChange={(e) => onUpdate({ alertOnEnter: e.target.checked })} />
+          }
+          label="Enter"
+        />
+        <FormControlLabel
+          control={
+            <Switch size="small" checked={zone.alertOnExit} onChange={(e) => onUpdate({ alertOnExit: e.target.checked })} />
+          }
+          label="Exit"
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Dwell (s)"
+          placeholder="Off"
+          value={zone.dwellSeconds ?? ''}
+          onChange={(e) => {
+            const parsed = Number(e.target.value);
+            onUpdate({ dwellSeconds: e.target.value === '' || parsed <= 0 ? null : parsed });
+          }}
+          sx={{ width: 100 }}
+        />
+      </Stack>
+
+      {occupants.length > 0 && (
+        <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+          {occupants.map((objId) => (
+            <Chip key={objId} size="small" icon={<Icon icon="mdi:drone" />} label={objId} />
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  </Card>
+);
+
+const GeofencePanel = ({
+  zones,
+  events,
+  occupants,
+  onUpdateZone,
+  onRemoveZone,
+  onEditShape,
+  onClearEvents,
+}: GeofencePanelProps) => (
+  <Stack spacing={2}>
+    {zones.length === 0 ? (
+      <Typography variant="body2" color="text.secondary">
+        No zones yet. Use the Circle zone or Polygon zone buttons on the map to draw one.
+      </Typography>
+    ) : (
+      zones.map((zone) => (
+        <ZoneCard
+          key={zone.id}
+          zone={zone}
+          occupants={occupants[zone.id] ?? []}
+          onUpdate={(patch) => onUpdateZone(zone.id, patch)}
+          onRemove={() => onRemoveZone(zone.id)}
+          onEditShape={() => onEditShape(zone.id)}
+        />
+      ))
+    )}
+
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between">
+        <Typography variant="subtitle2">Zone events</Typography>
+        <Button size="small" onClick={onClearEvents} disabled={events.length === 0} sx={{ textTransform: 'none' }}>
+          Clear
+        </Button>
+      </Stack>
+      {events.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No zone events yet.
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {events.map((event) => {
+            const style = EVENT_STYLE[event.type];
+            return (
+              <ListItem key={event.id} disableGutters>
+                <Box sx={{ color: `${style.color}.main`, display: 'flex', mr: 1 }}>
+                  <Icon icon={style.icon} width={20} />
+                </Box>
+                <ListItemText
+                  primary={`${event.obj_id} ${event.type} ${event.zoneName}`}
+                  secondary={[
+                    new Date(event.time).toLocaleTimeString(),
+                    event.dwellSeconds !== undefined ? `in zone ${formatDuration(event.dwellSeconds)}` : null,
+                  ]
+                    .filter(Boolean)
+                    .join(' • ')}
+                />
+              </ListItem>
+            );
+          })}
+        </List>
+      )}
+    </Box>
+  </Stack>
+);
+
+export default GeofencePanel;
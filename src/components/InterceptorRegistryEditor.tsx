@@ -0,0 +1,85 @@
+/**
+ * Component สำหรับทะเบียน interceptor ณ จุดป้องกัน: ชื่อ ความเร็วสูงสุด launch delay และสถานะพร้อมใช้งาน
+ */
+
+import { Button, IconButton, Stack, Switch, TextField, Tooltip, Typography } from '@mui/material';
+import { Icon } from '@iconify/react';
+import { type Interceptor } from '../types/interceptor';
+
+interface InterceptorRegistryEditorProps {
+  interceptors: Interceptor[];
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<Omit<Interceptor, 'id'>>) => void;
+  onRemove: (id: string) => void;
+}
+
+const InterceptorRegistryEditor = ({ interceptors, onAdd, onUpdate, onRemove }: InterceptorRegistryEditorProps) => {
+  const handleNumber = (id: string, field: 'maxSpeed' | 'launchDelaySec', value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    onUpdate(id, { [field]: parsed });
+  };
+
+  return (
+    <Stack spacing={1.5}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between">
+        <Typography variant="subtitle2">Interceptors</Typography>
+        <Button size="small" onClick={onAdd} sx={{ textTransform: 'none' }}>
+          Add interceptor
+        </Button>
+      </Stack>
+
+      {interceptors.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No interceptors registered.
+        </Typography>
+      )}
+
+      {interceptors.map((interceptor) => (
+        <Stack key={interceptor.id} spacing={1}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField
+              size="small"
+              label="Name"
+              value={interceptor.name}
+              onChange={(e) => onUpdate(interceptor.id, { name: e.target.value })}
+              sx={{ flex: 1 }}
+            />
+            <Tooltip title={interceptor.available ? 'Available' : 'Unavailable'}>
+              <Switch
+                size="small"
+                checked={interceptor.available}
+                onChange={(e) => onUpdate(interceptor.id, { available: e.target.checked })}
+              />
+            </Tooltip>
+            <Tooltip title="Remove interceptor">
+              <IconButton size="small" color="error" onClick={() => onRemove(interceptor.id)}>
+                <Icon icon="mdi:delete-outline" />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <TextField
+              size="small"
+              type="number"
+              label="Max speed (m/s)"
+              value={interceptor.maxSpeed}
+              onChange={(e) => handleNumber(interceptor.id, 'maxSpeed', e.target.value)}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Launch delay (s)"
+              value={interceptor.launchDelaySec}
+              onChange={(e) => handleNumber(interceptor.id, 'launchDelaySec', e.target.value)}
+              sx={{ flex: 1 }}
+            />
+          </Stack>
+        </Stack>
+      ))}
+    </Stack>
+  );
+};
+
+export default InterceptorRegistryEditor;
@@ -1,31 +1,63 @@
 /**
  * Component สำหรับแสดงแผนที่ Mapbox พร้อม markers ของวัตถุที่ตรวจจับได้
- * คลิก marker เพื่อแสดงรายละเอียดใน popup
+ * วัตถุวาดด้วย GeoJSON circle/symbol layer (GPU) แทน DOM marker คลิกวัตถุเพื่อแสดงรายละเอียดใน popup
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
-import { Box, Button, CircularProgress, IconButton, Stack, TextField, Typography } from '@mui/material';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
 import { Icon } from '@iconify/react';
-import { type DetectedObject } from '../types/detection';
+import { type DetectedObject, type LatLng } from '../types/detection';
 import DetectionPopup from './DetectionPopup';
 import 'mapbox-gl/dist/mapbox-gl.css';
-// import { getObjectLatitude, getObjectLongitude } from '../utils/objectGeo';
-
-// โหลด Iconify สำหรับใช้ dynamic icons
-if (typeof window !== 'undefined') {
-  const script = document.createElement('script');
-  script.src = 'https://code.iconify.design/3/3.1.0/iconify.min.js';
-  if (!document.querySelector('script[src*="iconify"]')) {
-    document.head.appendChild(script);
-  }
-}
-
-// ตำแหน่งพื้นฐานของกล้อง 2 จุด
-const LOCATIONS = {
-  defence: { lng: 101.166279, lat: 14.297567 },
-  offence: { lng: 101.171298, lat: 14.286451 },
-};
+import { getObjectPosition, getObjectTarget } from '../utils/objectGeo';
+import { CAMERA_LOCATIONS } from '../config/locations';
+import { mapStyleConfig } from '../config/mapStyle';
+import { getColorForObjectId, getIconName } from '../utils/objectStyle';
+import { addMapIcon, getMapIconId } from '../utils/mapIcons';
+import {
+  createLngLatBounds,
+  createMap,
+  createMarker,
+  createScaleControl,
+  getGeoJSONSource,
+  isOfflineMap,
+} from '../utils/mapRenderer';
+import { createClusterIndex, getSpiderPositions, type ClusterIndex } from '../utils/clusterIndex';
+import {
+  GRID_SOURCE_ID,
+  buildGridFeatures,
+  formatGridSpacing,
+  getGridSpacing,
+} from '../utils/offlineMapStyle';
+import { trimTrackPoints, type ObjectTrack, type TrailLength } from '../utils/tracks';
+import { type MotionEstimate } from '../utils/motionEstimate';
+import { type PredictedPath, type RadiusCrossing } from '../utils/prediction';
+import { MISSION_STATE_COLORS, type MissionProgress } from '../utils/missionProgress';
+import { THREAT_LEVEL_COLORS, getThreatLevelRank, type ThreatAssessment } from '../utils/threatScore';
+import { type GeofenceZone, type ZoneShape } from '../types/geofence';
+import {
+  type MapExpression,
+  type MapLayerPointerEvent,
+  type MapMarker,
+  type MapPointerEvent,
+  type RendererMap,
+} from '../types/mapRenderer';
+import { type DefenceRing } from '../types/defenceRing';
+import { type InterceptSolution } from '../utils/intercept';
+import { sortRingsOutward } from '../utils/defenceRings';
+import { calculateDistanceMeters, destinationPoint } from '../utils/geo';
 
 interface MapComponentProps {
   objects: DetectedObject[];
@@ -35,120 +67,417 @@ interface MapComponentProps {
   defaultLocation?: { lat: number; lng: number };
   onDefaultLocationChange?: (coords: { lat: number; lng: number }) => void;
   detectionRadius?: number;
+  defenceRings?: DefenceRing[];  // วงรัศมีซ้อนรอบ defaultLocation (มีค่า = ใช้แทน detectionRadius)
+  tracks?: ObjectTrack[];        // ประวัติตำแหน่งสำหรับวาด trail
+  trailLength?: TrailLength;
+  motionEstimates?: Record<string, MotionEstimate>;
+  predictions?: PredictedPath[];         // เส้นทางคาดการณ์ 10/30/60 วินาที
+  radiusCrossings?: RadiusCrossing[];    // จุดที่เส้นทางคาดการณ์เข้าสู่ detectionRadius
+  intercepts?: InterceptSolution[];      // จุดสกัดกั้นและเส้นทางของ interceptor
+  threats?: Record<string, ThreatAssessment>;
+  missionProgress?: Record<string, MissionProgress>; // ความคืบหน้าภารกิจของโดรนฝ่ายรุก
+  zones?: GeofenceZone[];
+  editingZoneId?: string | null;                              // โซนที่กำลังแก้รูปร่างบนแผนที่
+  onZoneCreate?: (shape: ZoneShape) => void;                  // มีค่า = วาดโซนใหม่บนแผนที่นี้ได้
+  onZoneShapeChange?: (zoneId: string, shape: ZoneShape) => void;
+  onZoneEditDone?: () => void;
 }
 
+type ZoneDrawMode = 'circle' | 'polygon';
+
+type ClusterBreakdown = 'type' | 'objective';
+
 type MarkerDescriptor =
   | {
       type: 'single';
       lat: number;
       lng: number;
       object: DetectedObject;
+      spiderCenter?: LatLng;     // มีค่า = ตำแหน่งที่กระจายออกจาก cluster (spiderfy)
     }
   | {
       type: 'cluster';
+      id: string;
       lat: number;
       lng: number;
       objects: DetectedObject[];
+      bounds: [[number, number], [number, number]];
+      expansionZoom: number;
     };
 
-type TargetMarkerDescriptor = {
-  lat: number;
-  lng: number;
-  object: DetectedObject;
-};
-
 type SearchSuggestion = {
   id: string;
   label: string;
   center: [number, number];
 };
 
-type LatLng = {
-  lat: number;
-  lng: number;
-};
+const EARTH_RADIUS_METERS = 6371000;
 
-const toOptionalNumber = (value?: number | string | null): number | null => {
-  if (typeof value === 'number' && Number.isFinite(value)) return value;
-  if (typeof value === 'string') {
-    const parsed = Number.parseFloat(value);
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-  return null;
-};
+// style offline มีเฉพาะ glyph ของฟอนต์ในเครื่อง จึงต้องระบุ text-font ให้ทุก layer ที่เป็นข้อความ
+const TEXT_FONT_LAYOUT = isOfflineMap ? { 'text-font': [mapStyleConfig.offlineFont] } : {};
 
-const distanceBetween = (lat1: number, lng1: number, lat2: number, lng2: number) => {
-  const dLat = lat1 - lat2;
-  const dLng = lng1 - lng2;
-  return Math.sqrt(dLat * dLat + dLng * dLng);
+// ค้นหาด้วยพิกัด "lat, lng" ได้ทั้งสองโหมด (โหมด offline ค้นหาชื่อสถานที่ไม่ได้)
+const parseCoordinateQuery = (query: string): LatLng | null => {
+  const match = query.match(/^\s*(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
 };
 
-const getPrimaryCoordinates = (object: DetectedObject): LatLng | null => {
-  const raw = object as unknown as Record<string, unknown>;
-  const lat = toOptionalNumber((raw.lat as number | string | null) ?? (raw.latitude as number | string | null) ?? null);
-  const lng = toOptionalNumber(
-    (raw.lng as number | string | null) ??
-      (raw.long as number | string | null) ??
-      (raw.lon as number | string | null) ??
-      null,
+const MAP_MAX_ZOOM = 22;
+// วัตถุที่ห่างกันบนจอน้อยกว่านี้ (px) รวมเป็น cluster
+const CLUSTER_RADIUS_PX = 50;
+
+const createObjectIndex = (items: DetectedObject[]) =>
+  createClusterIndex(
+    items.flatMap((object) => {
+      const position = getObjectPosition(object);
+      return position ? [{ ...position, item: object }] : [];
+    }),
+    (object) => object.obj_id,
+    { radiusPx: CLUSTER_RADIUS_PX, maxZoom: MAP_MAX_ZOOM },
   );
-  if (lat === null || lng === null) return null;
-  return { lat, lng };
-};
 
-const EARTH_RADIUS_METERS = 6371000;
+// spiderAnchorId = obj_id ในกลุ่มที่ผู้ใช้สั่งกระจาย (cluster ที่ซ้อนกันแม้ zoom สุด)
+const getMarkerDescriptors = (
+  index: ClusterIndex<DetectedObject>,
+  zoom: number,
+  spiderAnchorId: string | null,
+): MarkerDescriptor[] =>
+  index.getClusters(zoom).flatMap<MarkerDescriptor>((node) => {
+    if (node.items.length === 1) {
+      return [{ type: 'single', lat: node.lat, lng: node.lng, object: node.items[0] }];
+    }
+    if (spiderAnchorId && node.items.some((object) => object.obj_id === spiderAnchorId)) {
+      const center = { lat: node.lat, lng: node.lng };
+      return getSpiderPositions(center, node.items.length, zoom).map((position, index) => ({
+        type: 'single',
+        ...position,
+        object: node.items[index],
+        spiderCenter: center,
+      }));
+    }
+    return [
+      {
+        type: 'cluster',
+        id: node.id,
+        lat: node.lat,
+        lng: node.lng,
+        objects: node.items,
+        bounds: node.bounds,
+        expansionZoom: node.expansionZoom,
+      },
+    ];
+  });
 
-const getMarkerDescriptors = (items: DetectedObject[], zoom: number): MarkerDescriptor[] => {
-  if (items.length === 0) return [];
-  if (zoom >= 15) {
-    return items
-      .map((object) => {
-        const coords = getPrimaryCoordinates(object);
-        if (!coords) return null;
-        return {
-          type: 'single' as const,
-          lat: coords.lat,
-          lng: coords.lng,
-          object,
-        };
-      })
-      .filter(Boolean) as MarkerDescriptor[];
-  }
+// สรุปสมาชิกของ cluster ตามประเภทหรือเป้าประสงค์ เช่น "drone 3 · car 1"
+const CLUSTER_BREAKDOWN_LIMIT = 3;
+
+const formatClusterBreakdown = (objects: DetectedObject[], breakdown: ClusterBreakdown) => {
+  const counts = objects.reduce<Record<string, number>>((result, object) => {
+    const key = (breakdown === 'type' ? object.type : object.objective) || 'unknown';
+    result[key] = (result[key] ?? 0) + 1;
+    return result;
+  }, {});
+  const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const shown = entries.slice(0, CLUSTER_BREAKDOWN_LIMIT).map(([key, count]) => `${key} ${count}`);
+  const rest = entries.length - CLUSTER_BREAKDOWN_LIMIT;
+  return rest > 0 ? [...shown, `+${rest}`].join(' · ') : shown.join(' · ');
+};
+
+// trail แบ่งเป็นช่วงสั้น ๆ ให้ช่วงที่เก่ากว่าจางลงเรื่อย ๆ
+const TRAIL_MIN_OPACITY = 0.1;
+const TRAIL_MAX_OPACITY = 0.9;
+
+const buildTrailFeatures = (tracks: ObjectTrack[], trailLength: TrailLength) =>
+  tracks.flatMap((track) => {
+    const points = trimTrackPoints(track.points, trailLength);
+    const color = getColorForObjectId(track.obj_id);
+    return points.slice(1).map((point, index) => ({
+      type: 'Feature' as const,
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: [
+          [points[index].lng, points[index].lat],
+          [point.lng, point.lat],
+        ],
+      },
+      properties: {
+        obj_id: track.obj_id,
+        color,
+        opacity: TRAIL_MIN_OPACITY + ((index + 1) / (points.length - 1)) * (TRAIL_MAX_OPACITY - TRAIL_MIN_OPACITY),
+      },
+    }));
+  });
 
-  const tolerance = zoom >= 13 ? 0.002 : zoom >= 11 ? 0.004 : 0.01;
-  const clusters: Array<{ lat: number; lng: number; objects: DetectedObject[] }> = [];
+const buildPredictionFeatures = (predictions: PredictedPath[], crossings: RadiusCrossing[]) => [
+  ...predictions.flatMap((prediction) => {
+    const color = getColorForObjectId(prediction.obj_id);
+    return [
+      {
+        type: 'Feature' as const,
+        geometry: { type: 'Polygon' as const, coordinates: [prediction.cone] },
+        properties: { kind: 'cone', obj_id: prediction.obj_id, color },
+      },
+      {
+        type: 'Feature' as const,
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [prediction.origin, ...prediction.points.map((point) => point.position)].map(
+            (point) => [point.lng, point.lat],
+          ),
+        },
+        properties: { kind: 'path', obj_id: prediction.obj_id, color },
+      },
+      ...prediction.points.map((point) => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: [point.position.lng, point.position.lat] },
+        properties: { kind: 'horizon', obj_id: prediction.obj_id, color, horizon: point.horizonSec },
+      })),
+    ];
+  }),
+  ...crossings.map((crossing) => ({
+    type: 'Feature' as const,
+    geometry: { type: 'Point' as const, coordinates: [crossing.point.lng, crossing.point.lat] },
+    properties: { kind: 'crossing', obj_id: crossing.obj_id, color: '#d32f2f', horizon: crossing.timeSec },
+  })),
+];
+
+const PREDICTION_LAYER_IDS = ['predicted-points-layer', 'predicted-paths-layer', 'predicted-cones-layer'];
+
+const INTERCEPT_COLORS = { feasible: '#2e7d32', late: '#d32f2f' };
+const INTERCEPT_LAYER_IDS = ['intercept-labels-layer', 'intercept-points-layer', 'intercept-lines-layer'];
+
+// เส้นจากจุดปล่อยถึงจุดสกัดกั้น: เขียว = สกัดได้ก่อนเข้ารัศมี, แดง = ไม่ทัน
+const buildInterceptFeatures = (intercepts: InterceptSolution[]) =>
+  intercepts.flatMap((intercept) => {
+    const properties = {
+      obj_id: intercept.obj_id,
+      color: intercept.beforePenetration ? INTERCEPT_COLORS.feasible : INTERCEPT_COLORS.late,
+      label: `${intercept.interceptorName} • ${Math.round(intercept.timeSec)} s`,
+    };
+    return [
+      {
+        type: 'Feature' as const,
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [intercept.launchPoint, intercept.interceptPoint].map((point) => [point.lng, point.lat]),
+        },
+        properties: { ...properties, kind: 'line' },
+      },
+      {
+        type: 'Feature' as const,
+        geometry: {
+          type: 'Point' as const,
+          coordinates: [intercept.interceptPoint.lng, intercept.interceptPoint.lat],
+        },
+        properties: { ...properties, kind: 'point' },
+      },
+    ];
+  });
 
-  items.forEach((object) => {
-    const coords = getPrimaryCoordinates(object);
-    if (!coords) return;
-    const { lat, lng } = coords;
+// รัศมีของวงกลมวัตถุ (px) ใช้วาง popup เหนือวัตถุ
+const OBJECT_MARKER_RADIUS_PX = 20;
+
+const OBJECT_LAYER_IDS = [
+  'object-clusters-label-layer',
+  'object-clusters-layer',
+  'objects-mission-layer',
+  'objects-threat-layer',
+  'objects-icon-layer',
+  'objects-circle-layer',
+  'objects-halo-layer',
+  'objects-spider-legs-layer',
+];
+
+// ระดับภัยคุกคามสูงสุดของ marker (cluster ใช้ระดับสูงสุดของวัตถุในกลุ่ม)
+const getDescriptorThreat = (descriptor: MarkerDescriptor, threats?: Record<string, ThreatAssessment>) => {
+  const members = descriptor.type === 'cluster' ? descriptor.objects : [descriptor.object];
+  return members
+    .map((object) => threats?.[object.obj_id])
+    .reduce<ThreatAssessment | undefined>(
+      (highest, item) =>
+        item && (!highest || getThreatLevelRank(item.level) > getThreatLevelRank(highest.level)) ? item : highest,
+      undefined,
+    );
+};
 
-    const cluster = clusters.find((item) => distanceBetween(item.lat, item.lng, lat, lng) < tolerance);
-    if (cluster) {
-      cluster.objects.push(object);
-      const total = cluster.objects.length;
-      cluster.lat = cluster.lat + (lat - cluster.lat) / total;
-      cluster.lng = cluster.lng + (lng - cluster.lng) / total;
-    } else {
-      clusters.push({ lat, lng, objects: [object] });
+// feature id = obj_id (promoteId) เพื่อใช้ feature-state สำหรับ selected/hover, rank ใช้เรียงให้ภัยคุกคามสูงอยู่ด้านบน
+const buildObjectFeatures = (
+  descriptors: MarkerDescriptor[],
+  breakdown: ClusterBreakdown,
+  threats?: Record<string, ThreatAssessment>,
+  missionProgress?: Record<string, MissionProgress>,
+) =>
+  descriptors.flatMap<GeoJSON.Feature>((descriptor) => {
+    const threat = getDescriptorThreat(descriptor, threats);
+    const geometry = { type: 'Point' as const, coordinates: [descriptor.lng, descriptor.lat] };
+    const rank = threat ? getThreatLevelRank(threat.level) : -1;
+
+    if (descriptor.type === 'cluster') {
+      return [
+        {
+          type: 'Feature' as const,
+          geometry,
+          properties: {
+            kind: 'cluster',
+            obj_id: descriptor.id,
+            count: descriptor.objects.length,
+            breakdown: formatClusterBreakdown(descriptor.objects, breakdown),
+            rank,
+            threatColor: threat ? THREAT_LEVEL_COLORS[threat.level] : '#ffffff',
+          },
+        },
+      ];
     }
+
+    const { object, spiderCenter } = descriptor;
+    const progress = missionProgress?.[object.obj_id];
+    const leg = spiderCenter && {
+      type: 'Feature' as const,
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: [
+          [spiderCenter.lng, spiderCenter.lat],
+          [descriptor.lng, descriptor.lat],
+        ],
+      },
+      properties: { kind: 'leg', obj_id: `leg:${object.obj_id}`, color: getColorForObjectId(object.obj_id) },
+    };
+    const marker = {
+      type: 'Feature' as const,
+      geometry,
+      properties: {
+        kind: 'single',
+        obj_id: object.obj_id,
+        color: getColorForObjectId(object.obj_id),
+        icon: getMapIconId(getIconName(object.type)),
+        rank,
+        ...(threat && {
+          threatLabel: threat.level.charAt(0).toUpperCase(),
+          threatColor: THREAT_LEVEL_COLORS[threat.level],
+          threatTextColor: threat.level === 'medium' ? '#212121' : '#ffffff',
+        }),
+        ...(progress && {
+          missionLabel: progress.state === 'arrived' ? 'OK' : `${Math.round(progress.percent)}%`,
+          missionColor: MISSION_STATE_COLORS[progress.state],
+        }),
+      },
+    };
+    return leg ? [leg, marker] : [marker];
   });
 
-  return clusters.map((cluster) =>
-    cluster.objects.length === 1
-      ? {
-          type: 'single',
-          lat: cluster.lat,
-          lng: cluster.lng,
-          object: cluster.objects[0],
-        }
-      : {
-          type: 'cluster',
-          lat: cluster.lat,
-          lng: cluster.lng,
-          objects: cluster.objects,
+const TARGET_LAYER_IDS = ['drone-target-labels-layer', 'drone-target-points-layer', 'drone-target-lines-layer'];
+
+const formatTargetDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+
+// เส้นจากโดรนถึง waypoint (tar_lat/tar_lng) สีเดียวกับโดรน พร้อมป้ายระยะที่จุดกึ่งกลางเส้น
+const buildTargetLineFeatures = (objects: DetectedObject[], selectedId: string | null) =>
+  objects.flatMap((object) => {
+    const position = getObjectPosition(object);
+    const target = getObjectTarget(object);
+    if (!position || !target) return [];
+    const properties = {
+      obj_id: object.obj_id,
+      color: getColorForObjectId(object.obj_id),
+      selected: object.obj_id === selectedId,
+      label: formatTargetDistance(calculateDistanceMeters(position, target)),
+    };
+    return [
+      {
+        type: 'Feature' as const,
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [position, target].map((point) => [point.lng, point.lat]),
         },
-  );
+        properties: { ...properties, kind: 'line' },
+      },
+      {
+        type: 'Feature' as const,
+        geometry: {
+          type: 'Point' as const,
+          coordinates: [(position.lng + target.lng) / 2, (position.lat + target.lat) / 2],
+        },
+        properties: { ...properties, kind: 'label' },
+      },
+    ];
+  });
+
+const buildTargetPointFeatures = (objects: DetectedObject[], selectedId: string | null) =>
+  objects.flatMap((object) => {
+    const target = getObjectTarget(object);
+    if (!target) return [];
+    return [
+      {
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: [target.lng, target.lat] },
+        properties: {
+          obj_id: object.obj_id,
+          color: getColorForObjectId(object.obj_id),
+          selected: object.obj_id === selectedId,
+        },
+      },
+    ];
+  });
+
+const ZONE_LAYER_IDS = ['geofence-zones-label', 'geofence-zones-outline', 'geofence-zones-fill'];
+const ZONE_DRAFT_LAYER_IDS = ['geofence-draft-points', 'geofence-draft-line'];
+
+const toZoneRing = (shape: ZoneShape): [number, number][] =>
+  shape.type === 'circle'
+    ? createCirclePolygon(shape.center, shape.radiusMeters)
+    : [...shape.points, shape.points[0]].map((point) => [point.lng, point.lat]);
+
+const buildZoneFeatures = (zones: GeofenceZone[], editingZoneId?: string | null) =>
+  zones
+    .filter((zone) => zone.shape.type === 'circle' || zone.shape.points.length >= 3)
+    .map((zone) => ({
+      type: 'Feature' as const,
+      geometry: { type: 'Polygon' as const, coordinates: [toZoneRing(zone.shape)] },
+      properties: {
+        id: zone.id,
+        name: zone.name,
+        kind: zone.kind,
+        color: zone.color,
+        enabled: zone.enabled,
+        editing: zone.id === editingZoneId,
+      },
+    }));
+
+// เส้นร่างระหว่างวาด: polygon ต่อจุดที่คลิก, วงกลมแสดงจากจุดศูนย์กลางถึงตำแหน่งเมาส์
+const buildDraftFeatures = (mode: ZoneDrawMode | null, points: LatLng[], cursor: LatLng | null) => {
+  if (!mode || points.length === 0) return [];
+  const features: GeoJSON.Feature[] = points.map((point) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [point.lng, point.lat] },
+    properties: {},
+  }));
+
+  if (mode === 'circle' && cursor) {
+    features.push({
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: createCirclePolygon(points[0], calculateDistanceMeters(points[0], cursor)),
+      },
+      properties: {},
+    });
+  }
+
+  if (mode === 'polygon') {
+    const path = cursor ? [...points, cursor] : points;
+    if (path.length >= 2) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: path.map((point) => [point.lng, point.lat]) },
+        properties: {},
+      });
+    }
+  }
+
+  return features;
 };
 
 const createCirclePolygon = (center: { lat: number; lng: number }, radiusMeters: number, steps = 64) => {
@@ -172,20 +501,33 @@ const MapComponent = ({
   defaultLocation,
   onDefaultLocationChange,
   detectionRadius,
+  defenceRings,
+  tracks,
+  trailLength = null,
+  motionEstimates,
+  predictions,
+  radiusCrossings,
+  intercepts,
+  threats,
+  missionProgress,
+  zones,
+  editingZoneId,
+  onZoneCreate,
+  onZoneShapeChange,
+  onZoneEditDone,
 }: MapComponentProps) => {
   const mapContainer = useRef<HTMLDivElement>(null);
-  const map = useRef<mapboxgl.Map | null>(null);
-  const markers = useRef<mapboxgl.Marker[]>([]);
-  const targetMarkers = useRef<mapboxgl.Marker[]>([]);
-  const selectedMarkerRef = useRef<HTMLDivElement | null>(null);
-  const defaultMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  const map = useRef<RendererMap | null>(null);
+  const hoveredObjectId = useRef<string | null>(null);
+  const selectedFeatureId = useRef<string | null>(null);
+  const defaultMarkerRef = useRef<MapMarker | null>(null);
 
   const [selectedObject, setSelectedObject] = useState<DetectedObject | null>(null);
   const [cardPosition, setCardPosition] = useState<{ x: number; y: number } | null>(null);
   const popupRef = useRef<HTMLDivElement | null>(null);
   const [currentZoom, setCurrentZoom] = useState(17);
   const fallbackLocation = useMemo(
-    () => (cameraLocation === 'offence' ? LOCATIONS.offence : LOCATIONS.defence),
+    () => (cameraLocation === 'offence' ? CAMERA_LOCATIONS.offence : CAMERA_LOCATIONS.defence),
     [cameraLocation],
   );
   const [defaultCoordinates, setDefaultCoordinates] = useState<LatLng>(defaultLocation ?? fallbackLocation);
@@ -197,24 +539,22 @@ const MapComponent = ({
   const [searchOpen, setSearchOpen] = useState(true);
   const [shouldAutoFit, setShouldAutoFit] = useState(true);
   const [isMapReady, setIsMapReady] = useState(false);
-
+  const [gridSpacing, setGridSpacing] = useState<number | null>(null);
+  const [drawMode, setDrawMode] = useState<ZoneDrawMode | null>(null);
+  const [draftPoints, setDraftPoints] = useState<LatLng[]>([]);
+  const [draftCursor, setDraftCursor] = useState<LatLng | null>(null);
+  const zoneHandles = useRef<MapMarker[]>([]);
+  const editingZone = zones?.find((zone) => zone.id === editingZoneId) ?? null;
+
+  const [clusterBreakdown, setClusterBreakdown] = useState<ClusterBreakdown>('type');
+  // กระจาย cluster ได้เฉพาะที่ zoom ตอนสั่ง เมื่อ zoom เปลี่ยนจะรวมกลับเอง
+  const [spider, setSpider] = useState<{ anchorId: string; zoom: number } | null>(null);
+  const objectIndex = useMemo(() => createObjectIndex(objects), [objects]);
   const markerDescriptors = useMemo(
-    () => getMarkerDescriptors(objects, currentZoom),
-    [objects, currentZoom],
+    () => getMarkerDescriptors(objectIndex, currentZoom, spider?.zoom === currentZoom ? spider.anchorId : null),
+    [objectIndex, currentZoom, spider],
   );
 
-  const targetDescriptors = useMemo<TargetMarkerDescriptor[]>(() => {
-    return objects
-      .map((object) => {
-        const telemetry = object.details ?? null;
-        const lat = toOptionalNumber(telemetry?.tar_lat ?? null);
-        const lng = toOptionalNumber(telemetry?.tar_lng ?? telemetry?.tar_long ?? null);
-        if (lat === null || lng === null) return null;
-        return { lat, lng, object };
-      })
-      .filter(Boolean) as TargetMarkerDescriptor[];
-  }, [objects]);
-
   useEffect(() => {
     if (defaultLocation) {
       setDefaultCoordinates(defaultLocation);
@@ -227,7 +567,7 @@ const MapComponent = ({
     }
   }, [defaultLocation, fallbackLocation]);
 
-  mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_TOKEN;
+  if (!isOfflineMap) mapboxgl.accessToken = mapStyleConfig.mapboxToken;
 
   // หาจุดกึ่งกลางแผนที่ตาม camera location
   const getMapCenter = () => {
@@ -235,36 +575,6 @@ const MapComponent = ({
     return [center.lng, center.lat] as [number, number];
   };
 
-  // หา icon name ตามประเภทวัตถุ
-  const getIconName = (type: string): string => {
-    const iconMap: Record<string, string> = {
-      person: 'mdi:account',
-      car: 'mdi:car',
-      truck: 'mdi:truck',
-      bike: 'mdi:bike',
-      drone: 'healthicons:drone',
-      default: 'mdi:map-marker',
-    };
-    return iconMap[type.toLowerCase()] || iconMap.default;
-  };
-
-  // สร้างสีจาก object ID (แต่ละ ID จะได้สีไม่ซ้ำกัน)
-  const getColorForObjectId = (objectId: string): string => {
-    const colors = [
-      '#FF5722', '#2196F3', '#4CAF50', '#FFC107', '#9C27B0',
-      '#00BCD4', '#E91E63', '#FF9800', '#009688', '#F44336',
-      '#3F51B5', '#8BC34A', '#FFEB3B', '#673AB7', '#00E676',
-    ];
-
-    let hash = 0;
-    for (let i = 0; i < objectId.length; i++) {
-      hash = objectId.charCodeAt(i) + ((hash << 5) - hash);
-    }
-
-    const index = Math.abs(hash) % colors.length;
-    return colors[index];
-  };
-
   const createOrUpdateDefaultMarker = () => {
     if (!map.current) return;
 
@@ -324,7 +634,7 @@ const MapComponent = ({
       });
     });
 
-    const marker = new mapboxgl.Marker({ element: markerEl, draggable: true })
+    const marker = createMarker({ element: markerEl, draggable: true })
       .setLngLat([lng, lat])
       .addTo(map.current);
 
@@ -365,6 +675,19 @@ const MapComponent = ({
       return;
     }
 
+    const coordinates = parseCoordinateQuery(query);
+    if (coordinates) {
+      map.current?.flyTo({ center: [coordinates.lng, coordinates.lat], zoom: 16, duration: 900 });
+      setSearchOptions([]);
+      setSearchFeedback({ type: 'success', message: `${coordinates.lat}, ${coordinates.lng}` });
+      return;
+    }
+
+    if (isOfflineMap) {
+      setSearchFeedback({ type: 'error', message: 'Offline map: enter coordinates as "lat, lng".' });
+      return;
+    }
+
     try {
       const token = mapboxgl.accessToken;
       if (!token) throw new Error('Missing Mapbox access token');
@@ -422,7 +745,7 @@ const MapComponent = ({
 
   useEffect(() => {
     const query = searchValue.trim();
-    if (query.length < 3) {
+    if (isOfflineMap || query.length < 3 || parseCoordinateQuery(query)) {
       setSearchOptions([]);
       return;
     }
@@ -470,35 +793,35 @@ const MapComponent = ({
     const outlineId = 'detection-radius-outline';
 
     const updateEmpty = () => {
-      const existing = map.current?.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+      const existing = getGeoJSONSource(map.current, sourceId);
       if (existing) {
         existing.setData({ type: 'FeatureCollection', features: [] });
       }
     };
 
-    if (!defaultCoordinates || !detectionRadius || detectionRadius <= 0) {
+    // ไม่มีวงซ้อน: ใช้ detectionRadius เป็นวงเดียวสีส้มแบบเดิม
+    const rings: Pick<DefenceRing, 'radiusMeters' | 'color'>[] =
+      defenceRings ?? (detectionRadius && detectionRadius > 0 ? [{ radiusMeters: detectionRadius, color: '#ff6f00' }] : []);
+
+    if (!defaultCoordinates || rings.length === 0) {
       updateEmpty();
       return;
     }
 
-    const polygon = createCirclePolygon(defaultCoordinates, detectionRadius);
-    const outlineColor = '#ff6f00';
-    const fillColor = 'rgba(255, 152, 0, 0.15)';
+    // วาดวงนอกก่อน วงในทับด้านบน
     const data = {
       type: 'FeatureCollection' as const,
-      features: [
-        {
-          type: 'Feature' as const,
-          geometry: {
-            type: 'Polygon' as const,
-            coordinates: [polygon],
-          },
-          properties: {},
+      features: sortRingsOutward(rings).map((ring) => ({
+        type: 'Feature' as const,
+        geometry: {
+          type: 'Polygon' as const,
+          coordinates: [createCirclePolygon(defaultCoordinates, ring.radiusMeters)],
         },
-      ],
+        properties: { color: ring.color },
+      })),
     };
 
-    const existingSource = map.current.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+    const existingSource = getGeoJSONSource(map.current, sourceId);
 
     if (!existingSource) {
       map.current.addSource(sourceId, { type: 'geojson', data });
@@ -507,7 +830,8 @@ const MapComponent = ({
         type: 'fill',
         source: sourceId,
         paint: {
-          'fill-color': fillColor,
+          'fill-color': ['get', 'color'],
+          'fill-opacity': 0.08,
         },
       });
       map.current.addLayer({
@@ -515,20 +839,347 @@ const MapComponent = ({
         type: 'line',
         source: sourceId,
         paint: {
-          'line-color': outlineColor,
+          'line-color': ['get', 'color'],
           'line-opacity': 0.9,
-          'line-width': detectionRadius < 500 ? 1.5 : 2.5,
+          'line-width': 2,
         },
       });
     } else {
       existingSource.setData(data);
     }
-  }, [defaultCoordinates, detectionRadius, isMapReady]);
+  }, [defaultCoordinates, detectionRadius, defenceRings, isMapReady]);
+
+  useEffect(() => {
+    if (!isMapReady || !map.current) return;
+    const sourceId = 'object-trails-source';
+    const layerId = 'object-trails-layer';
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: buildTrailFeatures(tracks ?? [], trailLength),
+    };
+
+    const existingSource = getGeoJSONSource(map.current, sourceId);
+    if (existingSource) {
+      existingSource.setData(data);
+      return;
+    }
+
+    map.current.addSource(sourceId, { type: 'geojson', data });
+    map.current.addLayer({
+      id: layerId,
+      type: 'line',
+      source: sourceId,
+      layout: {
+        'line-cap': 'round',
+        'line-join': 'round',
+      },
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-opacity': ['get', 'opacity'],
+        'line-width': 3,
+      },
+    });
+  }, [tracks, trailLength, isMapReady]);
+
+  useEffect(() => {
+    if (!isMapReady || !map.current) return;
+    const sourceId = 'predicted-paths-source';
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: buildPredictionFeatures(predictions ?? [], radiusCrossings ?? []),
+    };
+
+    const existingSource = getGeoJSONSource(map.current, sourceId);
+    if (existingSource) {
+      existingSource.setData(data);
+      return;
+    }
+
+    map.current.addSource(sourceId, { type: 'geojson', data });
+    map.current.addLayer({
+      id: 'predicted-cones-layer',
+      type: 'fill',
+      source: sourceId,
+      filter: ['==', ['get', 'kind'], 'cone'],
+      paint: {
+        'fill-color': ['get', 'color'],
+        'fill-opacity': 0.12,
+      },
+    });
+    map.current.addLayer({
+      id: 'predicted-paths-layer',
+      type: 'line',
+      source: sourceId,
+      filter: ['==', ['get', 'kind'], 'path'],
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': 2,
+        'line-opacity': 0.9,
+        'line-dasharray': [2, 2],
+      },
+    });
+    map.current.addLayer({
+      id: 'predicted-points-layer',
+      type: 'circle',
+      source: sourceId,
+      filter: ['in', ['get', 'kind'], ['literal', ['horizon', 'crossing']]],
+      paint: {
+        'circle-color': ['get', 'color'],
+        'circle-radius': ['case', ['==', ['get', 'kind'], 'crossing'], 6, 3],
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 1.5,
+      },
+    });
+  }, [predictions, radiusCrossings, isMapReady]);
+
+  useEffect(() => {
+    if (!isMapReady || !map.current) return;
+    const sourceId = 'intercept-source';
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: buildInterceptFeatures(intercepts ?? []),
+    };
+
+    const existingSource = getGeoJSONSource(map.current, sourceId);
+    if (existingSource) {
+      existingSource.setData(data);
+      return;
+    }
+
+    map.current.addSource(sourceId, { type: 'geojson', data });
+    map.current.addLayer({
+      id: 'intercept-lines-layer',
+      type: 'line',
+      source: sourceId,
+      filter: ['==', ['get', 'kind'], 'line'],
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': 2,
+        'line-opacity': 0.85,
+        'line-dasharray': [4, 2],
+      },
+    });
+    map.current.addLayer({
+      id: 'intercept-points-layer',
+      type: 'circle',
+      source: sourceId,
+      filter: ['==', ['get', 'kind'], 'point'],
+      paint: {
+        'circle-color': '#ffffff',
+        'circle-radius': 6,
+        'circle-stroke-color': ['get', 'color'],
+        'circle-stroke-width': 3,
+      },
+    });
+    map.current.addLayer({
+      id: 'intercept-labels-layer',
+      type: 'symbol',
+      source: sourceId,
+      filter: ['==', ['get', 'kind'], 'point'],
+      layout: {
+        ...TEXT_FONT_LAYOUT,
+        'text-field': ['get', 'label'],
+        'text-size': 11,
+        'text-offset': [0, 1.4],
+      },
+      paint: {
+        'text-color': '#ffffff',
+        'text-halo-color': ['get', 'color'],
+        'text-halo-width': 1.5,
+      },
+    });
+  }, [intercepts, isMapReady]);
+
+  useEffect(() => {
+    if (!isMapReady || !map.current) return;
+    const sourceId = 'geofence-zones-source';
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: buildZoneFeatures(zones ?? [], editingZoneId),
+    };
+
+    const existingSource = getGeoJSONSource(map.current, sourceId);
+    if (existingSource) {
+      existingSource.setData(data);
+      return;
+    }
+
+    map.current.addSource(sourceId, { type: 'geojson', data });
+    map.current.addLayer({
+      id: 'geofence-zones-fill',
+      type: 'fill',
+      source: sourceId,
+      paint: {
+        'fill-color': ['get', 'color'],
+        'fill-opacity': ['case', ['get', 'enabled'], ['case', ['==', ['get', 'kind'], 'no-fly'], 0.22, 0.12], 0.04],
+      },
+    });
+    map.current.addLayer({
+      id: 'geofence-zones-outline',
+      type: 'line',
+      source: sourceId,
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': ['case', ['get', 'editing'], 3.5, 2],
+        'line-opacity': ['case', ['get', 'enabled'], 0.9, 0.4],
+      },
+    });
+    map.current.addLayer({
+      id: 'geofence-zones-label',
+      type: 'symbol',
+      source: sourceId,
+      layout: {
+        ...TEXT_FONT_LAYOUT,
+        'text-field': ['get', 'name'],
+        'text-size': 12,
+      },
+      paint: {
+        'text-color': '#ffffff',
+        'text-halo-color': ['get', 'color'],
+        'text-halo-width': 1.5,
+      },
+    });
+  }, [zones, editingZoneId, isMapReady]);
+
+  useEffect(() => {
+    if (!isMapReady || !map.current) return;
+    const sourceId = 'geofence-draft-source';
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: buildDraftFeatures(drawMode, draftPoints, draftCursor),
+    };
+
+    const existingSource = getGeoJSONSource(map.current, sourceId);
+    if (existingSource) {
+      existingSource.setData(data);
+      return;
+    }
+
+    map.current.addSource(sourceId, { type: 'geojson', data });
+    map.current.addLayer({
+      id: 'geofence-draft-line',
+      type: 'line',
+      source: sourceId,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      paint: {
+        'line-color': '#ffffff',
+        'line-width': 2,
+        'line-dasharray': [1.5, 1.5],
+      },
+    });
+    map.current.addLayer({
+      id: 'geofence-draft-points',
+      type: 'circle',
+      source: sourceId,
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-color': '#ffffff',
+        'circle-radius': 4,
+        'circle-stroke-color': '#1e88e5',
+        'circle-stroke-width': 2,
+      },
+    });
+  }, [drawMode, draftPoints, draftCursor, isMapReady]);
+
+  const cancelDrawing = () => {
+    setDrawMode(null);
+    setDraftPoints([]);
+    setDraftCursor(null);
+  };
+
+  const finishPolygon = () => {
+    if (draftPoints.length < 3) return;
+    onZoneCreate?.({ type: 'polygon', points: draftPoints });
+    cancelDrawing();
+  };
+
+  // คลิกบนแผนที่ระหว่างวาด: วงกลม = จุดศูนย์กลางแล้วขอบ, polygon = เพิ่มจุดยอด
+  useEffect(() => {
+    const instance = map.current;
+    if (!instance || !drawMode) return;
+
+    const handleClick = (e: MapPointerEvent) => {
+      const point = { lat: e.lngLat.lat, lng: e.lngLat.lng };
+      if (drawMode === 'polygon') {
+        setDraftPoints((current) => [...current, point]);
+        return;
+      }
+      if (draftPoints.length === 0) {
+        setDraftPoints([point]);
+        return;
+      }
+      const radiusMeters = calculateDistanceMeters(draftPoints[0], point);
+      if (radiusMeters > 0) onZoneCreate?.({ type: 'circle', center: draftPoints[0], radiusMeters });
+      cancelDrawing();
+    };
+
+    const handleMove = (e: MapPointerEvent) => setDraftCursor({ lat: e.lngLat.lat, lng: e.lngLat.lng });
+
+    instance.getCanvas().style.cursor = 'crosshair';
+    instance.on('click', handleClick);
+    instance.on('mousemove', handleMove);
+    return () => {
+      instance.getCanvas().style.cursor = '';
+      instance.off('click', handleClick);
+      instance.off('mousemove', handleMove);
+    };
+  }, [drawMode, draftPoints, onZoneCreate]);
+
+  // handle ที่ลากได้ของโซนที่กำลังแก้ (จุดยอดของ polygon หรือจุดศูนย์กลาง/ขอบของวงกลม)
+  useEffect(() => {
+    zoneHandles.current.forEach((marker) => marker.remove());
+    zoneHandles.current = [];
+    if (!isMapReady || !map.current || !editingZone) return;
+
+    const createHandle = (position: LatLng, title: string, onDragEnd: (position: LatLng) => void) => {
+      const el = document.createElement('div');
+      el.className = 'zone-edit-handle';
+      el.title = title;
+      el.style.cssText = `
+        width: 14px;
+        height: 14px;
+        border-radius: 50%;
+        background-color: #ffffff;
+        border: 3px solid ${editingZone.color};
+        box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+        cursor: move;
+      `;
+      const marker = createMarker({ element: el, draggable: true })
+        .setLngLat([position.lng, position.lat])
+        .addTo(map.current!);
+      marker.on('dragend', () => {
+        const lngLat = marker.getLngLat();
+        onDragEnd({ lat: lngLat.lat, lng: lngLat.lng });
+      });
+      zoneHandles.current.push(marker);
+    };
+
+    const { shape } = editingZone;
+    if (shape.type === 'circle') {
+      createHandle(shape.center, 'Move zone', (center) => onZoneShapeChange?.(editingZone.id, { ...shape, center }));
+      createHandle(destinationPoint(shape.center, 90, shape.radiusMeters), 'Resize zone', (edge) =>
+        onZoneShapeChange?.(editingZone.id, { ...shape, radiusMeters: calculateDistanceMeters(shape.center, edge) }),
+      );
+    } else {
+      shape.points.forEach((point, index) =>
+        createHandle(point, `Vertex ${index + 1}`, (moved) =>
+          onZoneShapeChange?.(editingZone.id, {
+            type: 'polygon',
+            points: shape.points.map((item, itemIndex) => (itemIndex === index ? moved : item)),
+          }),
+        ),
+      );
+    }
+
+    return () => {
+      zoneHandles.current.forEach((marker) => marker.remove());
+      zoneHandles.current = [];
+    };
+  }, [editingZone, isMapReady, onZoneShapeChange]);
 
   const handleClose = () => {
     setSelectedObject(null);
     setCardPosition(null);
-    selectedMarkerRef.current = null;
   };
 
   useEffect(() => {
@@ -547,13 +1198,36 @@ const MapComponent = ({
   useEffect(() => {
     if (!mapContainer.current) return;
 
-    map.current = new mapboxgl.Map({
+    map.current = createMap({
       container: mapContainer.current,
-      style: 'mapbox://styles/mapbox/satellite-streets-v12',
       center: getMapCenter() as [number, number],
       zoom: 17,
+      maxZoom: MAP_MAX_ZOOM,
     });
 
+    // grid พิกัดของ style offline วาดใหม่ตามขอบเขตที่มองเห็น
+    const updateGrid = () => {
+      const instance = map.current;
+      const source = getGeoJSONSource(instance, GRID_SOURCE_ID);
+      if (!instance || !source) return;
+      const bounds = instance.getBounds();
+      if (!bounds) return;
+      const spacing = getGridSpacing(instance.getZoom());
+      source.setData({
+        type: 'FeatureCollection',
+        features: buildGridFeatures(
+          { west: bounds.getWest(), south: bounds.getSouth(), east: bounds.getEast(), north: bounds.getNorth() },
+          spacing,
+        ),
+      });
+      setGridSpacing(spacing);
+    };
+
+    if (isOfflineMap) {
+      map.current.addControl(createScaleControl(), 'bottom-left');
+      map.current.on('moveend', updateGrid);
+    }
+
     const handleZoomChange = () => {
       if (map.current) setCurrentZoom(map.current.getZoom());
     };
@@ -564,6 +1238,7 @@ const MapComponent = ({
       setIsMapReady(true);
       createOrUpdateDefaultMarker();
       handleZoomChange();
+      if (isOfflineMap) updateGrid();
     });
     map.current.on('zoomend', handleZoomChange);
     map.current.on('dragstart', disableAutoFit);
@@ -575,6 +1250,7 @@ const MapComponent = ({
       map.current?.off('dragstart', disableAutoFit);
       map.current?.off('zoomstart', disableAutoFit);
       map.current?.off('rotatestart', disableAutoFit);
+      map.current?.off('moveend', updateGrid);
       if (map.current?.getLayer('detection-radius-fill')) {
         map.current.removeLayer('detection-radius-fill');
       }
@@ -584,12 +1260,39 @@ const MapComponent = ({
       if (map.current?.getSource('detection-radius-source')) {
         map.current.removeSource('detection-radius-source');
       }
-      if (map.current?.getLayer('drone-target-lines-layer')) {
-        map.current.removeLayer('drone-target-lines-layer');
+      [...ZONE_LAYER_IDS, ...ZONE_DRAFT_LAYER_IDS].forEach((layerId) => {
+        if (map.current?.getLayer(layerId)) map.current.removeLayer(layerId);
+      });
+      ['geofence-zones-source', 'geofence-draft-source'].forEach((sourceId) => {
+        if (map.current?.getSource(sourceId)) map.current.removeSource(sourceId);
+      });
+      INTERCEPT_LAYER_IDS.forEach((layerId) => {
+        if (map.current?.getLayer(layerId)) map.current.removeLayer(layerId);
+      });
+      if (map.current?.getSource('intercept-source')) {
+        map.current.removeSource('intercept-source');
+      }
+      PREDICTION_LAYER_IDS.forEach((layerId) => {
+        if (map.current?.getLayer(layerId)) map.current.removeLayer(layerId);
+      });
+      if (map.current?.getSource('predicted-paths-source')) {
+        map.current.removeSource('predicted-paths-source');
+      }
+      if (map.current?.getLayer('object-trails-layer')) {
+        map.current.removeLayer('object-trails-layer');
       }
-      if (map.current?.getLayer('drone-target-points-layer')) {
-        map.current.removeLayer('drone-target-points-layer');
+      if (map.current?.getSource('object-trails-source')) {
+        map.current.removeSource('object-trails-source');
       }
+      OBJECT_LAYER_IDS.forEach((layerId) => {
+        if (map.current?.getLayer(layerId)) map.current.removeLayer(layerId);
+      });
+      if (map.current?.getSource('objects-source')) {
+        map.current.removeSource('objects-source');
+      }
+      TARGET_LAYER_IDS.forEach((layerId) => {
+        if (map.current?.getLayer(layerId)) map.current.removeLayer(layerId);
+      });
       if (map.current?.getSource('drone-target-lines')) {
         map.current.removeSource('drone-target-lines');
       }
@@ -613,255 +1316,241 @@ const MapComponent = ({
     }
   }, [cameraLocation]);
 
-  // สร้าง markers สำหรับวัตถุทั้งหมด
+  // วาดวัตถุทั้งหมดผ่าน GeoJSON source เดียว (อัปเดตด้วย setData แทนการสร้าง DOM marker ใหม่)
   useEffect(() => {
+    if (!isMapReady || !map.current) return;
+    const instance = map.current;
+    const sourceId = 'objects-source';
+    const features = buildObjectFeatures(markerDescriptors, clusterBreakdown, threats, missionProgress);
+    const data = { type: 'FeatureCollection' as const, features };
 
-    if (!map.current) return;
-
-
-
-    const syncPopupPosition = (el: HTMLDivElement) => {
-
-      requestAnimationFrame(() => {
-
-        const rect = el.getBoundingClientRect();
-
-        setCardPosition({
-
-          x: rect.left + rect.width / 2,
-
-          y: rect.top,
-
-        });
-
-      });
-
-    };
-
-
-
-    markers.current.forEach((marker) => marker.remove());
-
-    markers.current = [];
-
-
-
-    if (markerDescriptors.length === 0) {
-
-      selectedMarkerRef.current = null;
-
-      setCardPosition(null);
+    new Set(
+      markerDescriptors.flatMap((descriptor) => (descriptor.type === 'single' ? [getIconName(descriptor.object.type)] : [])),
+    ).forEach((iconName) => void addMapIcon(instance, iconName));
 
+    const existingSource = getGeoJSONSource(instance, sourceId);
+    if (existingSource) {
+      existingSource.setData(data);
       return;
-
     }
 
+    const isSingle: MapExpression = ['==', ['get', 'kind'], 'single'];
+    const isSelected: MapExpression = ['boolean', ['feature-state', 'selected'], false];
+    const isHovered: MapExpression = ['boolean', ['feature-state', 'hover'], false];
+
+    instance.addSource(sourceId, { type: 'geojson', data, promoteId: 'obj_id' });
+    instance.addLayer({
+      id: 'objects-spider-legs-layer',
+      type: 'line',
+      source: sourceId,
+      filter: ['==', ['get', 'kind'], 'leg'],
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': 2,
+        'line-opacity': 0.8,
+      },
+    });
+    instance.addLayer({
+      id: 'objects-halo-layer',
+      type: 'circle',
+      source: sourceId,
+      filter: isSingle,
+      paint: {
+        'circle-color': ['get', 'color'],
+        'circle-radius': ['case', isSelected, 34, 30],
+        'circle-opacity': ['case', isSelected, 0.45, 0.25],
+        'circle-blur': 0.4,
+      },
+    });
+    instance.addLayer({
+      id: 'objects-circle-layer',
+      type: 'circle',
+      source: sourceId,
+      filter: isSingle,
+      layout: { 'circle-sort-key': ['get', 'rank'] },
+      paint: {
+        'circle-color': '#ffffff',
+        'circle-radius': ['case', ['any', isSelected, isHovered], 22, 20],
+        'circle-stroke-color': ['case', isSelected, '#1976d2', ['get', 'color']],
+        'circle-stroke-width': ['case', isSelected, 5, 3],
+      },
+    });
+    instance.addLayer({
+      id: 'objects-icon-layer',
+      type: 'symbol',
+      source: sourceId,
+      filter: isSingle,
+      layout: {
+        'icon-image': ['get', 'icon'],
+        'icon-size': 0.5,
+        'icon-allow-overlap': true,
+        'icon-ignore-placement': true,
+        'symbol-sort-key': ['get', 'rank'],
+      },
+      paint: { 'icon-color': ['get', 'color'] },
+    });
+    instance.addLayer({
+      id: 'objects-threat-layer',
+      type: 'symbol',
+      source: sourceId,
+      filter: ['all', isSingle, ['has', 'threatLabel']],
+      layout: {
+        ...TEXT_FONT_LAYOUT,
+        'text-field': ['get', 'threatLabel'],
+        'text-size': 10,
+        'text-offset': [1.6, -1.6],
+        'text-allow-overlap': true,
+        'text-ignore-placement': true,
+        'symbol-sort-key': ['get', 'rank'],
+      },
+      paint: {
+        'text-color': ['get', 'threatTextColor'],
+        'text-halo-color': ['get', 'threatColor'],
+        'text-halo-width': 4,
+      },
+    });
+    instance.addLayer({
+      id: 'objects-mission-layer',
+      type: 'symbol',
+      source: sourceId,
+      filter: ['all', isSingle, ['has', 'missionLabel']],
+      layout: {
+        ...TEXT_FONT_LAYOUT,
+        'text-field': ['get', 'missionLabel'],
+        'text-size': 10,
+        'text-offset': [0, 2],
+        'text-allow-overlap': true,
+        'text-ignore-placement': true,
+      },
+      paint: {
+        'text-color': '#ffffff',
+        'text-halo-color': ['get', 'missionColor'],
+        'text-halo-width': 3,
+      },
+    });
+    instance.addLayer({
+      id: 'object-clusters-layer',
+      type: 'circle',
+      source: sourceId,
+      filter: ['==', ['get', 'kind'], 'cluster'],
+      layout: { 'circle-sort-key': ['get', 'rank'] },
+      paint: {
+        'circle-color': 'rgba(25, 118, 210, 0.9)',
+        'circle-radius': ['case', isHovered, 27, 25],
+        'circle-stroke-color': ['get', 'threatColor'],
+        'circle-stroke-width': 3,
+      },
+    });
+    instance.addLayer({
+      id: 'object-clusters-label-layer',
+      type: 'symbol',
+      source: sourceId,
+      filter: ['==', ['get', 'kind'], 'cluster'],
+      layout: {
+        ...TEXT_FONT_LAYOUT,
+        'text-field': [
+          'format',
+          ['to-string', ['get', 'count']],
+          { 'font-scale': 1.1 },
+          '\n',
+          {},
+          ['get', 'breakdown'],
+          { 'font-scale': 0.65 },
+        ],
+        'text-size': 14,
+        'text-max-width': 8,
+        'text-allow-overlap': true,
+        'text-ignore-placement': true,
+      },
+      paint: { 'text-color': '#ffffff' },
+    });
+  }, [markerDescriptors, clusterBreakdown, threats, missionProgress, isMapReady]);
 
+  // คลิกวัตถุเพื่อเปิด/ปิด popup, คลิก cluster เพื่อ zoom เข้า และ hover ผ่าน feature-state
+  useEffect(() => {
+    const instance = map.current;
+    if (!isMapReady || !instance) return;
+    const sourceId = 'objects-source';
 
-    markerDescriptors.forEach((descriptor) => {
-
-      if (descriptor.type === 'cluster') {
-
-        const clusterEl = document.createElement('div');
-
-        clusterEl.className = 'cluster-marker';
-
-        clusterEl.style.cssText = `
-          width: 50px;
-          height: 50px;
-          border-radius: 50%;
-          background-color: rgba(25, 118, 210, 0.9);
-          color: white;
-          display: flex;
-          flex-direction: column;
-          align-items: center;
-          justify-content: center;
-          border: 3px solid #ffffff;
-          box-shadow: 0 4px 10px rgba(0,0,0,0.35);
-          cursor: pointer;
-          font-weight: 600;
-          gap: 2px;
-        `;
-
-        const count = document.createElement('div');
-
-        count.textContent = String(descriptor.objects.length);
-
-        count.style.fontSize = '15px';
-
-
-
-        const label = document.createElement('div');
-
-        label.textContent = 'objects';
-
-        label.style.fontSize = '9px';
-
-        label.style.fontWeight = '400';
-
-
-
-        clusterEl.appendChild(count);
-
-        clusterEl.appendChild(label);
-
-
-
-        clusterEl.addEventListener('click', (e) => {
-
-          e.stopPropagation();
-
-          if (!map.current) return;
-
-          const nextZoom = Math.min((map.current.getZoom() ?? 0) + 2, 19);
-
-          map.current.easeTo({
-
-            center: [descriptor.lng, descriptor.lat],
-
-            zoom: nextZoom,
-
-            duration: 600,
-
-          });
-
-        });
-
-
-
-        const clusterMarker = new mapboxgl.Marker(clusterEl)
-
-          .setLngLat([descriptor.lng, descriptor.lat])
-
-          .addTo(map.current!);
-
-
-
-        markers.current.push(clusterMarker);
+    const setHovered = (id: string | null) => {
+      if (hoveredObjectId.current && instance.getSource(sourceId)) {
+        instance.setFeatureState({ source: sourceId, id: hoveredObjectId.current }, { hover: false });
+      }
+      hoveredObjectId.current = id;
+      if (id) instance.setFeatureState({ source: sourceId, id }, { hover: true });
+      if (!drawMode) instance.getCanvas().style.cursor = id ? 'pointer' : '';
+    };
 
+    const handleObjectClick = (e: MapLayerPointerEvent) => {
+      if (drawMode) return;
+      const objId = e.features?.[0]?.properties?.obj_id;
+      if (selectedObject?.obj_id === objId) {
+        handleClose();
         return;
-
       }
+      const descriptor = markerDescriptors.find(
+        (item) => item.type === 'single' && item.object.obj_id === objId,
+      );
+      if (descriptor?.type === 'single') setSelectedObject(descriptor.object);
+    };
 
-
-
-      const obj = descriptor.object;
-
-      const color = getColorForObjectId(obj.obj_id);
-
-      const iconName = getIconName(obj.type);
-
-
-
-      const el = document.createElement('div');
-
-      el.className = 'marker';
-
-      el.style.cssText = `
-        position: relative;
-        width: 40px;
-        height: 40px;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-      `;
-
-      const pulseCircle = document.createElement('div');
-
-      pulseCircle.className = 'pulse-circle';
-
-      pulseCircle.style.cssText = `
-        position: absolute;
-        width: 60px;
-        height: 60px;
-        border-radius: 50%;
-        background-color: ${color};
-        opacity: 0.4;
-        top: 50%;
-        left: 50%;
-        transform: translate(-50%, -50%);
-        animation: pulse 2s ease-out infinite;
-        pointer-events: none;
-      `;
-
-      const iconContainer = document.createElement('div');
-
-      iconContainer.className = 'iconify-marker';
-
-      iconContainer.style.cssText = `
-        cursor: pointer;
-        position: relative;
-        width: 40px;
-        height: 40px;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        background-color: white;
-        border-radius: 50%;
-        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-        border: 3px solid ${color};
-      `;
-
-      const iconElement = document.createElement('span');
-
-      iconElement.className = 'iconify';
-
-      iconElement.setAttribute('data-icon', iconName);
-
-      iconElement.style.cssText = `
-        color: ${color};
-        font-size: 24px;
-      `;
-
-
-
-      iconContainer.appendChild(iconElement);
-
-      el.appendChild(pulseCircle);
-
-      el.appendChild(iconContainer);
-
-
-
-      el.addEventListener('click', (e) => {
-        e.stopPropagation();
-        if (selectedObject?.obj_id === obj.obj_id) {
-          handleClose();
-          return;
-        }
-        setSelectedObject(obj);
-        selectedMarkerRef.current = el;
-        const rect = el.getBoundingClientRect();
-        setCardPosition({
-          x: rect.left + rect.width / 2,
-          y: rect.top,
-        });
-      });  
-
-
-      const marker = new mapboxgl.Marker(el)
-
-        .setLngLat([descriptor.lng, descriptor.lat])
-
-        .addTo(map.current!);
-
-
-
-      markers.current.push(marker);
-
-
-
-      if (selectedObject?.obj_id === obj.obj_id) {
-
-        selectedMarkerRef.current = el;
-
-        syncPopupPosition(el);
-
+    // cluster ที่ยังแยกได้ zoom ไปพอดีขอบเขตของสมาชิก ส่วนที่ซ้อนกันแม้ zoom สุดจะกระจายออก (spiderfy)
+    const handleClusterClick = (e: MapLayerPointerEvent) => {
+      if (drawMode) return;
+      const clusterId = e.features?.[0]?.properties?.obj_id;
+      const descriptor = markerDescriptors.find((item) => item.type === 'cluster' && item.id === clusterId);
+      if (descriptor?.type !== 'cluster') return;
+      if (descriptor.expansionZoom > MAP_MAX_ZOOM) {
+        setSpider({ anchorId: descriptor.objects[0].obj_id, zoom: currentZoom });
+        return;
       }
+      instance.fitBounds(descriptor.bounds, { padding: 80, maxZoom: MAP_MAX_ZOOM, duration: 600 });
+    };
+
+    // คลิกพื้นที่ว่างรวม spider กลับเป็น cluster
+    const handleMapClick = (e: MapPointerEvent) => {
+      const hit = instance.queryRenderedFeatures([e.point.x, e.point.y], {
+        layers: ['objects-circle-layer', 'object-clusters-layer'],
+      });
+      if (hit.length === 0) setSpider(null);
+    };
 
+    const handleMove = (e: MapLayerPointerEvent) => {
+      const id = e.features?.[0]?.id;
+      setHovered(id === undefined ? null : String(id));
+    };
+    const handleLeave = () => setHovered(null);
+
+    instance.on('click', 'objects-circle-layer', handleObjectClick);
+    instance.on('click', 'object-clusters-layer', handleClusterClick);
+    instance.on('click', handleMapClick);
+    ['objects-circle-layer', 'object-clusters-layer'].forEach((layerId) => {
+      instance.on('mousemove', layerId, handleMove);
+      instance.on('mouseleave', layerId, handleLeave);
     });
 
-  }, [markerDescriptors, imagePath, selectedObject]);
+    return () => {
+      instance.off('click', 'objects-circle-layer', handleObjectClick);
+      instance.off('click', 'object-clusters-layer', handleClusterClick);
+      instance.off('click', handleMapClick);
+      ['objects-circle-layer', 'object-clusters-layer'].forEach((layerId) => {
+        instance.off('mousemove', layerId, handleMove);
+        instance.off('mouseleave', layerId, handleLeave);
+      });
+    };
+  }, [isMapReady, markerDescriptors, selectedObject, drawMode, currentZoom]);
+
+  // วัตถุที่เลือกใช้ feature-state แทนการสร้าง marker ใหม่
+  useEffect(() => {
+    const instance = map.current;
+    if (!isMapReady || !instance?.getSource('objects-source')) return;
+    const nextId = selectedObject?.obj_id ?? null;
+    if (selectedFeatureId.current && selectedFeatureId.current !== nextId) {
+      instance.setFeatureState({ source: 'objects-source', id: selectedFeatureId.current }, { selected: false });
+    }
+    if (nextId) instance.setFeatureState({ source: 'objects-source', id: nextId }, { selected: true });
+    selectedFeatureId.current = nextId;
+  }, [selectedObject, markerDescriptors, isMapReady]);
 
   useEffect(() => {
     if (!map.current || !focusPoint) return;
@@ -874,48 +1563,74 @@ const MapComponent = ({
   }, [focusPoint]);
 
   useEffect(() => {
-    if (!map.current) return;
-
-    targetMarkers.current.forEach((marker) => marker.remove());
-    targetMarkers.current = [];
-
-    if (!isMapReady || targetDescriptors.length === 0) return;
-
-    targetDescriptors.forEach(({ lat, lng, object }) => {
-      const el = document.createElement('div');
-      el.className = 'target-waypoint-marker';
-      el.style.cssText = `
-        width: 32px;
-        height: 32px;
-        border-radius: 8px;
-        background-color: rgba(255, 193, 7, 0.95);
-        border: 2px solid #ff6f00;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        box-shadow: 0 2px 8px rgba(0,0,0,0.35);
-      `;
-      el.title = `Waypoint for ${object.obj_id}`;
-
-      const icon = document.createElement('span');
-      icon.className = 'iconify';
-      icon.setAttribute('data-icon', 'mdi:crosshairs-gps');
-      icon.style.cssText = `
-        color: #5d4037;
-        font-size: 18px;
-      `;
-
-      el.appendChild(icon);
+    if (!isMapReady || !map.current) return;
+    const selectedId = selectedObject?.obj_id ?? null;
+    const lineData = {
+      type: 'FeatureCollection' as const,
+      features: buildTargetLineFeatures(objects, selectedId),
+    };
+    const pointData = {
+      type: 'FeatureCollection' as const,
+      features: buildTargetPointFeatures(objects, selectedId),
+    };
 
-      const marker = new mapboxgl.Marker(el).setLngLat([lng, lat]).addTo(map.current!);
-      targetMarkers.current.push(marker);
-    });
+    const lineSource = getGeoJSONSource(map.current, 'drone-target-lines');
+    const pointSource = getGeoJSONSource(map.current, 'drone-target-points');
+    if (lineSource && pointSource) {
+      lineSource.setData(lineData);
+      pointSource.setData(pointData);
+      return;
+    }
 
-    return () => {
-      targetMarkers.current.forEach((marker) => marker.remove());
-      targetMarkers.current = [];
-    };
-  }, [isMapReady, targetDescriptors]);
+    map.current.addSource('drone-target-lines', { type: 'geojson', data: lineData });
+    map.current.addSource('drone-target-points', { type: 'geojson', data: pointData });
+    // วาดใต้วัตถุ เพื่อให้เส้นไม่ทับ marker ของโดรน
+    const beforeId = map.current.getLayer('objects-halo-layer') ? 'objects-halo-layer' : undefined;
+    map.current.addLayer({
+      id: 'drone-target-lines-layer',
+      type: 'line',
+      source: 'drone-target-lines',
+      filter: ['==', ['get', 'kind'], 'line'],
+      layout: {
+        'line-cap': 'round',
+        'line-sort-key': ['case', ['get', 'selected'], 1, 0],
+      },
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': ['case', ['get', 'selected'], 5, 2.5],
+        'line-opacity': ['case', ['get', 'selected'], 1, 0.7],
+        'line-dasharray': [3, 2],
+      },
+    }, beforeId);
+    map.current.addLayer({
+      id: 'drone-target-points-layer',
+      type: 'circle',
+      source: 'drone-target-points',
+      paint: {
+        'circle-color': '#ffc107',
+        'circle-radius': ['case', ['get', 'selected'], 9, 7],
+        'circle-stroke-color': ['get', 'color'],
+        'circle-stroke-width': ['case', ['get', 'selected'], 4, 3],
+      },
+    }, beforeId);
+    map.current.addLayer({
+      id: 'drone-target-labels-layer',
+      type: 'symbol',
+      source: 'drone-target-lines',
+      filter: ['==', ['get', 'kind'], 'label'],
+      layout: {
+        ...TEXT_FONT_LAYOUT,
+        'text-field': ['get', 'label'],
+        'text-size': ['case', ['get', 'selected'], 13, 11],
+        'text-allow-overlap': true,
+      },
+      paint: {
+        'text-color': '#ffffff',
+        'text-halo-color': ['get', 'color'],
+        'text-halo-width': 1.5,
+      },
+    }, beforeId);
+  }, [objects, selectedObject, isMapReady]);
 
   const fitToAllPoints = useCallback(
     (withAnimation = true) => {
@@ -937,12 +1652,12 @@ const MapComponent = ({
         return;
       }
 
-      const bounds = new mapboxgl.LngLatBounds(
+      const bounds = createLngLatBounds(
         [points[0].lng, points[0].lat],
         [points[0].lng, points[0].lat],
       );
       points.slice(1).forEach((pt) => bounds.extend([pt.lng, pt.lat]));
-      map.current.fitBounds(bounds, { padding: 80, duration: withAnimation ? 800 : 0, maxZoom: 17.5 });
+      map.current.fitBounds(bounds.toArray(), { padding: 80, duration: withAnimation ? 800 : 0, maxZoom: 17.5 });
     },
     [isMapReady, markerDescriptors, defaultCoordinates],
   );
@@ -953,64 +1668,55 @@ const MapComponent = ({
     }
   }, [shouldAutoFit, fitToAllPoints]);
 
-  // อัพเดทตำแหน่ง popup เมื่อแผนที่เลื่อนหรือ zoom
+  // อัพเดทตำแหน่ง popup เมื่อแผนที่เลื่อน, zoom หรือวัตถุที่เลือกขยับ
+  const selectedDescriptor = useMemo(
+    () =>
+      selectedObject
+        ? markerDescriptors.find(
+            (descriptor) => descriptor.type === 'single' && descriptor.object.obj_id === selectedObject.obj_id,
+          ) ?? null
+        : null,
+    [markerDescriptors, selectedObject],
+  );
+
   useEffect(() => {
-    if (!map.current || !selectedMarkerRef.current) return;
+    const instance = map.current;
+    if (!instance || !selectedDescriptor) return;
 
     const updateCardPosition = () => {
-      if (selectedMarkerRef.current) {
-        const rect = selectedMarkerRef.current.getBoundingClientRect();
-        let x = rect.left + rect.width / 2;
-        let y = rect.top;
-        const popupEl = popupRef.current;
-        if (popupEl) {
-          const popupRect = popupEl.getBoundingClientRect();
-          const margin = 12;
-          if (x - popupRect.width / 2 < margin) {
-            x = popupRect.width / 2 + margin;
-          }
-          if (x + popupRect.width / 2 > window.innerWidth - margin) {
-            x = window.innerWidth - popupRect.width / 2 - margin;
-          }
-          if (y - popupRect.height < margin) {
-            y = popupRect.height + margin;
-          }
+      const containerRect = instance.getContainer().getBoundingClientRect();
+      const point = instance.project([selectedDescriptor.lng, selectedDescriptor.lat]);
+      let x = containerRect.left + point.x;
+      let y = containerRect.top + point.y - OBJECT_MARKER_RADIUS_PX;
+      const popupEl = popupRef.current;
+      if (popupEl) {
+        const popupRect = popupEl.getBoundingClientRect();
+        const margin = 12;
+        if (x - popupRect.width / 2 < margin) {
+          x = popupRect.width / 2 + margin;
+        }
+        if (x + popupRect.width / 2 > window.innerWidth - margin) {
+          x = window.innerWidth - popupRect.width / 2 - margin;
+        }
+        if (y - popupRect.height < margin) {
+          y = popupRect.height + margin;
         }
-        setCardPosition({ x, y });
       }
+      setCardPosition({ x, y });
     };
 
-    map.current.on('move', updateCardPosition);
-    map.current.on('zoom', updateCardPosition);
+    updateCardPosition();
+    instance.on('move', updateCardPosition);
+    instance.on('zoom', updateCardPosition);
 
     return () => {
-      map.current?.off('move', updateCardPosition);
-      map.current?.off('zoom', updateCardPosition);
+      instance.off('move', updateCardPosition);
+      instance.off('zoom', updateCardPosition);
     };
-  }, [selectedObject]);
+  }, [selectedDescriptor]);
 
   return (
     <Box sx={{ position: 'relative', height: '100%', width: '100%' }}>
-      {/* CSS Animation สำหรับ pulse effect */}
-      <style>
-        {`
-          @keyframes pulse {
-            0% {
-              transform: translate(-50%, -50%) scale(0.5);
-              opacity: 0.8;
-            }
-            50% {
-              transform: translate(-50%, -50%) scale(1.2);
-              opacity: 0.4;
-            }
-            100% {
-              transform: translate(-50%, -50%) scale(1.8);
-              opacity: 0;
-            }
-          }
-        `}
-      </style>
-
       {/* Container ของแผนที่ */}
       <Box
         ref={mapContainer}
@@ -1022,6 +1728,33 @@ const MapComponent = ({
         }}
       />
 
+      {isOfflineMap && (
+        <Box
+          sx={{
+            position: 'absolute',
+            bottom: 40,
+            left: 10,
+            zIndex: 2,
+            px: 1,
+            py: 0.25,
+            borderRadius: 1,
+            bgcolor: 'rgba(0, 0, 0, 0.6)',
+            color: 'common.white',
+            pointerEvents: 'none',
+          }}
+        >
+          <Typography variant="caption" display="block">
+            Offline map{gridSpacing !== null ? ` • grid ${formatGridSpacing(gridSpacing)}` : ''}
+          </Typography>
+        </Box>
+      )}
+
+      {!isOfflineMap && !mapStyleConfig.mapboxToken && (
+        <Alert severity="warning" sx={{ position: 'absolute', bottom: 40, left: 10, zIndex: 2 }}>
+          VITE_MAPBOX_TOKEN is not set. Set it or use VITE_MAP_MODE=offline.
+        </Alert>
+      )}
+
       <Box
         sx={{
           position: 'absolute',
@@ -1092,6 +1825,54 @@ const MapComponent = ({
                 </Button>
               </Stack>
 
+              {onZoneCreate && (
+                <Stack direction="row" spacing={1}>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<Icon icon="mdi:circle-outline" />}
+                    onClick={() => {
+                      cancelDrawing();
+                      setDrawMode('circle');
+                    }}
+                    sx={{ textTransform: 'none', flex: 1 }}
+                  >
+                    Circle zone
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<Icon icon="mdi:vector-polygon" />}
+                    onClick={() => {
+                      cancelDrawing();
+                      setDrawMode('polygon');
+                    }}
+                    sx={{ textTransform: 'none', flex: 1 }}
+                  >
+                    Polygon zone
+                  </Button>
+                </Stack>
+              )}
+
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Typography variant="caption" color="text.secondary">
+                  Clusters by
+                </Typography>
+                <ToggleButtonGroup
+                  exclusive
+                  size="small"
+                  value={clusterBreakdown}
+                  onChange={(_, value: ClusterBreakdown | null) => value && setClusterBreakdown(value)}
+                >
+                  <ToggleButton value="type" sx={{ textTransform: 'none', py: 0.25 }}>
+                    Type
+                  </ToggleButton>
+                  <ToggleButton value="objective" sx={{ textTransform: 'none', py: 0.25 }}>
+                    Objective
+                  </ToggleButton>
+                </ToggleButtonGroup>
+              </Stack>
+
               {defaultCoordinates && (
                 <Typography variant="caption" color="text.secondary">
                   Default marker: lat {defaultCoordinates.lat.toFixed(5)} • lng {defaultCoordinates.lng.toFixed(5)}
@@ -1139,6 +1920,52 @@ const MapComponent = ({
         )}
       </Box>
 
+      {(drawMode || editingZone) && (
+        <Box
+          sx={{
+            position: 'absolute',
+            top: 12,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 3,
+            bgcolor: (theme) => theme.palette.background.paper,
+            borderRadius: 1,
+            boxShadow: 3,
+            px: 2,
+            py: 1,
+          }}
+        >
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Typography variant="body2">
+              {drawMode === 'circle' &&
+                (draftPoints.length === 0 ? 'Click to place the zone centre' : 'Click to set the zone radius')}
+              {drawMode === 'polygon' && `Click to add vertices (${draftPoints.length} placed)`}
+              {!drawMode && editingZone && `Editing ${editingZone.name}: drag the handles`}
+            </Typography>
+            {drawMode === 'polygon' && (
+              <Button
+                size="small"
+                variant="contained"
+                disabled={draftPoints.length < 3}
+                onClick={finishPolygon}
+                sx={{ textTransform: 'none' }}
+              >
+                Finish
+              </Button>
+            )}
+            {drawMode ? (
+              <Button size="small" onClick={cancelDrawing} sx={{ textTransform: 'none' }}>
+                Cancel
+              </Button>
+            ) : (
+              <Button size="small" variant="contained" onClick={onZoneEditDone} sx={{ textTransform: 'none' }}>
+                Done
+              </Button>
+            )}
+          </Stack>
+        </Box>
+      )}
+
       {showDefaultInfo && defaultCoordinates && (
         <Box
           sx={{
@@ -1198,7 +2025,11 @@ const MapComponent = ({
             <Icon icon="mdi:close" width={16} />
           </IconButton>
 
-          <DetectionPopup object={selectedObject} imagePath={imagePath} />
+          <DetectionPopup
+            object={selectedObject}
+            imagePath={imagePath}
+            estimate={motionEstimates?.[selectedObject.obj_id]}
+          />
         </Box>
       )}
     </Box>
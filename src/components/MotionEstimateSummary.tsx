@@ -0,0 +1,75 @@
+/**
+ * Component แสดง telemetry ที่ประมาณจาก track (ความเร็ว, ทิศทาง, อัตราไต่) พร้อมความมั่นใจ
+ * แสดงคู่กับค่าที่โดรนรายงานมาเพื่อเทียบกัน
+ */
+
+import { Box, LinearProgress, Stack, Typography } from '@mui/material';
+import { Icon } from '@iconify/react';
+import { type MotionEstimate } from '../utils/motionEstimate';
+
+interface MotionEstimateSummaryProps {
+  estimate?: MotionEstimate | null;
+  reportedSpeed?: number | null;
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+const formatHeading = (heading: number) =>
+  `${Math.round(heading)}° ${COMPASS_POINTS[Math.round(heading / 45) % COMPASS_POINTS.length]}`;
+
+const formatClimb = (climbRate: number | null) => {
+  if (climbRate === null) return 'N/A';
+  return `${climbRate > 0 ? '+' : ''}${climbRate.toFixed(1)} m/s`;
+};
+
+const getConfidenceColor = (confidence: number): 'success' | 'warning' | 'error' => {
+  if (confidence >= 0.7) return 'success';
+  if (confidence >= 0.4) return 'warning';
+  return 'error';
+};
+
+const MotionEstimateSummary = ({ estimate, reportedSpeed }: MotionEstimateSummaryProps) => {
+  if (!estimate) {
+    return (
+      <Typography variant="caption" color="text.secondary">
+        Estimated motion: waiting for more positions
+      </Typography>
+    );
+  }
+
+  const confidencePercent = Math.round(estimate.confidence * 100);
+
+  return (
+    <Box sx={{ p: 1, borderRadius: 1, border: '1px dashed', borderColor: 'divider' }}>
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 0.5 }}>
+        <Icon icon="mdi:chart-bell-curve" width={16} />
+        <Typography variant="caption" fontWeight={600}>
+          Estimated ({estimate.samples} fixes)
+        </Typography>
+      </Stack>
+      <Typography variant="caption" color="text.secondary" display="block">
+        Speed: {estimate.speed.toFixed(1)} ± {estimate.speedSigma.toFixed(1)} m/s
+        {reportedSpeed !== null && reportedSpeed !== undefined ? ` (reported ${reportedSpeed.toFixed(1)} m/s)` : ''}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" display="block">
+        Heading: {formatHeading(estimate.heading)}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" display="block">
+        Climb: {formatClimb(estimate.climbRate)}
+      </Typography>
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 0.5 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ minWidth: 96 }}>
+          Confidence {confidencePercent}%
+        </Typography>
+        <LinearProgress
+          variant="determinate"
+          value={confidencePercent}
+          color={getConfidenceColor(estimate.confidence)}
+          sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+        />
+      </Stack>
+    </Box>
+  );
+};
+
+export default MotionEstimateSummary;
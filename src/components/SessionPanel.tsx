@@ -0,0 +1,236 @@
+/**
+ * Component สำหรับบันทึก session ระหว่างแข่งขัน, ดาวน์โหลดเป็น JSON
+ * และโหลดไฟล์กลับมา replay ที่ 1x / 2x / 10x หรือเดินทีละ entry
+ */
+
+import { useState, type ChangeEvent } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Divider,
+  LinearProgress,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { Icon } from '@iconify/react';
+import { useReplayPlayer } from '../hooks/useReplayPlayer';
+import { useSessionRecorder } from '../hooks/useSessionRecorder';
+import { REPLAY_SPEEDS, type ReplayPlayer, type ReplayRunState } from '../sources/replaySource';
+import { type SessionRecorder } from '../sources/sessionRecorder';
+import { type RecordedEntry } from '../types/session';
+import { formatDuration, formatThaiDateTime } from '../utils/dateFormat';
+import { reportPayloadIssues } from '../utils/payloadIssueLog';
+import { downloadSessionFile, parseSessionFile } from '../utils/sessionFile';
+
+interface SessionPanelProps {
+  recorder: SessionRecorder;
+  replay?: ReplayPlayer;                                         // มีเมื่อ dashboard กำลังเล่น replay
+  onStartRecording: () => void;
+  onLoadSession: (entries: RecordedEntry[], fileName: string) => void;
+  onExitReplay?: () => void;                                     // กลับไปใช้แหล่งข้อมูลตาม config
+}
+
+const RUN_STATE_STYLE: Record<ReplayRunState, { label: string; color: 'default' | 'success' | 'warning' | 'info' | 'error' }> = {
+  loading: { label: 'Loading', color: 'info' },
+  ready: { label: 'Ready', color: 'info' },
+  playing: { label: 'Playing', color: 'success' },
+  paused: { label: 'Paused', color: 'warning' },
+  finished: { label: 'Finished', color: 'default' },
+  error: { label: 'Error', color: 'error' },
+};
+
+const ReplayControls = ({ player, onExitReplay }: { player: ReplayPlayer; onExitReplay?: () => void }) => {
+  const state = useReplayPlayer(player);
+  const runStyle = RUN_STATE_STYLE[state.runState];
+  const isPlaying = state.runState === 'playing';
+  const canControl = state.runState !== 'loading' && state.runState !== 'error';
+  const progress = state.total > 0 ? (state.cursor / state.total) * 100 : 0;
+
+  return (
+    <Stack spacing={1.5}>
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+        <Chip label={runStyle.label} color={runStyle.color} size="small" />
+        <Chip
+          icon={<Icon icon="mdi:timer-outline" />}
+          label={`${formatDuration(state.positionMs / 1000)} / ${formatDuration(state.durationMs / 1000)}`}
+          size="small"
+        />
+        <Typography variant="caption" color="text.secondary">
+          {state.cursor}/{state.total} entries
+        </Typography>
+      </Stack>
+      <LinearProgress variant="determinate" value={progress} />
+
+      <Stack direction="row" spacing={1}>
+        <Button
+          variant="contained"
+          size="small"
+          startIcon={<Icon icon={isPlaying ? 'mdi:pause' : 'mdi:play'} />}
+          disabled={!canControl || state.runState === 'finished'}
+          onClick={() => (isPlaying ? player.pause() : player.play())}
+          sx={{ textTransform: 'none', flex: 1 }}
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </Button>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<Icon icon="mdi:skip-next" />}
+          disabled={!canControl || state.runState === 'finished'}
+          onClick={player.step}
+          sx={{ textTransform: 'none' }}
+        >
+          Step
+        </Button>
+      </Stack>
+
+      <ToggleButtonGroup
+        exclusive
+        size="small"
+        value={state.speed}
+        onChange={(_, value: number | null) => value !== null && player.setSpeed(value)}
+      >
+        {REPLAY_SPEEDS.map((speed) => (
+          <ToggleButton key={speed} value={speed} sx={{ textTransform: 'none', px: 1.5 }}>
+            {speed}x
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      {onExitReplay && (
+        <Button
+          variant="text"
+          size="small"
+          startIcon={<Icon icon="mdi:access-point-network" />}
+          onClick={onExitReplay}
+          sx={{ textTransform: 'none', alignSelf: 'flex-start' }}
+        >
+          Exit replay
+        </Button>
+      )}
+    </Stack>
+  );
+};
+
+const SessionPanel = ({ recorder, replay, onStartRecording, onLoadSession, onExitReplay }: SessionPanelProps) => {
+  const recording = useSessionRecorder(recorder);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    const session = recorder.toSession();
+    if (session) downloadSessionFile(session);
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { entries, issues } = parseSessionFile(JSON.parse(await file.text()));
+      reportPayloadIssues(issues);
+      if (entries.length === 0) throw new Error('File contains no detection events');
+      setLoadError(null);
+      recorder.stop();
+      onLoadSession(entries, file.name);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Unable to read session file');
+    }
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>
+          Recording
+        </Typography>
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" sx={{ mb: 1.5 }}>
+          <Chip
+            icon={<Icon icon={recording.isRecording ? 'mdi:record-circle' : 'mdi:record-circle-outline'} />}
+            label={recording.isRecording ? 'Recording' : 'Idle'}
+            color={recording.isRecording ? 'error' : 'default'}
+            size="small"
+          />
+          <Typography variant="caption" color="text.secondary">
+            {recording.entryCount} entries • {recording.eventCount} events
+          </Typography>
+        </Stack>
+        {recording.startedAt && (
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+            Started {formatThaiDateTime(recording.startedAt)}
+          </Typography>
+        )}
+        <Stack direction="row" spacing={1}>
+          {recording.isRecording ? (
+            <Button
+              variant="contained"
+              color="error"
+              size="small"
+              startIcon={<Icon icon="mdi:stop" />}
+              onClick={recorder.stop}
+              sx={{ textTransform: 'none', flex: 1 }}
+            >
+              Stop
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              size="small"
+              startIcon={<Icon icon="mdi:record" />}
+              onClick={onStartRecording}
+              sx={{ textTransform: 'none', flex: 1 }}
+            >
+              Record
+            </Button>
+          )}
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<Icon icon="mdi:download" />}
+            disabled={!recording.startedAt || recording.eventCount === 0}
+            onClick={handleDownload}
+            sx={{ textTransform: 'none' }}
+          >
+            Download JSON
+          </Button>
+        </Stack>
+      </Box>
+
+      <Divider />
+
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>
+          Replay
+        </Typography>
+        <Button
+          component="label"
+          variant="outlined"
+          size="small"
+          startIcon={<Icon icon="mdi:folder-open-outline" />}
+          sx={{ textTransform: 'none', mb: 1.5 }}
+        >
+          Load session file
+          <input hidden type="file" accept="application/json,.json" onChange={handleFileChange} />
+        </Button>
+        {loadError && (
+          <Alert severity="error" sx={{ mb: 1.5 }}>
+            {loadError}
+          </Alert>
+        )}
+        {replay ? (
+          <ReplayControls player={replay} onExitReplay={onExitReplay} />
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            Load a recorded session to replay it into the dashboard.
+          </Typography>
+        )}
+      </Box>
+    </Stack>
+  );
+};
+
+export default SessionPanel;
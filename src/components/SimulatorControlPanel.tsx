@@ -0,0 +1,173 @@
+/**
+ * Component สำหรับควบคุม simulator: เลือก scenario, เริ่ม/หยุด/รีเซ็ต, ปรับความเร็วเวลา
+ * และแก้ความเร็ว/ความสูงของโดรนแต่ละลำระหว่างจำลอง
+ */
+
+import {
+  Box,
+  Button,
+  Chip,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { Icon } from '@iconify/react';
+import { type SimulationEngine, type SimulationRunState } from '../simulator/engine';
+import { SIMULATION_SCENARIOS } from '../simulator/scenarios';
+import { useSimulation } from '../hooks/useSimulation';
+import { formatDuration } from '../utils/dateFormat';
+
+interface SimulatorControlPanelProps {
+  engine: SimulationEngine;
+}
+
+const TIME_SCALES = [0.5, 1, 2, 5, 10];
+
+const RUN_STATE_STYLE: Record<SimulationRunState, { label: string; color: 'default' | 'success' | 'warning' | 'info' }> = {
+  ready: { label: 'Ready', color: 'info' },
+  running: { label: 'Running', color: 'success' },
+  paused: { label: 'Paused', color: 'warning' },
+  finished: { label: 'Finished', color: 'default' },
+};
+
+const SimulatorControlPanel = ({ engine }: SimulatorControlPanelProps) => {
+  const state = useSimulation(engine);
+  const runStyle = RUN_STATE_STYLE[state.runState];
+  const isRunning = state.runState === 'running';
+
+  const handleScenarioChange = (scenarioId: string) => {
+    const scenario = SIMULATION_SCENARIOS.find((item) => item.id === scenarioId);
+    if (scenario) engine.loadScenario(scenario);
+  };
+
+  const handleDroneNumber = (objId: string, field: 'speed' | 'alt', value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    engine.updateDrone(objId, { [field]: parsed });
+  };
+
+  return (
+    <Stack spacing={2}>
+      <TextField
+        select
+        size="small"
+        label="Scenario"
+        value={state.scenario.id}
+        onChange={(e) => handleScenarioChange(e.target.value)}
+      >
+        {SIMULATION_SCENARIOS.map((scenario) => (
+          <MenuItem key={scenario.id} value={scenario.id}>
+            {scenario.name}
+          </MenuItem>
+        ))}
+      </TextField>
+      <Typography variant="body2" color="text.secondary">
+        {state.scenario.description}
+      </Typography>
+
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+        <Chip label={runStyle.label} color={runStyle.color} size="small" />
+        <Chip icon={<Icon icon="mdi:timer-outline" />} label={formatDuration(state.elapsedSec)} size="small" />
+        <Chip icon={<Icon icon="mdi:drone" />} label={`Airborne: ${state.activeDrones}`} size="small" />
+      </Stack>
+
+      <Stack direction="row" spacing={1}>
+        <Button
+          variant="contained"
+          size="small"
+          startIcon={<Icon icon={isRunning ? 'mdi:pause' : 'mdi:play'} />}
+          onClick={() => (isRunning ? engine.pause() : engine.start())}
+          sx={{ textTransform: 'none', flex: 1 }}
+        >
+          {isRunning ? 'Pause' : state.runState === 'paused' ? 'Resume' : 'Start'}
+        </Button>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<Icon icon="mdi:restart" />}
+          onClick={engine.reset}
+          sx={{ textTransform: 'none' }}
+        >
+          Reset
+        </Button>
+      </Stack>
+
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>
+          Time scale
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={state.timeScale}
+          onChange={(_, value: number | null) => value !== null && engine.setTimeScale(value)}
+        >
+          {TIME_SCALES.map((scale) => (
+            <ToggleButton key={scale} value={scale} sx={{ textTransform: 'none', px: 1.5 }}>
+              {scale}x
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>
+          Drones
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>ID</TableCell>
+              <TableCell>Objective</TableCell>
+              <TableCell>Speed (m/s)</TableCell>
+              <TableCell>Alt (m)</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {state.scenario.drones.map((drone) => (
+              <TableRow key={drone.obj_id}>
+                <TableCell>
+                  <Typography variant="body2" fontWeight={600}>
+                    {drone.obj_id}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {drone.size} • {drone.camera}
+                  </Typography>
+                </TableCell>
+                <TableCell>{drone.objective}</TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    type="number"
+                    value={drone.speed}
+                    onChange={(e) => handleDroneNumber(drone.obj_id, 'speed', e.target.value)}
+                    sx={{ width: 80 }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    type="number"
+                    value={drone.alt}
+                    onChange={(e) => handleDroneNumber(drone.obj_id, 'alt', e.target.value)}
+                    sx={{ width: 80 }}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+    </Stack>
+  );
+};
+
+export default SimulatorControlPanel;
@@ -0,0 +1,82 @@
+/**
+ * Chip แสดงสุขภาพการเชื่อมต่อ Socket.IO พร้อม latency และจำนวนครั้งที่ reconnect
+ * เมื่อเชื่อมต่อล้มเหลว กดที่ chip เพื่อลองใหม่ได้ (ถ้ามี onRetry)
+ */
+
+import { Chip, Tooltip } from '@mui/material';
+import { Icon } from '@iconify/react';
+import { type SocketConnectionState, type SocketConnectionStatus } from '../types/socket';
+
+interface SocketStatusChipProps {
+  connection: SocketConnectionState;
+  prefix?: string;               // ชื่อแหล่งข้อมูล เช่น "Socket", "Replay", "Simulator"
+  onRetry?: () => void;
+}
+
+const STATUS_STYLE: Record<
+  SocketConnectionStatus,
+  { icon: string; color: 'default' | 'success' | 'warning' | 'error' | 'info' }
+> = {
+  idle: { icon: 'mdi:power-plug-off', color: 'default' },
+  connecting: { icon: 'mdi:timer-sand', color: 'info' },
+  connected: { icon: 'mdi:check-circle', color: 'success' },
+  reconnecting: { icon: 'mdi:refresh', color: 'warning' },
+  failed: { icon: 'mdi:close-circle', color: 'error' },
+  finished: { icon: 'mdi:flag-checkered', color: 'default' },
+};
+
+const formatMs = (value: number) => `${Math.round(value)} ms`;
+
+// ยังไม่มี sample: ไม่ได้วัด (ไม่ได้ตั้ง ping event / source ไม่ใช่ socket) หรือ server ไม่ตอบ ack เลย
+const formatLatency = ({ averageMs, samples, timeouts }: SocketConnectionState['latency']) => {
+  if (averageMs !== null) return `Avg RTT: ${formatMs(averageMs)} (${samples.length} samples, ${timeouts} timeouts)`;
+  if (timeouts > 0) return `Latency: no ack from server (${timeouts} timeouts)`;
+  return 'Latency: not measured';
+};
+
+const getLabel = (connection: SocketConnectionState, prefix: string) => {
+  switch (connection.status) {
+    case 'connected':
+      return connection.latency.lastMs === null
+        ? `${prefix} Connected`
+        : `${prefix} ${formatMs(connection.latency.lastMs)}`;
+    case 'connecting':
+      return `${prefix} Connecting…`;
+    case 'reconnecting':
+      return `${prefix} Reconnecting ${connection.attempt}/${connection.maxAttempts}`;
+    case 'failed':
+      return `${prefix} Failed`;
+    case 'finished':
+      return `${prefix} Finished`;
+    default:
+      return `${prefix} Off`;
+  }
+};
+
+const SocketStatusChip = ({ connection, prefix = 'Socket', onRetry }: SocketStatusChipProps) => {
+  const style = STATUS_STYLE[connection.status];
+  const { latency } = connection;
+  const canRetry = connection.status === 'failed' && Boolean(onRetry);
+
+  const details = [
+    `Status: ${connection.status}`,
+    formatLatency(latency),
+    `Reconnects: ${Math.max(0, connection.connectCount - 1)}`,
+    connection.lastError ? `Last error: ${connection.lastError}` : null,
+    canRetry ? 'Click to retry' : null,
+  ].filter(Boolean);
+
+  return (
+    <Tooltip title={<span style={{ whiteSpace: 'pre-line' }}>{details.join('\n')}</span>}>
+      <Chip
+        icon={<Icon icon={style.icon} />}
+        label={getLabel(connection, prefix)}
+        color={style.color}
+        size="small"
+        onClick={canRetry ? onRetry : undefined}
+      />
+    </Tooltip>
+  );
+};
+
+export default SocketStatusChip;
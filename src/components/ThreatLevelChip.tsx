@@ -0,0 +1,35 @@
+/**
+ * Chip แสดงระดับภัยคุกคาม (low / medium / high / critical) พร้อมคะแนน
+ */
+
+import { Chip, Tooltip } from '@mui/material';
+import { THREAT_LEVEL_COLORS, THREAT_FACTORS, type ThreatAssessment } from '../utils/threatScore';
+
+interface ThreatLevelChipProps {
+  assessment?: ThreatAssessment;
+  showScore?: boolean;
+}
+
+const ThreatLevelChip = ({ assessment, showScore = true }: ThreatLevelChipProps) => {
+  if (!assessment) return null;
+  const color = THREAT_LEVEL_COLORS[assessment.level];
+  const details = THREAT_FACTORS.map((factor) => `${factor}: ${Math.round(assessment.factors[factor] * 100)}%`);
+
+  return (
+    <Tooltip title={<span style={{ whiteSpace: 'pre-line' }}>{details.join('\n')}</span>}>
+      <Chip
+        size="small"
+        label={showScore ? `${assessment.level.toUpperCase()} ${Math.round(assessment.score)}` : assessment.level.toUpperCase()}
+        sx={{
+          bgcolor: color,
+          color: assessment.level === 'medium' ? 'rgba(0, 0, 0, 0.87)' : '#fff',
+          fontWeight: 600,
+          height: 20,
+          fontSize: 11,
+        }}
+      />
+    </Tooltip>
+  );
+};
+
+export default ThreatLevelChip;
@@ -0,0 +1,55 @@
+/**
+ * Component สำหรับปรับน้ำหนักของแต่ละปัจจัยในการให้คะแนนภัยคุกคาม
+ */
+
+import { Button, Slider, Stack, Typography } from '@mui/material';
+import { DEFAULT_THREAT_WEIGHTS, THREAT_FACTORS, type ThreatFactor, type ThreatWeights } from '../utils/threatScore';
+
+interface ThreatWeightsEditorProps {
+  weights: ThreatWeights;
+  onChange: (weights: ThreatWeights) => void;
+}
+
+const FACTOR_LABELS: Record<ThreatFactor, string> = {
+  distance: 'Distance to defended point',
+  closingSpeed: 'Closing speed',
+  altitude: 'Low altitude',
+  objective: 'Objective (enemy / unknown / our)',
+  size: 'Size',
+  type: 'Object type',
+};
+
+const MAX_WEIGHT = 5;
+
+const ThreatWeightsEditor = ({ weights, onChange }: ThreatWeightsEditorProps) => (
+  <Stack spacing={1}>
+    <Stack direction="row" alignItems="center" justifyContent="space-between">
+      <Typography variant="subtitle2">Threat score weights</Typography>
+      <Button size="small" onClick={() => onChange(DEFAULT_THREAT_WEIGHTS)} sx={{ textTransform: 'none' }}>
+        Reset
+      </Button>
+    </Stack>
+    {THREAT_FACTORS.map((factor) => (
+      <Stack key={factor} spacing={0}>
+        <Stack direction="row" justifyContent="space-between">
+          <Typography variant="caption" color="text.secondary">
+            {FACTOR_LABELS[factor]}
+          </Typography>
+          <Typography variant="caption" fontWeight={600}>
+            {weights[factor]}
+          </Typography>
+        </Stack>
+        <Slider
+          size="small"
+          min={0}
+          max={MAX_WEIGHT}
+          step={0.5}
+          value={weights[factor]}
+          onChange={(_, value) => onChange({ ...weights, [factor]: Array.isArray(value) ? value[0] : value })}
+        />
+      </Stack>
+    ))}
+  </Stack>
+);
+
+export default ThreatWeightsEditor;
@@ -0,0 +1,90 @@
+/**
+ * Component แถบ timeline สำหรับลากดูสถานะย้อนหลัง เล่น/หยุด เลือกความเร็ว และกลับไปโหมด live
+ */
+
+import { Button, Chip, IconButton, MenuItem, Paper, Slider, Stack, TextField, Tooltip, Typography } from '@mui/material';
+import { Icon } from '@iconify/react';
+import { TIMELINE_SPEEDS, type TimelineRange, type TimelineState } from '../hooks/useTimeline';
+
+interface TimelineControlProps {
+  range: TimelineRange;
+  timeline: TimelineState;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+const TimelineControl = ({ range, timeline }: TimelineControlProps) => {
+  const { cursor, isLive, isPlaying, speed } = timeline;
+  const hasRange = range !== null && range.end > range.start;
+  const value = cursor ?? range?.end ?? 0;
+
+  return (
+    <Paper variant="outlined" sx={{ px: 2, py: 1, mt: 1 }}>
+      <Stack direction="row" spacing={2} alignItems="center">
+        <Tooltip title={isPlaying ? 'Pause' : 'Play from the selected moment'}>
+          <span>
+            <IconButton
+              size="small"
+              disabled={isLive}
+              onClick={isPlaying ? timeline.pause : timeline.play}
+            >
+              <Icon icon={isPlaying ? 'mdi:pause' : 'mdi:play'} width={20} />
+            </IconButton>
+          </span>
+        </Tooltip>
+
+        <TextField
+          select
+          size="small"
+          value={speed}
+          onChange={(e) => timeline.setSpeed(Number(e.target.value))}
+          sx={{ width: 80 }}
+        >
+          {TIMELINE_SPEEDS.map((option) => (
+            <MenuItem key={option} value={option}>
+              {option}x
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Typography variant="caption" color="text.secondary" sx={{ minWidth: 72 }}>
+          {range ? formatTime(range.start) : '--:--:--'}
+        </Typography>
+        <Slider
+          size="small"
+          disabled={!hasRange}
+          min={range?.start ?? 0}
+          max={range?.end ?? 1}
+          step={1000}
+          value={value}
+          valueLabelDisplay="auto"
+          valueLabelFormat={formatTime}
+          onChange={(_, next) => timeline.seek(Array.isArray(next) ? next[0] : next)}
+          sx={{ flexGrow: 1 }}
+        />
+        <Typography variant="caption" color="text.secondary" sx={{ minWidth: 72 }}>
+          {range ? formatTime(range.end) : '--:--:--'}
+        </Typography>
+
+        {isLive ? (
+          <Chip icon={<Icon icon="mdi:access-point" />} label="Live" color="success" size="small" />
+        ) : (
+          <>
+            <Chip icon={<Icon icon="mdi:history" />} label={formatTime(value)} color="warning" size="small" />
+            <Button
+              size="small"
+              variant="contained"
+              startIcon={<Icon icon="mdi:skip-forward" />}
+              onClick={timeline.goLive}
+              sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+            >
+              Return to live
+            </Button>
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default TimelineControl;
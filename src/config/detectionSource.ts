@@ -0,0 +1,18 @@
+// config/detectionSource.ts
+import { type DetectionSourceKind } from '../sources/types';
+
+const { VITE_DETECTION_SOURCE, VITE_REPLAY_FILE_URL } = import.meta.env;
+
+const SOURCE_KINDS: DetectionSourceKind[] = ['live', 'replay', 'simulator'];
+
+const parseKind = (value: string | undefined): DetectionSourceKind => {
+  const normalized = value?.trim().toLowerCase();
+  return SOURCE_KINDS.find((kind) => kind === normalized) ?? 'live';
+};
+
+// live = TESA API (REST + Socket.IO), replay = เล่นไฟล์ JSON ซ้ำ, simulator = ข้อมูลสังเคราะห์
+// ทั้ง replay และ simulator ทำงานได้โดยไม่ต้องต่อ network
+export const detectionSourceConfig = {
+  kind: parseKind(VITE_DETECTION_SOURCE),
+  replayFileUrl: VITE_REPLAY_FILE_URL?.trim() || '/replay/sample-session.json',
+} as const;
@@ -11,14 +11,18 @@ const sanitize = (value: string | undefined) => value?.trim() ?? '';
 export const droneProfiles = {
   offensive: {
     label: 'Offensive',
+    location: 'offence',
     camId: sanitize(VITE_OFFENSIVE_CAM_ID),
     token: sanitize(VITE_OFFENSIVE_TOKEN),
   },
   defensive: {
     label: 'Defensive',
+    location: 'defence',
     camId: sanitize(VITE_DEFENSIVE_CAM_ID),
     token: sanitize(VITE_DEFENSIVE_TOKEN),
   },
 } as const;
 
 export type DroneProfileKey = keyof typeof droneProfiles;
+
+export type DroneProfile = (typeof droneProfiles)[DroneProfileKey];
@@ -0,0 +1,13 @@
+// config/locations.ts
+import { type LatLng } from '../types/detection';
+
+// ตำแหน่งพื้นฐานของกล้อง 2 จุด
+export const DEFAULT_DEFENCE_LOCATION: LatLng = { lat: 14.297567, lng: 101.166279 };
+export const DEFAULT_OFFENCE_LOCATION: LatLng = { lat: 14.286451, lng: 101.171298 };
+
+export const CAMERA_LOCATIONS = {
+  defence: DEFAULT_DEFENCE_LOCATION,
+  offence: DEFAULT_OFFENCE_LOCATION,
+} as const;
+
+export type CameraLocationKey = keyof typeof CAMERA_LOCATIONS;
@@ -0,0 +1,43 @@
+// config/mapStyle.ts
+const {
+  VITE_MAPBOX_TOKEN,
+  VITE_MAP_MODE,
+  VITE_OFFLINE_TILES_URL,
+  VITE_OFFLINE_TILES_MAX_ZOOM,
+  VITE_OFFLINE_GLYPHS_URL,
+  VITE_OFFLINE_FONT,
+  VITE_OFFLINE_THAI_FONT_URL,
+  BASE_URL,
+} = import.meta.env;
+
+export type MapMode = 'online' | 'offline';
+
+const toPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const mapboxToken = (VITE_MAPBOX_TOKEN as string | undefined)?.trim() ?? '';
+
+// online = style ของ Mapbox (ต้องมี token และ network), offline = style ในเครื่องวาดด้วย MapLibre (ไม่ต้องใช้ token)
+// ไม่กำหนด VITE_MAP_MODE จะใช้ offline อัตโนมัติเมื่อไม่มี token หรือเปิดหน้าขณะไม่มี network
+const parseMode = (value: string | undefined): MapMode => {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'online' || normalized === 'offline') return normalized;
+  const isOnline = typeof navigator === 'undefined' || navigator.onLine;
+  return mapboxToken && isOnline ? 'online' : 'offline';
+};
+
+export const mapStyleConfig = {
+  mode: parseMode(VITE_MAP_MODE),
+  mapboxToken,
+  onlineStyle: 'mapbox://styles/mapbox/satellite-streets-v12',
+  // tile raster ในเครื่องแบบ {z}/{x}/{y} เช่นที่ export จากไฟล์ MBTiles (ไม่กำหนด = มีแต่ grid)
+  offlineTilesUrl: (VITE_OFFLINE_TILES_URL as string | undefined)?.trim() || null,
+  offlineTilesMaxZoom: toPositiveNumber(VITE_OFFLINE_TILES_MAX_ZOOM, 19),
+  // glyph ในเครื่องสำหรับป้ายข้อความ (ค่าเริ่มต้นคือ Noto Sans ที่มากับ public/fonts)
+  offlineGlyphsUrl: (VITE_OFFLINE_GLYPHS_URL as string | undefined)?.trim() || `${BASE_URL}fonts/{fontstack}/{range}.pbf`,
+  offlineFont: (VITE_OFFLINE_FONT as string | undefined)?.trim() || 'Noto Sans Regular',
+  // glyph ของ Noto Sans ไม่มีช่วงภาษาไทย จึงวาดชื่อภาษาไทยจากไฟล์ฟอนต์นี้แทน (font-faces ของ MapLibre)
+  offlineThaiFontUrl: (VITE_OFFLINE_THAI_FONT_URL as string | undefined)?.trim() || `${BASE_URL}fonts/NotoSansThai-Regular.woff2`,
+} as const;
@@ -0,0 +1,33 @@
+// config/socket.ts
+const {
+  VITE_SOCKET_RECONNECT_ATTEMPTS,
+  VITE_SOCKET_RECONNECT_DELAY_MS,
+  VITE_SOCKET_RECONNECT_DELAY_MAX_MS,
+  VITE_SOCKET_PING_INTERVAL_MS,
+  VITE_SOCKET_PING_EVENT,
+} = import.meta.env;
+
+const toPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const socketConfig = {
+  url: import.meta.env.VITE_SOCKET_URL as string,
+  // exponential backoff: delay * 2^attempt (สุ่ม ±50%) แต่ไม่เกิน delayMax
+  backoff: {
+    attempts: toPositiveNumber(VITE_SOCKET_RECONNECT_ATTEMPTS, 10),
+    delayMs: toPositiveNumber(VITE_SOCKET_RECONNECT_DELAY_MS, 1000),
+    delayMaxMs: toPositiveNumber(VITE_SOCKET_RECONNECT_DELAY_MAX_MS, 30000),
+    randomizationFactor: 0.5,
+  },
+  connectTimeoutMs: 10000,
+  // วัด round-trip ด้วย ack ของ event นี้ ต้องให้ server ตอบ ack เอง (heartbeat ของ Engine.IO วัดฝั่ง client ไม่ได้)
+  // ไม่กำหนด VITE_SOCKET_PING_EVENT = ไม่วัด latency
+  ping: {
+    event: (VITE_SOCKET_PING_EVENT as string | undefined)?.trim() || null,
+    intervalMs: toPositiveNumber(VITE_SOCKET_PING_INTERVAL_MS, 5000),
+    timeoutMs: 4000,
+    windowSize: 10,
+  },
+} as const;
@@ -0,0 +1,131 @@
+/**
+ * Custom hook สำหรับส่งสัญญาณเตือนผู้ควบคุมเมื่อ alert เกิดใหม่ ถูกยกระดับ หรือกลับมา active
+ * เล่นเสียงตามระดับความรุนแรง, ส่ง desktop notification เมื่อแท็บถูกซ่อน และอ่านประกาศด้วย speechSynthesis
+ * แต่ละช่องทาง mute ได้แยกกัน การตั้งค่าถูกบันทึกลง localStorage
+ * alerts ที่ส่งเข้ามาต้องประเมินจากข้อมูล live ไม่ใช่ข้อมูล ณ cursor ของ timeline
+ * และดังเฉพาะ alert ที่ isLiveAlert ยืนยันว่าวัตถุยังถูกพบแบบ live (history ที่โหลดตอนเปิดหน้าไม่ทำให้ดัง)
+ * alert ที่ยังไม่ live จะรอไว้ และดังครั้งเดียวเมื่อวัตถุนั้นถูกพบแบบ live
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type AlarmChannel, type AlarmSettings, type AlarmTone } from '../types/alarm';
+import { type Alert, type AlertAuditAction, type AlertSeverity } from '../types/alert';
+import { ALERT_SEVERITIES } from '../utils/alertRules';
+import { playAlarmTone } from '../utils/alarmTones';
+import { loadAlarmSettings, saveAlarmSettings } from '../utils/alarmSettingsStorage';
+
+const TRIGGER_ACTIONS: AlertAuditAction[] = ['raised', 'escalated', 'retriggered', 'unsnoozed'];
+const MAX_SPOKEN = 2;                    // ประกาศด้วยเสียงพูดไม่เกินกี่รายการต่อรอบ ไม่ให้พูดค้างยาวเมื่อเกิดพร้อมกันหลายรายการ
+
+const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+const speak = (text: string) => {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'en-US';
+  window.speechSynthesis.speak(utterance);
+};
+
+const notify = (title: string, body: string, tag: string) => {
+  if (getNotificationPermission() !== 'granted' || document.visibilityState !== 'hidden') return;
+  new Notification(title, { body, tag });
+};
+
+const getHighestSeverity = (alerts: Alert[]) =>
+  alerts.reduce<AlertSeverity>(
+    (highest, alert) =>
+      ALERT_SEVERITIES.indexOf(alert.severity) > ALERT_SEVERITIES.indexOf(highest) ? alert.severity : highest,
+    'info',
+  );
+
+// เวลาของ audit entry ล่าสุดที่ควรทำให้ดัง (null = ไม่มี)
+const getLastTriggerTime = (alert: Alert) =>
+  alert.audit.reduce<number | null>(
+    (latest, entry) => (TRIGGER_ACTIONS.includes(entry.action) && (latest === null || entry.time > latest) ? entry.time : latest),
+    null,
+  );
+
+export const useAlarms = (
+  alerts: Alert[],
+  describeAlert: (alert: Alert) => string,
+  isLiveAlert: (alert: Alert) => boolean,
+) => {
+  const [settings, setSettings] = useState<AlarmSettings>(loadAlarmSettings);
+  const [notificationPermission, setNotificationPermission] = useState(getNotificationPermission);
+  // id ของ alert -> เวลาของ trigger ล่าสุดที่ส่งสัญญาณไปแล้ว
+  const handledRef = useRef(new Map<string, number>());
+  const settingsRef = useRef(settings);
+  const describeRef = useRef(describeAlert);
+
+  useEffect(() => {
+    saveAlarmSettings(settings);
+    settingsRef.current = settings;
+  }, [settings]);
+
+  useEffect(() => {
+    describeRef.current = describeAlert;
+  }, [describeAlert]);
+
+  useEffect(() => {
+    const handled = handledRef.current;
+    const triggered = alerts.filter((alert) => {
+      const lastTrigger = getLastTriggerTime(alert);
+      return (
+        alert.status === 'active' &&
+        lastTrigger !== null &&
+        lastTrigger > (handled.get(alert.id) ?? Number.NEGATIVE_INFINITY) &&
+        isLiveAlert(alert)
+      );
+    });
+
+    // ลบ alert ที่หลุดออกจาก store แล้ว ไม่ให้ map โตเรื่อย ๆ
+    const ids = new Set(alerts.map((alert) => alert.id));
+    handled.forEach((_, id) => {
+      if (!ids.has(id)) handled.delete(id);
+    });
+    triggered.forEach((alert) => handled.set(alert.id, getLastTriggerTime(alert) ?? 0));
+    if (triggered.length === 0) return;
+
+    const { muted, volume, tones } = settingsRef.current;
+    const messages = triggered.map((alert) => describeRef.current(alert));
+
+    // เล่นเสียงครั้งเดียวตามระดับสูงสุดของรอบนี้
+    if (!muted.audio) playAlarmTone(tones[getHighestSeverity(triggered)], volume);
+    if (!muted.notification) {
+      notify(
+        triggered.length === 1 ? `${triggered[0].severity.toUpperCase()}: ${triggered[0].ruleName}` : `${triggered.length} new alerts`,
+        messages.join('\n'),
+        triggered.length === 1 ? triggered[0].id : 'tesa-alerts',
+      );
+    }
+    if (!muted.speech) messages.slice(0, MAX_SPOKEN).forEach(speak);
+  }, [alerts, isLiveAlert]);
+
+  const setMuted = useCallback((channel: AlarmChannel, value: boolean) => {
+    setSettings((current) => ({ ...current, muted: { ...current.muted, [channel]: value } }));
+    if (channel === 'speech' && value && 'speechSynthesis' in window) window.speechSynthesis.cancel();
+  }, []);
+
+  const setVolume = useCallback((volume: number) => setSettings((current) => ({ ...current, volume })), []);
+
+  const setTone = useCallback((severity: AlertSeverity, tone: AlarmTone) => {
+    setSettings((current) => ({ ...current, tones: { ...current.tones, [severity]: tone } }));
+  }, []);
+
+  const requestNotificationPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    setNotificationPermission(await Notification.requestPermission());
+  }, []);
+
+  // ทดสอบทุกช่องทางที่ไม่ได้ mute (notification ทดสอบได้เฉพาะตอนแท็บถูกซ่อน จึงไม่รวมไว้)
+  const test = useCallback((severity: AlertSeverity) => {
+    const { muted, volume, tones } = settingsRef.current;
+    if (!muted.audio) playAlarmTone(tones[severity], volume);
+    if (!muted.speech) speak(`Test ${severity} alert`);
+  }, []);
+
+  return { settings, setMuted, setVolume, setTone, notificationPermission, requestNotificationPermission, test };
+};
+
+export type AlarmControls = ReturnType<typeof useAlarms>;
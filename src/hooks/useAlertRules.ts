@@ -0,0 +1,43 @@
+/**
+ * Custom hook สำหรับจัดการกฎการแจ้งเตือน (เพิ่ม/แก้/ลบ/คืนค่าเริ่มต้น) และบันทึกลง localStorage อัตโนมัติ
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { type AlertConditionType, type AlertRule } from '../types/alert';
+import { ALERT_CONDITION_LABELS, DEFAULT_ALERT_RULES, createAlertCondition } from '../utils/alertRules';
+import { loadAlertRules, saveAlertRules } from '../utils/alertRuleStorage';
+
+const createRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const useAlertRules = () => {
+  const [rules, setRules] = useState<AlertRule[]>(loadAlertRules);
+
+  useEffect(() => {
+    saveAlertRules(rules);
+  }, [rules]);
+
+  const addRule = useCallback((type: AlertConditionType) => {
+    setRules((current) => [
+      ...current,
+      {
+        id: createRuleId(),
+        name: ALERT_CONDITION_LABELS[type],
+        enabled: true,
+        severity: 'warning',
+        condition: createAlertCondition(type),
+      },
+    ]);
+  }, []);
+
+  const updateRule = useCallback((id: string, patch: Partial<Omit<AlertRule, 'id'>>) => {
+    setRules((current) => current.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    setRules((current) => current.filter((rule) => rule.id !== id));
+  }, []);
+
+  const resetRules = useCallback(() => setRules(DEFAULT_ALERT_RULES), []);
+
+  return { rules, addRule, updateRule, removeRule, resetRules };
+};
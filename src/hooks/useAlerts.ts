@@ -0,0 +1,36 @@
+/**
+ * Custom hook สำหรับประเมินกฎการแจ้งเตือนกับวัตถุทุกตัวและเก็บ alert ตลอดวงจรชีวิต
+ * ตรวจเวลาพัก/ยกระดับทุกวินาทีแม้ไม่มีข้อมูลใหม่เข้ามา
+ */
+
+import { useCallback, useEffect, useReducer } from 'react';
+import { type AlertRule, type AlertSubject } from '../types/alert';
+import { type GeofenceZone } from '../types/geofence';
+import { evaluateAlertRules } from '../utils/alertRules';
+import { alertStoreReducer, isAlertOpen } from '../utils/alertStore';
+
+const TICK_MS = 1000;
+
+export const useAlerts = (rules: AlertRule[], subjects: AlertSubject[], zones: GeofenceZone[]) => {
+  const [alerts, dispatch] = useReducer(alertStoreReducer, []);
+
+  useEffect(() => {
+    dispatch({ type: 'evaluate', matches: evaluateAlertRules(rules, subjects, zones), rules, now: Date.now() });
+  }, [rules, subjects, zones]);
+
+  useEffect(() => {
+    const timer = setInterval(() => dispatch({ type: 'tick', now: Date.now() }), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const acknowledge = useCallback((id: string) => dispatch({ type: 'acknowledge', id, now: Date.now() }), []);
+  const snooze = useCallback(
+    (id: string, minutes: number) => dispatch({ type: 'snooze', id, until: Date.now() + minutes * 60_000, now: Date.now() }),
+    [],
+  );
+  const resolve = useCallback((id: string) => dispatch({ type: 'resolve', id, now: Date.now() }), []);
+
+  const openCount = alerts.filter((alert) => isAlertOpen(alert) && alert.status !== 'snoozed').length;
+
+  return { alerts, openCount, acknowledge, snooze, resolve };
+};
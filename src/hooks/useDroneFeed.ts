@@ -0,0 +1,108 @@
+/**
+ * Custom hook สำหรับ feed การตรวจจับของกล้องหนึ่งตัวจาก DetectionSource ใดก็ได้
+ * รวม history และ event live เข้า detection store เดียว พร้อมสถานะการเชื่อมต่อและการ backfill
+ */
+
+import { useCallback, useEffect, useMemo, useReducer, useRef, useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { type DetectionSource } from '../sources/types';
+import { type DetectionEvent, type PayloadIssue } from '../types/detection';
+import { type SocketConnectionState } from '../types/socket';
+import {
+  detectionStoreReducer,
+  getDetectionEventKey,
+  initialDetectionStoreState,
+  selectDetectionEvents,
+  selectLatestEvent,
+} from '../utils/detectionStore';
+import { useGapBackfill, type BackfillMarker } from './useGapBackfill';
+import { usePayloadIssues } from './usePayloadIssues';
+
+export type UseDroneFeedResult = {
+  source: DetectionSource;
+  events: DetectionEvent[];
+  latestEvent?: DetectionEvent;
+  liveSince: number | null;
+  isLoading: boolean;
+  error: unknown;
+  isConnected: boolean;
+  connection: SocketConnectionState;
+  payloadIssues: PayloadIssue[];
+  backfill: BackfillMarker | null;
+  isBackfilling: boolean;
+  dismissBackfill: () => void;
+  reset: () => void;
+};
+
+export const useDroneFeed = (source: DetectionSource): UseDroneFeedResult => {
+  const [store, dispatch] = useReducer(detectionStoreReducer, initialDetectionStoreState);
+  const { camId, isReady } = source;
+
+  // เปลี่ยน source แล้วเริ่ม store ใหม่ ไม่ปนข้อมูลจากแหล่งเดิม
+  useEffect(() => {
+    dispatch({ type: 'reset' });
+  }, [source]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['detections', source.kind, camId],
+    queryFn: () => source.loadHistory(),
+    enabled: isReady,
+    refetchInterval: source.historyRefreshMs,
+  });
+
+  useEffect(() => {
+    if (data?.data) dispatch({ type: 'merge', events: data.data, origin: 'rest' });
+  }, [data]);
+
+  // merge ทุก event ทันทีที่มาถึง (ไม่เก็บเป็น state ซึ่งจะเหลือแค่ตัวล่าสุดเมื่อมาพร้อมกันหลายตัว)
+  useEffect(() => {
+    if (!isReady) return;
+    return source.subscribe((event) => dispatch({ type: 'merge', events: [event], origin: 'socket' }));
+  }, [source, isReady]);
+
+  const connection = useSyncExternalStore(source.subscribeStatus, source.getStatus);
+  const payloadIssues = usePayloadIssues(camId);
+
+  const events = useMemo(() => selectDetectionEvents(store), [store]);
+  const latestEvent = selectLatestEvent(store);
+  const reset = useCallback(() => dispatch({ type: 'reset' }), []);
+
+  const storeRef = useRef(store);
+  useEffect(() => {
+    storeRef.current = store;
+  }, [store]);
+
+  const handleBackfill = useCallback((backfilled: DetectionEvent[]) => {
+    const added = backfilled.filter((event) => !storeRef.current.byKey[getDetectionEventKey(event)]).length;
+    dispatch({ type: 'merge', events: backfilled, origin: 'rest' });
+    return added;
+  }, []);
+
+  const {
+    marker: backfill,
+    isBackfilling,
+    dismiss: dismissBackfill,
+  } = useGapBackfill({
+    loadRange: source.loadHistory,
+    enabled: isReady,
+    connection,
+    lastEventTimestamp: latestEvent?.timestamp,
+    onBackfill: handleBackfill,
+  });
+
+  return {
+    source,
+    events,
+    latestEvent,
+    liveSince: store.liveSince,
+    isLoading: isReady && isLoading,
+    error,
+    isConnected: isReady && connection.status === 'connected',
+    connection,
+    payloadIssues,
+    backfill,
+    isBackfilling,
+    dismissBackfill,
+    reset,
+  };
+};
@@ -0,0 +1,109 @@
+/**
+ * Custom hook สำหรับเติมข้อมูลที่หายไปช่วง socket หลุด
+ * จำเวลา event ล่าสุดของกล้องไว้ เมื่อ reconnect สำเร็จจะดึงช่วงที่ขาดผ่าน REST แล้ว merge เข้า feed
+ * จุดเริ่มของช่วงที่ขาดถูกจับไว้ตอนหลุด และคงไว้จนกว่า backfill จะเสร็จ (event live หลัง reconnect จึงไม่เลื่อนมันไป)
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type HistoryRange } from '../sources/types';
+import { type DetectionEvent, type DetectionResponse } from '../types/detection';
+import { type SocketConnectionState } from '../types/socket';
+
+export interface BackfillMarker {
+  count: number;                 // จำนวน event ใหม่ที่เติมเข้ามา
+  since: string;                 // เวลา event ล่าสุดก่อนหลุด
+  until: string;                 // เวลาที่ reconnect สำเร็จ
+  completedAt: string;
+  error: string | null;
+}
+
+type UseGapBackfillOptions = {
+  loadRange: (range: HistoryRange) => Promise<DetectionResponse>;
+  enabled: boolean;
+  connection: SocketConnectionState;
+  lastEventTimestamp: string | undefined;
+  // merge event ที่ดึงมาเข้า feed แล้วคืนจำนวน event ที่ยังไม่เคยมี
+  onBackfill: (events: DetectionEvent[]) => number;
+};
+
+export const useGapBackfill = ({
+  loadRange,
+  enabled,
+  connection,
+  lastEventTimestamp,
+  onBackfill,
+}: UseGapBackfillOptions) => {
+  const [marker, setMarker] = useState<BackfillMarker | null>(null);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const lastSeenRef = useRef<string | undefined>(lastEventTimestamp);
+  const gapSinceRef = useRef<string | undefined>(undefined);
+  const statusRef = useRef(connection.status);
+  const connectCountRef = useRef(connection.connectCount);
+  const onBackfillRef = useRef(onBackfill);
+
+  useEffect(() => {
+    onBackfillRef.current = onBackfill;
+  }, [onBackfill]);
+
+  // จำเวลาล่าสุดไว้เฉพาะตอนเชื่อมต่ออยู่ แล้วจับเป็นจุดเริ่มของช่วงที่ขาดตอน connected -> หลุด
+  useEffect(() => {
+    const previousStatus = statusRef.current;
+    statusRef.current = connection.status;
+
+    if (previousStatus === 'connected' && connection.status !== 'connected') {
+      // หลุดซ้ำก่อน backfill เสร็จ ยังใช้จุดเริ่มเดิม
+      gapSinceRef.current ??= lastSeenRef.current;
+    }
+    if (connection.status === 'connected' && lastEventTimestamp) {
+      lastSeenRef.current = lastEventTimestamp;
+    }
+  }, [connection.status, lastEventTimestamp]);
+
+  useEffect(() => {
+    const previousCount = connectCountRef.current;
+    connectCountRef.current = connection.connectCount;
+
+    // connectCount เพิ่มจาก >= 1 แปลว่าเป็นการ reconnect ไม่ใช่การเชื่อมต่อครั้งแรก
+    const isReconnect = previousCount >= 1 && connection.connectCount > previousCount;
+    const since = gapSinceRef.current;
+    if (!isReconnect || !since) return;
+    if (!enabled) {
+      gapSinceRef.current = undefined;
+      return;
+    }
+
+    const until = new Date().toISOString();
+    let cancelled = false;
+    setIsBackfilling(true);
+
+    loadRange({ since, until })
+      .then((response) => {
+        if (cancelled) return;
+        gapSinceRef.current = undefined;
+        const count = onBackfillRef.current(response.data);
+        setMarker({ count, since, until, completedAt: new Date().toISOString(), error: null });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        gapSinceRef.current = undefined;
+        setMarker({
+          count: 0,
+          since,
+          until,
+          completedAt: new Date().toISOString(),
+          error: error instanceof Error ? error.message : 'Backfill failed',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsBackfilling(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadRange, enabled, connection.connectCount]);
+
+  const dismiss = useCallback(() => setMarker(null), []);
+
+  return { marker, isBackfilling, dismiss };
+};
@@ -0,0 +1,44 @@
+/**
+ * Custom hook สำหรับประเมินทุกตำแหน่งใน track กับโซน geofence แล้วเก็บ event เข้า/ออก/ค้างในโซน
+ * ประมวลผลเฉพาะจุดที่ใหม่กว่าที่เคยเห็นของแต่ละวัตถุ จึงไม่พลาดการเข้า-ออกระหว่างสอง render
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { type GeofenceEvent, type GeofenceZone } from '../types/geofence';
+import { evaluateGeofences, getZoneOccupants, type GeofenceSample, type GeofenceState } from '../utils/geofence';
+import { type ObjectTrack } from '../utils/tracks';
+
+const MAX_EVENTS = 200;
+
+export const useGeofenceEvents = (zones: GeofenceZone[], tracks: ObjectTrack[]) => {
+  const [events, setEvents] = useState<GeofenceEvent[]>([]);
+  const [occupants, setOccupants] = useState<Record<string, string[]>>({});
+  const stateRef = useRef<GeofenceState>({});
+  const processedRef = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    const samples: GeofenceSample[] = tracks
+      .flatMap((track) =>
+        track.points
+          .filter((point) => point.time > (processedRef.current[track.obj_id] ?? Number.NEGATIVE_INFINITY))
+          .map((point) => ({ obj_id: track.obj_id, position: { lat: point.lat, lng: point.lng }, time: point.time })),
+      )
+      .sort((a, b) => a.time - b.time);
+    if (samples.length === 0) return;
+
+    samples.forEach((sample) => {
+      processedRef.current[sample.obj_id] = sample.time;
+    });
+
+    const result = evaluateGeofences(stateRef.current, zones, samples);
+    stateRef.current = result.state;
+    setOccupants(getZoneOccupants(result.state));
+    if (result.events.length > 0) {
+      setEvents((current) => [...result.events.reverse(), ...current].slice(0, MAX_EVENTS));
+    }
+  }, [zones, tracks]);
+
+  const clearEvents = () => setEvents([]);
+
+  return { events, occupants, clearEvents };
+};
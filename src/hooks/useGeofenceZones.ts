@@ -0,0 +1,44 @@
+/**
+ * Custom hook สำหรับจัดการรายการโซน geofence (เพิ่ม/แก้/ลบ) และบันทึกลง localStorage อัตโนมัติ
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { type GeofenceZone, type ZoneKind, type ZoneShape } from '../types/geofence';
+import { ZONE_KIND_COLORS } from '../utils/geofence';
+import { loadZones, saveZones } from '../utils/zoneStorage';
+
+const createZoneId = () => `zone-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const useGeofenceZones = () => {
+  const [zones, setZones] = useState<GeofenceZone[]>(loadZones);
+
+  useEffect(() => {
+    saveZones(zones);
+  }, [zones]);
+
+  const addZone = useCallback((shape: ZoneShape, kind: ZoneKind = 'protected') => {
+    const zone: GeofenceZone = {
+      id: createZoneId(),
+      name: '',
+      kind,
+      shape,
+      color: ZONE_KIND_COLORS[kind],
+      enabled: true,
+      alertOnEnter: true,
+      alertOnExit: true,
+      dwellSeconds: kind === 'launch' ? null : 30,
+    };
+    setZones((current) => [...current, { ...zone, name: `Zone ${current.length + 1}` }]);
+    return zone.id;
+  }, []);
+
+  const updateZone = useCallback((id: string, patch: Partial<Omit<GeofenceZone, 'id'>>) => {
+    setZones((current) => current.map((zone) => (zone.id === id ? { ...zone, ...patch } : zone)));
+  }, []);
+
+  const removeZone = useCallback((id: string) => {
+    setZones((current) => current.filter((zone) => zone.id !== id));
+  }, []);
+
+  return { zones, addZone, updateZone, removeZone };
+};
@@ -0,0 +1,40 @@
+/**
+ * Custom hook สำหรับทะเบียน interceptor (เพิ่ม/แก้/ลบ) และบันทึกลง localStorage อัตโนมัติ
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { type Interceptor } from '../types/interceptor';
+import { loadInterceptors, saveInterceptors } from '../utils/interceptorStorage';
+
+const createInterceptorId = () => `interceptor-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const useInterceptors = () => {
+  const [interceptors, setInterceptors] = useState<Interceptor[]>(loadInterceptors);
+
+  useEffect(() => {
+    saveInterceptors(interceptors);
+  }, [interceptors]);
+
+  const addInterceptor = useCallback(() => {
+    setInterceptors((current) => [
+      ...current,
+      {
+        id: createInterceptorId(),
+        name: `Interceptor ${current.length + 1}`,
+        maxSpeed: 40,
+        launchDelaySec: 10,
+        available: true,
+      },
+    ]);
+  }, []);
+
+  const updateInterceptor = useCallback((id: string, patch: Partial<Omit<Interceptor, 'id'>>) => {
+    setInterceptors((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const removeInterceptor = useCallback((id: string) => {
+    setInterceptors((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  return { interceptors, addInterceptor, updateInterceptor, removeInterceptor };
+};
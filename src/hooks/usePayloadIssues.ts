@@ -0,0 +1,15 @@
+/**
+ * Custom hook สำหรับอ่านปัญหาของ payload ที่ normalizer รายงานไว้ (กรองตามกล้องได้)
+ */
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { getPayloadIssues, subscribePayloadIssues } from '../utils/payloadIssueLog';
+
+export const usePayloadIssues = (camId?: string) => {
+  const issues = useSyncExternalStore(subscribePayloadIssues, getPayloadIssues);
+
+  return useMemo(
+    () => (camId ? issues.filter((issue) => issue.cam_id === camId) : issues),
+    [issues, camId],
+  );
+};
@@ -0,0 +1,9 @@
+/**
+ * Custom hook สำหรับอ่านสถานะของ replay player (ตำแหน่ง, ความเร็ว, กำลังเล่นหรือหยุด)
+ */
+
+import { useSyncExternalStore } from 'react';
+import { type ReplayPlayer } from '../sources/replaySource';
+
+export const useReplayPlayer = (player: ReplayPlayer) =>
+  useSyncExternalStore(player.subscribeState, player.getState);
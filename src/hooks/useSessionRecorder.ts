@@ -0,0 +1,9 @@
+/**
+ * Custom hook สำหรับอ่านสถานะการบันทึก session (กำลังอัด, จำนวน entry/event)
+ */
+
+import { useSyncExternalStore } from 'react';
+import { type SessionRecorder } from '../sources/sessionRecorder';
+
+export const useSessionRecorder = (recorder: SessionRecorder) =>
+  useSyncExternalStore(recorder.subscribe, recorder.getState);
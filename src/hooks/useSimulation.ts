@@ -0,0 +1,9 @@
+/**
+ * Custom hook สำหรับอ่านสถานะของ simulator engine (เวลา, scenario, กำลังเล่นหรือหยุด)
+ */
+
+import { useSyncExternalStore } from 'react';
+import { type SimulationEngine } from '../simulator/engine';
+
+export const useSimulation = (engine: SimulationEngine) =>
+  useSyncExternalStore(engine.subscribeState, engine.getState);
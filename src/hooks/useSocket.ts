@@ -1,70 +1,39 @@
 /**
- * Custom hook สำหรับเชื่อมต่อ Socket.IO และรับข้อมูล real-time
+ * Custom hook สำหรับรับข้อมูล real-time ของกล้องผ่าน Socket.IO
+ * ทุกกล้องใช้ connection เดียวกันผ่าน socketManager (subscribe นับจำนวนตาม cam_id)
+ * และคืนสถานะการเชื่อมต่อ (connecting / connected / reconnecting / failed) พร้อม latency
  */
 
-import { useEffect, useState } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
 import { type DetectionEvent } from '../types/detection';
+import { socketManager } from '../api/socketManager';
 
-export const useSocket = (camId: string, enabled: boolean) => {
-  const [socket, setSocket] = useState<Socket | null>(null);
+export const useSocket = (
+  camId: string,
+  enabled: boolean,
+  onEvent?: (event: DetectionEvent) => void,
+) => {
   const [realtimeData, setRealtimeData] = useState<DetectionEvent | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
+  const connection = useSyncExternalStore(socketManager.subscribeConnection, socketManager.getConnection);
 
+  // เก็บ callback ล่าสุดไว้ใน ref เพื่อไม่ต้อง subscribe ใหม่ทุกครั้งที่ render
+  const onEventRef = useRef(onEvent);
   useEffect(() => {
-    // ตัดการเชื่อมต่อถ้าไม่ enable หรือไม่มี camId
-    if (!enabled || !camId) {
-      if (socket) {
-        socket.disconnect();
-        setSocket(null);
-        setIsConnected(false);
-      }
-      return;
-    }
+    onEventRef.current = onEvent;
+  }, [onEvent]);
 
-    // สร้าง socket instance เชื่อมต่อกับ server
-    const socketInstance = io(import.meta.env.VITE_SOCKET_URL);
-
-    // เมื่อเชื่อมต่อสำเร็จ
-    socketInstance.on('connect', () => {
-      console.log('Connected to socket server');
-      setIsConnected(true);
-
-      // บอก server ว่าต้องการข้อมูลจากกล้องไหน
-      socketInstance.emit('subscribe_camera', { cam_id: camId });
-    });
-
-    // เมื่อตัดการเชื่อมต่อ
-    socketInstance.on('disconnect', () => {
-      console.log('Disconnected from socket server');
-      setIsConnected(false);
-    });
-
-    // เมื่อได้รับข้อมูล object detection
-    socketInstance.on('object_detection', (data: any) => {
-      console.log('Received object detection:', data);
+  useEffect(() => {
+    // ไม่ subscribe ถ้าไม่ enable หรือไม่มี camId
+    if (!enabled || !camId) return;
 
-      // แปลง data structure ให้ตรงกับ DetectionEvent interface
-      setRealtimeData({
-        id: Date.now(),
-        cam_id: data.cam_id,
-        camera: data.camera,
-        timestamp: data.timestamp,
-        image_path: data.image.path,
-        objects: data.objects,
-      });
+    // Cleanup (unsubscribe) เมื่อ component unmount หรือ dependencies เปลี่ยน
+    return socketManager.subscribeCamera(camId, (event) => {
+      setRealtimeData(event);
+      onEventRef.current?.(event);
     });
-
-    setSocket(socketInstance);
-
-    // Cleanup เมื่อ component unmount หรือ dependencies เปลี่ยน
-    return () => {
-      if (socketInstance) {
-        socketInstance.emit('unsubscribe_camera', { cam_id: camId });
-        socketInstance.disconnect();
-      }
-    };
   }, [camId, enabled]);
 
-  return { socket, realtimeData, isConnected };
+  const isActive = enabled && Boolean(camId);
+
+  return { realtimeData, isConnected: isActive && connection.status === 'connected', connection };
 };
@@ -0,0 +1,54 @@
+/**
+ * Custom hook สำหรับเลื่อนดูสถานะย้อนหลังบน timeline
+ * cursor = null หมายถึงแสดงข้อมูล live ล่าสุด
+ * ขณะเล่น cursor เดินหน้าตาม speed และกลับไปโหมด live เมื่อถึงข้อมูลล่าสุด
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+// ระยะห่างระหว่างการขยับ cursor ขณะเล่น (เวลาจริง)
+const PLAYBACK_TICK_MS = 250;
+
+export const TIMELINE_SPEEDS = [1, 2, 5, 10];
+
+export type TimelineRange = { start: number; end: number } | null;
+
+export const useTimeline = (range: TimelineRange) => {
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const end = range?.end ?? null;
+
+  useEffect(() => {
+    if (!isPlaying || cursor === null || end === null) return;
+
+    const timer = setTimeout(() => {
+      const next = cursor + PLAYBACK_TICK_MS * speed;
+      if (next >= end) {
+        setCursor(null);
+        setIsPlaying(false);
+        return;
+      }
+      setCursor(next);
+    }, PLAYBACK_TICK_MS);
+
+    return () => clearTimeout(timer);
+  }, [isPlaying, cursor, end, speed]);
+
+  const seek = useCallback((time: number) => setCursor(time), []);
+
+  const play = useCallback(() => {
+    if (cursor !== null) setIsPlaying(true);
+  }, [cursor]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const goLive = useCallback(() => {
+    setCursor(null);
+    setIsPlaying(false);
+  }, []);
+
+  return { cursor, isLive: cursor === null, isPlaying, speed, seek, play, pause, setSpeed, goLive };
+};
+
+export type TimelineState = ReturnType<typeof useTimeline>;
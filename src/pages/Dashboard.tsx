@@ -1,4 +1,4 @@
-﻿import { useEffect, useMemo, useState, type ReactNode } from 'react';
+﻿import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
 import {
   Alert,
   Box,
@@ -12,10 +12,14 @@ import {
   DialogContent,
   DialogTitle,
   Divider,
+  Drawer,
+  IconButton,
   List,
   ListItem,
+  MenuItem,
   ListItemButton,
   ListItemText,
+  LinearProgress,
   Paper,
   Stack,
   Grid,
@@ -24,6 +28,7 @@ import {
   Tabs,
   Tab,
   Snackbar,
+  Tooltip,
 } from '@mui/material';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
@@ -34,55 +39,67 @@ import { alpha } from '@mui/material/styles';
 import MapComponent from '../components/MapComponent';
 import DetectionCard from '../components/DetectionCard';
 import ImageViewer from '../components/ImageViewer';
-import { useDetections } from '../hooks/useDetections';
-import { useSocket } from '../hooks/useSocket';
-import { droneProfiles } from '../config/droneProfiles';
-import { type DetectionEvent, type DetectedObject } from '../types/detection';
-import { getObjectLatitude, getObjectLongitude } from '../utils/objectGeo';
-
-type UseDroneFeedResult = {
-  events: DetectionEvent[];
-  isLoading: boolean;
-  error: unknown;
-  isConnected: boolean;
-};
-
-type LatestObjectEntry = {
-  object: DetectedObject;
-  lastSeen: string;
-};
-
-const useDroneFeed = (camId: string, token: string): UseDroneFeedResult => {
-  const [events, setEvents] = useState<DetectionEvent[]>([]);
-  const isReady = Boolean(camId && token);
-
-  const { data, isLoading, error } = useDetections(camId, token, isReady);
-  const { realtimeData, isConnected } = useSocket(camId, isReady);
-
-  useEffect(() => {
-    if (data?.data) setEvents(data.data);
-  }, [data]);
-
-  useEffect(() => {
-    if (realtimeData) setEvents((prev) => [realtimeData, ...prev]);
-  }, [realtimeData]);
-
-  return { events, isLoading, error, isConnected };
-};
-
-const buildLatestObjects = (events: DetectionEvent[]): LatestObjectEntry[] => {
-  const map = new Map<string, LatestObjectEntry>();
-
-  events.forEach((event) => {
-    event.objects?.forEach((obj) => {
-      map.set(obj.obj_id, { object: obj, lastSeen: event.timestamp });
-    });
-  });
-
-  return Array.from(map.values()).sort(
-    (a, b) => new Date(b.lastSeen).getTime() - new Date(a.lastSeen).getTime(),
-  );
-};
+import SocketStatusChip from '../components/SocketStatusChip';
+import SimulatorControlPanel from '../components/SimulatorControlPanel';
+import SessionPanel from '../components/SessionPanel';
+import TimelineControl from '../components/TimelineControl';
+import GeofencePanel from '../components/GeofencePanel';
+import AlertQueuePanel from '../components/AlertQueuePanel';
+import AlarmSettingsPanel from '../components/AlarmSettingsPanel';
+import DefenceRingsEditor from '../components/DefenceRingsEditor';
+import InterceptorRegistryEditor from '../components/InterceptorRegistryEditor';
+import AssignmentPanel from '../components/AssignmentPanel';
+import { useDroneFeed, type UseDroneFeedResult } from '../hooks/useDroneFeed';
+import { useSessionRecorder } from '../hooks/useSessionRecorder';
+import { useTimeline } from '../hooks/useTimeline';
+import { useGeofenceZones } from '../hooks/useGeofenceZones';
+import { useGeofenceEvents } from '../hooks/useGeofenceEvents';
+import { useAlertRules } from '../hooks/useAlertRules';
+import { useAlerts } from '../hooks/useAlerts';
+import { useAlarms } from '../hooks/useAlarms';
+import { useInterceptors } from '../hooks/useInterceptors';
+import { DEFAULT_DEFENCE_LOCATION, DEFAULT_OFFENCE_LOCATION } from '../config/locations';
+import { type DetectionEvent, type DetectedObject, type LatLng, type PayloadIssue } from '../types/detection';
+import { type RecordedEntry } from '../types/session';
+import { type GeofenceZone, type ZoneShape } from '../types/geofence';
+import { type Alert as AlertItem, type AlertSubject } from '../types/alert';
+import { type DefenceRing } from '../types/defenceRing';
+import { type Interceptor } from '../types/interceptor';
+import { createDetectionSources, createSessionReplaySources, type DetectionSourceKind } from '../sources';
+import { createSessionRecorder, withRecording } from '../sources/sessionRecorder';
+import { calculateDistanceMeters } from '../utils/geo';
+import { solveAssignments, type AssignmentIntruder, type AssignmentPin, type AssignmentStrategy } from '../utils/assignment';
+import { computeBestIntercept, getInterceptDistance, type InterceptSolution } from '../utils/intercept';
+import { DEFAULT_DEFENCE_RINGS, getOuterRadius, getRingForDistance, sortRingsOutward } from '../utils/defenceRings';
+import { clearPayloadIssues } from '../utils/payloadIssueLog';
+import { getObjectLatitude, getObjectLongitude, getObjectPosition, getObjectTarget } from '../utils/objectGeo';
+import { buildTracks, type ObjectTrack, type TrailLength } from '../utils/tracks';
+import { estimateTracks, type MotionEstimate } from '../utils/motionEstimate';
+import {
+  MISSION_STATE_COLORS,
+  MISSION_STATE_LABELS,
+  computeMissionProgresses,
+  type MissionProgress,
+} from '../utils/missionProgress';
+import { compareByPenetration, computeCpa, type CpaResult } from '../utils/cpa';
+import {
+  DEFAULT_THREAT_WEIGHTS,
+  compareThreat,
+  scoreThreats,
+  type ThreatAssessment,
+  type ThreatWeights,
+} from '../utils/threatScore';
+import ThreatLevelChip from '../components/ThreatLevelChip';
+import ThreatWeightsEditor from '../components/ThreatWeightsEditor';
+import { findRadiusCrossing, predictPaths, type PredictedPath, type RadiusCrossing } from '../utils/prediction';
+import MotionEstimateSummary from '../components/MotionEstimateSummary';
+import {
+  getDetectionEventKey,
+  selectEventsAt,
+  selectLatestObjects,
+  selectTimeRange,
+  type LatestObjectEntry,
+} from '../utils/detectionStore';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL?.replace('/api', '') ?? '';
 const API_ROOT_URL = import.meta.env.VITE_API_BASE_URL?.replace(/\/$/, '') ?? '';
@@ -184,6 +201,86 @@ const DetectionDetailDialog = ({
   );
 };
 
+const PayloadIssueChip = ({ issues }: { issues: PayloadIssue[] }) => {
+  if (issues.length === 0) return null;
+  const rejected = issues.filter((issue) => issue.kind === 'rejected').length;
+  const latest = issues[0];
+
+  return (
+    <Tooltip title={`${latest.path}: ${latest.message}`}>
+      <Chip
+        icon={<Icon icon="mdi:alert-outline" />}
+        label={rejected > 0 ? `Payload: ${rejected} rejected` : `Payload: ${issues.length} coerced`}
+        color={rejected > 0 ? 'warning' : 'default'}
+        size="small"
+        onDelete={clearPayloadIssues}
+      />
+    </Tooltip>
+  );
+};
+
+const SOURCE_LABELS: Record<DetectionSourceKind, string> = {
+  live: 'Socket',
+  replay: 'Replay',
+  simulator: 'Simulator',
+};
+
+const SOURCE_ICONS: Record<DetectionSourceKind, string> = {
+  live: 'mdi:access-point-network',
+  replay: 'mdi:file-replay-outline',
+  simulator: 'mdi:robot-outline',
+};
+
+type ToolPanelKey = 'simulator' | 'session' | 'zones' | 'alerts' | 'assignment';
+
+const ToolPanelDrawer = ({
+  title,
+  open,
+  onClose,
+  children,
+}: {
+  title: string;
+  open: boolean;
+  onClose: () => void;
+  children: ReactNode;
+}) => (
+  <Drawer anchor="right" open={open} onClose={onClose}>
+    <Box sx={{ width: { xs: '100vw', sm: 440 }, p: 2 }}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+        <Typography variant="h6">{title}</Typography>
+        <IconButton size="small" onClick={onClose}>
+          <Icon icon="mdi:close" width={18} />
+        </IconButton>
+      </Stack>
+      {children}
+    </Box>
+  </Drawer>
+);
+
+const formatClockTime = (timestamp: string) => new Date(timestamp).toLocaleTimeString();
+
+const BackfillNotice = ({ feed }: { feed: UseDroneFeedResult }) => {
+  if (feed.isBackfilling) {
+    return (
+      <Alert severity="info" icon={<CircularProgress size={16} />} sx={{ mb: 1 }}>
+        Reconnected. Fetching missed detections…
+      </Alert>
+    );
+  }
+
+  const { backfill } = feed;
+  if (!backfill) return null;
+
+  const gap = `${formatClockTime(backfill.since)} – ${formatClockTime(backfill.until)}`;
+  return (
+    <Alert severity={backfill.error ? 'warning' : 'info'} onClose={feed.dismissBackfill} sx={{ mb: 1 }}>
+      {backfill.error
+        ? `Backfill failed for ${gap}: ${backfill.error}`
+        : `Backfilled ${backfill.count} event${backfill.count === 1 ? '' : 's'} (${gap})`}
+    </Alert>
+  );
+};
+
 const Panel = ({ title, children }: { title?: string; children: ReactNode }) => (
   <Paper
     sx={{
@@ -204,24 +301,6 @@ const Panel = ({ title, children }: { title?: string; children: ReactNode }) =>
   </Paper>
 );
 
-const EARTH_RADIUS_METERS = 6371000;
-
-type LatLng = { lat: number; lng: number };
-
-const toRadians = (value: number) => (value * Math.PI) / 180;
-
-const calculateDistanceMeters = (from: LatLng, to: LatLng) => {
-  const dLat = toRadians(to.lat - from.lat);
-  const dLng = toRadians(to.lng - from.lng);
-  const lat1 = toRadians(from.lat);
-  const lat2 = toRadians(to.lat);
-  const sinDLat = Math.sin(dLat / 2);
-  const sinDLng = Math.sin(dLng / 2);
-  const a = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLng * sinDLng;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return EARTH_RADIUS_METERS * c;
-};
-
 const formatEta = (seconds: number | null) => {
   if (seconds === null || !Number.isFinite(seconds)) return 'N/A';
   if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`;
@@ -236,14 +315,36 @@ const formatDistance = (meters: number) => {
   return `${meters.toFixed(0)} m`;
 };
 
-const getObjectDetail = (object: DetectedObject) => object.details ?? null;
-
 const formatSpeed = (value: number | null) => {
   if (value === null || !Number.isFinite(value)) return 'N/A';
   return `${value.toFixed(1)} m/s`;
 };
 
-const getObjectSpeed = (object: DetectedObject): number | null => {
+type PenetrationUrgency = 'inside' | 'imminent' | 'later' | 'none';
+
+// ภายใน 60 วินาทีถือว่าใกล้จะเข้ารัศมี
+const IMMINENT_PENETRATION_SEC = 60;
+
+const PENETRATION_COLOR: Record<PenetrationUrgency, 'error' | 'warning' | 'info' | null> = {
+  inside: 'error',
+  imminent: 'warning',
+  later: 'info',
+  none: null,
+};
+
+const getPenetrationUrgency = (timeToPenetration: number | null): PenetrationUrgency => {
+  if (timeToPenetration === null) return 'none';
+  if (timeToPenetration === 0) return 'inside';
+  return timeToPenetration <= IMMINENT_PENETRATION_SEC ? 'imminent' : 'later';
+};
+
+const formatPenetration = (cpa: CpaResult) => {
+  if (cpa.timeToPenetration === 0) return 'Inside radius';
+  if (cpa.timeToPenetration !== null) return `Penetrates in ${formatEta(cpa.timeToPenetration)}`;
+  return 'No penetration';
+};
+
+const getReportedSpeed = (object: DetectedObject): number | null => {
   const detail = object.details;
   if (typeof detail?.speed === 'number' && Number.isFinite(detail.speed)) {
     return detail.speed;
@@ -251,79 +352,181 @@ const getObjectSpeed = (object: DetectedObject): number | null => {
   return null;
 };
 
+// ใช้ความเร็วที่โดรนรายงานก่อน ถ้าไม่มีใช้ค่าที่ประมาณจาก track
+const getObjectSpeed = (object: DetectedObject, estimate?: MotionEstimate): number | null =>
+  getReportedSpeed(object) ?? estimate?.speed ?? null;
+
+// วัตถุล่าสุด, track และ motion estimate ของ feed ทั้งหมด (ไม่ขึ้นกับ cursor ของ timeline)
+const selectLiveState = (events: DetectionEvent[]) => {
+  const tracks = buildTracks(events);
+  return { objects: selectLatestObjects(events), tracks, estimates: estimateTracks(tracks) };
+};
+
+type LiveState = ReturnType<typeof selectLiveState>;
+
+// ข้อมูลของวัตถุสำหรับประเมินกฎการแจ้งเตือน (defence = จุดป้องกันและวงรัศมี, ไม่ส่ง = ฝั่งที่ไม่มีจุดป้องกัน)
+// liveSince = เวลาของ event live แรกของ feed วัตถุที่ track เริ่มก่อนหน้านั้นมาจาก history ตอนเปิดหน้า
+const toAlertSubjects = (
+  { objects, tracks, estimates }: LiveState,
+  liveSince: number | null,
+  zoneIdsByObject: Record<string, string[]>,
+  defence?: { center: LatLng; rings: DefenceRing[] },
+): AlertSubject[] => {
+  const firstSeen = new Map(tracks.map((track) => [track.obj_id, track.points[0]?.time]));
+  return objects.map(({ object, lastSeen }) => {
+    const position = getObjectPosition(object);
+    const distance = position && defence ? calculateDistanceMeters(position, defence.center) : null;
+    const ring = defence ? getRingForDistance(defence.rings, distance) : null;
+    const firstSeenAt = firstSeen.get(object.obj_id);
+    return {
+      obj_id: object.obj_id,
+      type: object.type,
+      objective: object.objective,
+      speed: getObjectSpeed(object, estimates[object.obj_id]),
+      position,
+      zoneIds: zoneIdsByObject[object.obj_id] ?? [],
+      insideRadius: ring !== null,
+      ring,
+      distance,
+      firstSeenLive: liveSince !== null && firstSeenAt !== undefined && firstSeenAt >= liveSince,
+      seenLive: liveSince !== null && new Date(lastSeen).getTime() >= liveSince,
+    };
+  });
+};
+
 const formatCoordinateValue = (value: number | null | undefined) => {
   if (typeof value === 'number' && Number.isFinite(value)) return value.toFixed(6);
   return 'N/A';
 };
 
-const parseNumericValue = (value: number | string | null | undefined) => {
-  if (typeof value === 'number') return Number.isFinite(value) ? value : Number.NaN;
-  if (typeof value === 'string') {
-    const parsed = Number.parseFloat(value);
-    return Number.isFinite(parsed) ? parsed : Number.NaN;
+const InterceptSummary = ({
+  intercept,
+  hasInterceptors,
+}: {
+  intercept?: InterceptSolution;
+  hasInterceptors: boolean;
+}) => {
+  if (!hasInterceptors) return null;
+  if (!intercept) {
+    return (
+      <Typography variant="body2" color="error.main" fontWeight={600}>
+        Not interceptable: no interceptor can reach it
+      </Typography>
+    );
   }
-  return Number.NaN;
+  return (
+    <Typography variant="body2" color={intercept.beforePenetration ? 'success.main' : 'error.main'} fontWeight={600}>
+      {intercept.beforePenetration ? 'Interceptable' : 'Not interceptable'} before penetration •{' '}
+      {intercept.interceptorName} in {formatEta(intercept.timeSec)} at {formatDistance(getInterceptDistance(intercept))}
+    </Typography>
+  );
 };
 
-const DEFAULT_DEFENCE_LOCATION: LatLng = { lat: 14.297567, lng: 101.166279 };
-const DEFAULT_OFFENCE_LOCATION: LatLng = { lat: 14.286451, lng: 101.171298 };
+// คอลัมน์ความคืบหน้าภารกิจของโดรนฝ่ายรุกใน DroneListPanel
+const MissionProgressColumn = ({ progress }: { progress?: MissionProgress }) => {
+  if (!progress) {
+    return (
+      <Typography variant="caption" color="text.secondary">
+        No target
+      </Typography>
+    );
+  }
+  const color = MISSION_STATE_COLORS[progress.state];
+  return (
+    <Stack spacing={0.5} sx={{ minWidth: 120 }}>
+      <Stack direction="row" spacing={1} alignItems="center" justifyContent="space-between">
+        <Chip
+          size="small"
+          label={MISSION_STATE_LABELS[progress.state]}
+          sx={{ bgcolor: color, color: 'common.white', fontWeight: 600 }}
+        />
+        <Typography variant="caption" fontWeight={600}>
+          {Math.round(progress.percent)}%
+        </Typography>
+      </Stack>
+      <LinearProgress
+        variant="determinate"
+        value={progress.percent}
+        sx={{ height: 6, borderRadius: 3, '& .MuiLinearProgress-bar': { bgcolor: color } }}
+      />
+      <Typography variant="caption" color="text.secondary">
+        {formatDistance(progress.remainingMeters)} • {Math.round(progress.bearing)}°
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        ETA: {formatEta(progress.eta)}
+      </Typography>
+    </Stack>
+  );
+};
 
 const DefensiveAlertPanel = ({
   feed,
-  detectionRadius,
-  onRadiusChange,
+  latestEvent,
+  latestObjects,
+  motionEstimates,
+  radiusCrossings,
+  threats,
+  threatWeights,
+  onThreatWeightsChange,
+  rings,
+  onRingsChange,
+  intercepts,
+  interceptors,
+  onAddInterceptor,
+  onUpdateInterceptor,
+  onRemoveInterceptor,
   defaultLocation,
 }: {
   feed: UseDroneFeedResult;
-  detectionRadius: number;
-  onRadiusChange: (radius: number) => void;
+  latestEvent?: DetectionEvent;
+  latestObjects: LatestObjectEntry[];
+  motionEstimates: Record<string, MotionEstimate>;
+  radiusCrossings: RadiusCrossing[];
+  threats: Record<string, ThreatAssessment>;
+  threatWeights: ThreatWeights;
+  onThreatWeightsChange: (weights: ThreatWeights) => void;
+  rings: DefenceRing[];
+  onRingsChange: (rings: DefenceRing[]) => void;
+  intercepts: Record<string, InterceptSolution>;
+  interceptors: Interceptor[];
+  onAddInterceptor: () => void;
+  onUpdateInterceptor: (id: string, patch: Partial<Omit<Interceptor, 'id'>>) => void;
+  onRemoveInterceptor: (id: string) => void;
   defaultLocation: LatLng | null;
 }) => {
   const errorMessage = feed.error ? (feed.error instanceof Error ? feed.error.message : String(feed.error)) : null;
-  const latest = feed.events[0];
-  const [radiusInput, setRadiusInput] = useState(String(detectionRadius));
+  const latest = latestEvent;
   const [tab, setTab] = useState<'status' | 'settings'>('status');
-
-  useEffect(() => {
-    setRadiusInput(String(detectionRadius));
-  }, [detectionRadius]);
-
-  const handleRadiusSubmit = () => {
-    const parsed = Number(radiusInput);
-    if (!Number.isFinite(parsed) || parsed <= 0) {
-      setRadiusInput(String(detectionRadius));
-      return;
-    }
-    onRadiusChange(parsed);
-  };
+  const detectionRadius = getOuterRadius(rings);
 
   const intruders = useMemo(() => {
     if (!defaultLocation || detectionRadius <= 0) return [];
 
-    const seen = new Map<
-      string,
-      { object: DetectedObject; distance: number; etaSeconds: number | null; speed: number | null }
-    >();
+    const tracked: { object: DetectedObject; speed: number | null; cpa: CpaResult }[] = [];
 
-    feed.events.forEach((event) => {
-      event.objects?.forEach((obj) => {
-        const lat = getObjectLatitude(obj);
-        const lng = getObjectLongitude(obj);
-        if (lat === null || lng === null) return;
-
-        const distance = calculateDistanceMeters(defaultLocation, { lat, lng });
-        if (distance > detectionRadius) return;
-
-        if (!seen.has(obj.obj_id)) {
-          const speed = getObjectSpeed(obj);
-          const etaSeconds = speed && speed > 0 ? distance / speed : null;
-          seen.set(obj.obj_id, { object: obj, distance, etaSeconds, speed });
-        }
-      });
+    latestObjects.forEach(({ object: obj }) => {
+      const position = getObjectPosition(obj);
+      if (!position) return;
+
+      const estimate = motionEstimates[obj.obj_id];
+      const cpa = computeCpa(obj.obj_id, position, estimate, defaultLocation, detectionRadius);
+      tracked.push({ object: obj, speed: getObjectSpeed(obj, estimate), cpa });
     });
 
-    return Array.from(seen.values()).sort((a, b) => a.distance - b.distance);
-  }, [feed.events, detectionRadius, defaultLocation]);
+    // ระดับภัยคุกคามก่อน ระดับเท่ากันเรียงตามเวลาที่จะเข้ารัศมี
+    return tracked.sort(
+      (a, b) => compareThreat(threats[a.object.obj_id], threats[b.object.obj_id]) || compareByPenetration(a.cpa, b.cpa),
+    );
+  }, [latestObjects, motionEstimates, threats, detectionRadius, defaultLocation]);
+
+  // จัดกลุ่มตามวงชั้นในสุดที่อยู่ วงในสุดแสดงก่อน ส่วนที่อยู่นอกทุกวงแสดงท้ายสุด
+  const ringGroups = useMemo(() => {
+    const groups = [...sortRingsOutward(rings).reverse(), null].map((ring) => ({
+      ring,
+      intruders: intruders.filter(({ cpa }) => getRingForDistance(rings, cpa.distance)?.id === ring?.id),
+    }));
+    return groups.filter((group) => group.intruders.length > 0);
+  }, [intruders, rings]);
 
   return (
     <Panel>
@@ -341,11 +544,10 @@ const DefensiveAlertPanel = ({
         {tab === 'status' && (
           <>
             <Stack direction="row" spacing={1} flexWrap="wrap">
-              <Chip
-                icon={<Icon icon={feed.isConnected ? 'mdi:check-circle' : 'mdi:close-circle'} />}
-                label={feed.isConnected ? 'Socket Connected' : 'Socket Down'}
-                color={feed.isConnected ? 'success' : 'error'}
-                size="small"
+              <SocketStatusChip
+                connection={feed.connection}
+                prefix={SOURCE_LABELS[feed.source.kind]}
+                onRetry={feed.source.retry}
               />
               <Chip
                 icon={<Icon icon={feed.error ? 'mdi:close-circle' : 'mdi:check-circle'} />}
@@ -354,6 +556,7 @@ const DefensiveAlertPanel = ({
                 size="small"
               />
               <Chip icon={<Icon icon="mdi:database" />} label={`Events: ${feed.events.length}`} size="small" />
+              <PayloadIssueChip issues={feed.payloadIssues} />
             </Stack>
 
             {errorMessage ? (
@@ -364,6 +567,13 @@ const DefensiveAlertPanel = ({
               <Alert severity="info">Awaiting defensive detections...</Alert>
             )}
 
+            {radiusCrossings.map((crossing) => (
+              <Alert key={crossing.obj_id} severity="warning" icon={<Icon icon="mdi:chart-timeline-variant-shimmer" />}>
+                {crossing.obj_id} predicted to enter {formatDistance(detectionRadius)} radius in{' '}
+                {formatEta(crossing.timeSec)}
+              </Alert>
+            ))}
+
             <Box sx={{ border: '1px dashed', borderRadius: 1, borderColor: 'divider', flexGrow: 1, p: 2, overflowY: 'auto' }}>
               {!defaultLocation ? (
                 <Typography variant="body2" color="text.secondary">
@@ -371,26 +581,63 @@ const DefensiveAlertPanel = ({
                 </Typography>
               ) : intruders.length === 0 ? (
                 <Typography variant="body2" color="text.secondary" align="center">
-                  No deploy drones detected within {formatDistance(detectionRadius)}.
+                  No tracked drones near the {formatDistance(detectionRadius)} radius.
                 </Typography>
               ) : (
-                <Stack spacing={1}>
-
-                  {intruders.map(({ object, distance, etaSeconds, speed }) => (
-                    <Paper key={object.obj_id} variant="outlined" sx={{ p: 1.5 }}>
-                      <Typography variant="subtitle2" fontWeight={600}>
-                        {object.obj_id}
-                      </Typography>
-                      <Typography variant="body2" color="text.secondary">
-                        Distance: {formatDistance(distance)}
-                      </Typography>
-                      <Typography variant="body2" color="text.secondary">
-                        Speed: {formatSpeed(speed)}
-                      </Typography>
-                      <Typography variant="body2" color="text.secondary">
-                        ETA: {formatEta(etaSeconds)}
-                      </Typography>
-                    </Paper>
+                <Stack spacing={1.5}>
+                  {ringGroups.map((group) => (
+                    <Stack key={group.ring?.id ?? 'outside'} spacing={1}>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: group.ring?.color ?? 'text.disabled' }} />
+                        <Typography variant="caption" fontWeight={600}>
+                          {group.ring ? `${group.ring.name} (${formatDistance(group.ring.radiusMeters)})` : 'Outside rings'}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {group.intruders.length}
+                        </Typography>
+                      </Stack>
+                      {group.intruders.map(({ object, speed, cpa }) => {
+                        const color = PENETRATION_COLOR[getPenetrationUrgency(cpa.timeToPenetration)];
+                        return (
+                          <Paper
+                            key={object.obj_id}
+                            variant="outlined"
+                            sx={{
+                              p: 1.5,
+                              borderLeft: '4px solid',
+                              borderLeftColor: color ? `${color}.main` : 'divider',
+                              bgcolor: (theme) => (color ? alpha(theme.palette[color].main, 0.06) : undefined),
+                            }}
+                          >
+                            <Stack direction="row" justifyContent="space-between" alignItems="center">
+                              <Stack direction="row" spacing={1} alignItems="center">
+                                <Typography variant="subtitle2" fontWeight={600}>
+                                  {object.obj_id}
+                                </Typography>
+                                <ThreatLevelChip assessment={threats[object.obj_id]} />
+                              </Stack>
+                              <Typography variant="caption" fontWeight={600} color={color ? `${color}.main` : 'text.secondary'}>
+                                {formatPenetration(cpa)}
+                              </Typography>
+                            </Stack>
+                            <Typography variant="body2" color="text.secondary">
+                              Distance: {formatDistance(cpa.distance)} • Speed: {formatSpeed(speed)}
+                            </Typography>
+                            <Typography variant="body2" color="text.secondary">
+                              CPA: {formatDistance(cpa.cpaDistance)}
+                              {cpa.timeToCpa !== null && cpa.timeToCpa > 0 ? ` in ${formatEta(cpa.timeToCpa)}` : ''}
+                            </Typography>
+                            <Typography variant="body2" color="text.secondary">
+                              Closing speed: {formatSpeed(cpa.closingSpeed)}
+                            </Typography>
+                            <InterceptSummary
+                              intercept={intercepts[object.obj_id]}
+                              hasInterceptors={interceptors.length > 0 && object.objective !== 'our'}
+                            />
+                          </Paper>
+                        );
+                      })}
+                    </Stack>
                   ))}
                 </Stack>
               )}
@@ -399,23 +646,15 @@ const DefensiveAlertPanel = ({
         )}
 
         {tab === 'settings' && (
-          <Stack spacing={2}>
-            <Typography variant="subtitle2">Detection radius (meters)</Typography>
-            <Stack direction="row" spacing={1}>
-              <TextField
-                size="small"
-                type="number"
-                value={radiusInput}
-                onChange={(e) => setRadiusInput(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') handleRadiusSubmit();
-                }}
-                sx={{ minWidth: 120 }}
-              />
-              <Button variant="contained" onClick={handleRadiusSubmit} size="small" sx={{ textTransform: 'none' }}>
-                Update radius
-              </Button>
-            </Stack>
+          <Stack spacing={2} sx={{ overflowY: 'auto', minHeight: 0 }}>
+            <DefenceRingsEditor rings={rings} onChange={onRingsChange} />
+            <Divider />
+            <InterceptorRegistryEditor
+              interceptors={interceptors}
+              onAdd={onAddInterceptor}
+              onUpdate={onUpdateInterceptor}
+              onRemove={onRemoveInterceptor}
+            />
             {defaultLocation ? (
               <Typography variant="body2" color="text.secondary">
                 Default marker: lat {defaultLocation.lat.toFixed(5)} • lng {defaultLocation.lng.toFixed(5)}
@@ -425,6 +664,8 @@ const DefensiveAlertPanel = ({
                 Default marker not set.
               </Typography>
             )}
+            <Divider />
+            <ThreatWeightsEditor weights={threatWeights} onChange={onThreatWeightsChange} />
           </Stack>
         )}
       </Stack>
@@ -432,13 +673,68 @@ const DefensiveAlertPanel = ({
   );
 };
 
+type TrailMode = 'off' | 'time' | 'points' | 'all';
+
+const TrailLengthControl = ({
+  mode,
+  value,
+  onChange,
+}: {
+  mode: TrailMode;
+  value: number;
+  onChange: (mode: TrailMode, value: number) => void;
+}) => (
+  <Stack direction="row" spacing={1} alignItems="center">
+    <TextField
+      select
+      size="small"
+      label="Trail"
+      value={mode}
+      onChange={(e) => onChange(e.target.value as TrailMode, value)}
+      sx={{ width: 110 }}
+    >
+      <MenuItem value="off">Off</MenuItem>
+      <MenuItem value="time">Time</MenuItem>
+      <MenuItem value="points">Points</MenuItem>
+      <MenuItem value="all">All</MenuItem>
+    </TextField>
+    {(mode === 'time' || mode === 'points') && (
+      <TextField
+        size="small"
+        type="number"
+        label={mode === 'time' ? 'Seconds' : 'Points'}
+        value={value}
+        onChange={(e) => {
+          const parsed = Number(e.target.value);
+          if (Number.isFinite(parsed) && parsed > 0) onChange(mode, parsed);
+        }}
+        sx={{ width: 100 }}
+      />
+    )}
+  </Stack>
+);
+
 const MapPanel = ({
   title,
   event,
   defaultCameraLocation,
   focusPoint,
   objects,
+  tracks,
+  trailLength,
+  motionEstimates,
+  predictions,
+  radiusCrossings,
+  intercepts,
+  threats,
+  missionProgress,
+  zones,
+  editingZoneId,
+  onZoneCreate,
+  onZoneShapeChange,
+  onZoneEditDone,
   detectionRadius,
+  defenceRings,
   defaultLocation,
   onDefaultLocationChange,
 }: {
@@ -447,7 +743,21 @@ const MapPanel = ({
   defaultCameraLocation?: string;
   focusPoint?: { lat: number; lng: number } | null;
   objects?: DetectedObject[];
+  tracks?: ObjectTrack[];
+  trailLength?: TrailLength;
+  motionEstimates?: Record<string, MotionEstimate>;
+  predictions?: PredictedPath[];
+  radiusCrossings?: RadiusCrossing[];
+  intercepts?: InterceptSolution[];
+  threats?: Record<string, ThreatAssessment>;
+  missionProgress?: Record<string, MissionProgress>;
+  zones?: GeofenceZone[];
+  editingZoneId?: string | null;
+  onZoneCreate?: (shape: ZoneShape) => void;
+  onZoneShapeChange?: (zoneId: string, shape: ZoneShape) => void;
+  onZoneEditDone?: () => void;
   detectionRadius?: number;
+  defenceRings?: DefenceRing[];
   defaultLocation?: LatLng;
   onDefaultLocationChange?: (coords: LatLng) => void;
 }) => {
@@ -483,7 +793,21 @@ const MapPanel = ({
           imagePath={event?.image_path}
           cameraLocation={cameraLocation}
           focusPoint={focusPoint}
+          tracks={tracks}
+          trailLength={trailLength}
+          motionEstimates={motionEstimates}
+          predictions={predictions}
+          radiusCrossings={radiusCrossings}
+          intercepts={intercepts}
+          threats={threats}
+          missionProgress={missionProgress}
+          zones={zones}
+          editingZoneId={editingZoneId}
+          onZoneCreate={onZoneCreate}
+          onZoneShapeChange={onZoneShapeChange}
+          onZoneEditDone={onZoneEditDone}
           detectionRadius={detectionRadius}
+          defenceRings={defenceRings}
           defaultLocation={defaultLocation}
           onDefaultLocationChange={onDefaultLocationChange}
         />
@@ -512,9 +836,11 @@ const MapPanel = ({
 
 const DetectionSummaryModule = ({
   detection,
+  threat,
   onSelect,
 }: {
   detection: DetectionEvent;
+  threat?: ThreatAssessment;
   onSelect: (event: DetectionEvent) => void;
 }) => {
   const previewTypes = detection.objects.slice(0, 2).map((obj) => obj.type).join(', ');
@@ -543,6 +869,7 @@ const DetectionSummaryModule = ({
           </Typography>
         </Stack>
         <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+          <ThreatLevelChip assessment={threat} />
           <Chip icon={<Icon icon="mdi:drone" />} label={`${detection.objects.length} drones`} size="small" />
           <Chip
             icon={<Icon icon="mdi:camera" />}
@@ -568,11 +895,13 @@ const DetectionFeedPanel = ({
   feed,
   title,
   compact = false,
+  threats,
   onShowDetail,
 }: {
   feed: UseDroneFeedResult;
   title: string;
   compact?: boolean;
+  threats?: Record<string, ThreatAssessment>;
   onShowDetail?: (detection: DetectionEvent) => void;
 }) => {
   const errorMessage = feed.error ? (feed.error instanceof Error ? feed.error.message : String(feed.error)) : null;
@@ -589,7 +918,25 @@ const DetectionFeedPanel = ({
 
   const handleCloseDetail = () => setLocalDetail(null);
 
-  const latestEvent = feed.events[0];
+  const { latestEvent } = feed;
+
+  // ระดับของ event = ระดับสูงสุดของวัตถุใน event (ใช้ผลประเมินล่าสุดของแต่ละ obj_id)
+  const [sortBy, setSortBy] = useState<'time' | 'threat'>('threat');
+  const eventThreats = useMemo(() => {
+    const result = new Map<DetectionEvent, ThreatAssessment | undefined>();
+    feed.events.forEach((event) => {
+      const assessments = event.objects.map((obj) => threats?.[obj.obj_id]).filter(Boolean) as ThreatAssessment[];
+      result.set(event, assessments.sort(compareThreat)[0]);
+    });
+    return result;
+  }, [feed.events, threats]);
+  const sortedEvents = useMemo(
+    () =>
+      threats && sortBy === 'threat'
+        ? [...feed.events].sort((a, b) => compareThreat(eventThreats.get(a), eventThreats.get(b)))
+        : feed.events,
+    [feed.events, eventThreats, threats, sortBy],
+  );
 
   return (
     <Panel title={title}>
@@ -603,6 +950,7 @@ const DetectionFeedPanel = ({
 
       {!feed.isLoading && !errorMessage && (
         <>
+          <BackfillNotice feed={feed} />
           <Box sx={{ mb: 1 }}>
             <Tabs
               value={tab}
@@ -615,14 +963,36 @@ const DetectionFeedPanel = ({
             </Tabs>
           </Box>
 
+          {tab === 'feed' && threats && (
+            <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+              <Chip
+                label="Threat"
+                size="small"
+                color={sortBy === 'threat' ? 'primary' : 'default'}
+                onClick={() => setSortBy('threat')}
+              />
+              <Chip
+                label="Newest"
+                size="small"
+                color={sortBy === 'time' ? 'primary' : 'default'}
+                onClick={() => setSortBy('time')}
+              />
+            </Stack>
+          )}
+
           {tab === 'feed' && feed.events.length > 0 && (
             <Box sx={{ height: '100%', overflowY: 'auto', pr: 1 }}>
               <Stack spacing={compact ? 1.5 : 2}>
-                {feed.events.map((event) =>
+                {sortedEvents.map((event) =>
                   compact ? (
-                    <DetectionSummaryModule key={`${title}-${event.id}`} detection={event} onSelect={handleOpenDetail} />
+                    <DetectionSummaryModule
+                      key={`${title}-${getDetectionEventKey(event)}`}
+                      detection={event}
+                      threat={eventThreats.get(event)}
+                      onSelect={handleOpenDetail}
+                    />
                   ) : (
-                    <DetectionCard key={`${title}-${event.id}`} detection={event} />
+                    <DetectionCard key={`${title}-${getDetectionEventKey(event)}`} detection={event} />
                   ),
                 )}
               </Stack>
@@ -671,7 +1041,7 @@ const HistoryPanel = ({
   token?: string;
   onCleared?: () => void;
 }) => {
-  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
   const [startDate, setStartDate] = useState<Dayjs | null>(null);
   const [endDate, setEndDate] = useState<Dayjs | null>(null);
   const [isClearing, setIsClearing] = useState(false);
@@ -693,8 +1063,8 @@ const HistoryPanel = ({
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }, [events, startDate, endDate]);
 
-  const handleToggle = (id: number) => {
-    setExpandedId((prev) => (prev === id ? null : id));
+  const handleToggle = (key: string) => {
+    setExpandedKey((prev) => (prev === key ? null : key));
   };
 
   const handleDetailRequest = (event: DetectionEvent) => {
@@ -792,15 +1162,16 @@ const HistoryPanel = ({
           ) : (
             <List dense>
               {filteredEvents.map((event) => {
-                const isExpanded = expandedId === event.id;
+                const eventKey = getDetectionEventKey(event);
+                const isExpanded = expandedKey === eventKey;
                 return (
                   <Box
-                    key={`${title ?? 'history'}-${event.id}`}
+                    key={`${title ?? 'history'}-${eventKey}`}
                     sx={{ borderBottom: '1px solid', borderColor: 'divider' }}
                   >
                     <ListItem disableGutters disablePadding>
                       <ListItemButton
-                        onClick={() => handleToggle(event.id)}
+                        onClick={() => handleToggle(eventKey)}
                         sx={{ py: 1, display: 'flex', alignItems: 'flex-start', gap: 1 }}
                       >
                         <ListItemText
@@ -878,11 +1249,15 @@ const HistoryPanel = ({
 const DroneListPanel = ({
   feed,
   latestObjects,
+  motionEstimates,
+  missionProgress,
   onSelect,
   selectedId,
 }: {
   feed: UseDroneFeedResult;
   latestObjects: LatestObjectEntry[];
+  motionEstimates: Record<string, MotionEstimate>;
+  missionProgress: Record<string, MissionProgress>;
   onSelect?: (object: DetectedObject) => void;
   selectedId?: string | null;
 }) => {
@@ -908,11 +1283,10 @@ const DroneListPanel = ({
     <Panel title="Deployed Drones List">
       <Stack spacing={1.5} sx={{ mb: 1 }}>
         <Stack direction="row" spacing={1} flexWrap="wrap">
-          <Chip
-            icon={<Icon icon={feed.isConnected ? 'mdi:check-circle' : 'mdi:close-circle'} />}
-            label={feed.isConnected ? 'Socket Connected' : 'Socket Down'}
-            color={feed.isConnected ? 'success' : 'error'}
-            size="small"
+          <SocketStatusChip
+            connection={feed.connection}
+            prefix={SOURCE_LABELS[feed.source.kind]}
+            onRetry={feed.source.retry}
           />
           <Chip
             icon={<Icon icon={errorMessage ? 'mdi:close-circle' : 'mdi:check-circle'} />}
@@ -921,24 +1295,24 @@ const DroneListPanel = ({
             size="small"
           />
           <Chip icon={<Icon icon="mdi:database" />} label={`Objects: ${latestObjects.length}`} size="small" />
+          <PayloadIssueChip issues={feed.payloadIssues} />
         </Stack>
         <Typography variant="caption" color="text.secondary">
           Tap a drone to center the offensive map.
         </Typography>
       </Stack>
 
+      <BackfillNotice feed={feed} />
+
       {latestObjects.length === 0 ? (
         <Alert severity="info">No deployed drones in the feed yet.</Alert>
       ) : (
         <List dense sx={{ height: '100%', overflowY: 'auto' }}>
           {latestObjects.map(({ object, lastSeen }) => {
             const isSelected = selectedId === object.obj_id;
-            const telemetry = getObjectDetail(object);
-            const numericTargetLat = parseNumericValue(telemetry?.tar_lat);
-            const numericTargetLng = parseNumericValue(telemetry?.tar_lng ?? telemetry?.tar_long);
-            const hasTarget = Number.isFinite(numericTargetLat) && Number.isFinite(numericTargetLng);
-            const targetDisplay = hasTarget
-              ? `${formatCoordinateValue(numericTargetLat)} , ${formatCoordinateValue(numericTargetLng)}`
+            const target = getObjectTarget(object);
+            const targetDisplay = target
+              ? `${formatCoordinateValue(target.lat)} , ${formatCoordinateValue(target.lng)}`
               : 'N/A';
             const latValue = getObjectLatitude(object);
             const lngValue = getObjectLongitude(object);
@@ -972,6 +1346,9 @@ const DroneListPanel = ({
                       </Stack>
                     }
                   />
+                  <Box sx={{ ml: 1, pt: 0.5 }}>
+                    <MissionProgressColumn progress={missionProgress[object.obj_id]} />
+                  </Box>
                 </ListItemButton>
               </ListItem>
             );
@@ -986,10 +1363,7 @@ const DroneListPanel = ({
             <Stack spacing={1.25}>
               {(() => {
                 const detailObject = detailEntry.object;
-                const telemetry = getObjectDetail(detailObject);
-                const numericTargetLat = parseNumericValue(telemetry?.tar_lat);
-                const numericTargetLng = parseNumericValue(telemetry?.tar_lng ?? telemetry?.tar_long);
-                const targetValid = Number.isFinite(numericTargetLat) && Number.isFinite(numericTargetLng);
+                const target = getObjectTarget(detailObject);
                 const latValue = getObjectLatitude(detailObject);
                 const lngValue = getObjectLongitude(detailObject);
 
@@ -1009,13 +1383,15 @@ const DroneListPanel = ({
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
                       Target:{' '}
-                      {targetValid
-                        ? `${formatCoordinateValue(numericTargetLat)} , ${formatCoordinateValue(numericTargetLng)}`
-                        : 'N/A'}
+                      {target ? `${formatCoordinateValue(target.lat)} , ${formatCoordinateValue(target.lng)}` : 'N/A'}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
                       Last seen: {new Date(detailEntry.lastSeen).toLocaleString()}
                     </Typography>
+                    <MotionEstimateSummary
+                      estimate={motionEstimates[detailObject.obj_id]}
+                      reportedSpeed={getReportedSpeed(detailObject)}
+                    />
                   </>
                 );
               })()}
@@ -1030,20 +1406,174 @@ const DroneListPanel = ({
   );
 };
 const DashboardPage = () => {
-  const defensiveFeed = useDroneFeed(droneProfiles.defensive.camId, droneProfiles.defensive.token);
-  const offensiveFeed = useDroneFeed(droneProfiles.offensive.camId, droneProfiles.offensive.token);
+  const [sources, setSources] = useState(() => createDetectionSources());
+  const [replayFileName, setReplayFileName] = useState<string | null>(null);
+  const [recorder] = useState(createSessionRecorder);
+  const [threatWeights, setThreatWeights] = useState<ThreatWeights>(DEFAULT_THREAT_WEIGHTS);
+  const [defensiveRings, setDefensiveRings] = useState<DefenceRing[]>(DEFAULT_DEFENCE_RINGS);
+  // รัศมีป้องกัน = วงนอกสุด ใช้กับ CPA, คะแนนภัยคุกคาม และการคาดการณ์การเข้ารัศมี
+  const defensiveRadius = useMemo(() => getOuterRadius(defensiveRings), [defensiveRings]);
+  const [defensiveDefaultLocation, setDefensiveDefaultLocation] = useState<LatLng>(DEFAULT_DEFENCE_LOCATION);
+  const recording = useSessionRecorder(recorder);
+
+  // ทุก feed ส่งข้อมูลที่ได้รับเข้า recorder เพื่อบันทึก session ได้ทุกเมื่อ
+  const feeds = useMemo(
+    () => ({
+      defensive: withRecording(sources.feeds.defensive, recorder),
+      offensive: withRecording(sources.feeds.offensive, recorder),
+    }),
+    [sources, recorder],
+  );
+  const defensiveFeed = useDroneFeed(feeds.defensive);
+  const offensiveFeed = useDroneFeed(feeds.offensive);
 
-  const defensiveLatest = defensiveFeed.events[0];
-  const offensiveLatest = offensiveFeed.events[0];
+  // แผนที่, รายการโดรน และ alert แสดงสถานะ ณ เวลาที่เลือกบน timeline (live = ข้อมูลล่าสุด)
+  const timeRange = useMemo(
+    () => selectTimeRange(defensiveFeed.events, offensiveFeed.events),
+    [defensiveFeed.events, offensiveFeed.events],
+  );
+  const timeline = useTimeline(timeRange);
+  const defensiveView = useMemo(
+    () => selectEventsAt(defensiveFeed.events, timeline.cursor),
+    [defensiveFeed.events, timeline.cursor],
+  );
+  const offensiveView = useMemo(
+    () => selectEventsAt(offensiveFeed.events, timeline.cursor),
+    [offensiveFeed.events, timeline.cursor],
+  );
 
-  const defensiveObjects = useMemo(() => buildLatestObjects(defensiveFeed.events), [defensiveFeed.events]);
-  const offensiveObjects = useMemo(() => buildLatestObjects(offensiveFeed.events), [offensiveFeed.events]);
+  const defensiveLatest = defensiveView[0];
+  const offensiveLatest = offensiveView[0];
+
+  const defensiveObjects = useMemo(() => selectLatestObjects(defensiveView), [defensiveView]);
+  const offensiveObjects = useMemo(() => selectLatestObjects(offensiveView), [offensiveView]);
+
+  const [trailMode, setTrailMode] = useState<TrailMode>('time');
+  const [trailValue, setTrailValue] = useState(120);
+  const trailLength = useMemo<TrailLength>(() => {
+    if (trailMode === 'time') return { mode: 'time', seconds: trailValue };
+    if (trailMode === 'points') return { mode: 'points', count: Math.round(trailValue) };
+    return null;
+  }, [trailMode, trailValue]);
+  const defensiveTracks = useMemo(() => buildTracks(defensiveView), [defensiveView]);
+  const offensiveTracks = useMemo(() => buildTracks(offensiveView), [offensiveView]);
+  const defensiveEstimates = useMemo(() => estimateTracks(defensiveTracks), [defensiveTracks]);
+  const offensiveEstimates = useMemo(() => estimateTracks(offensiveTracks), [offensiveTracks]);
+  const defensivePredictions = useMemo(() => predictPaths(defensiveEstimates), [defensiveEstimates]);
+  const offensivePredictions = useMemo(() => predictPaths(offensiveEstimates), [offensiveEstimates]);
+  // alert และ geofence ประเมินจากข้อมูล live เสมอ การเลื่อน timeline ดูย้อนหลังจึงไม่ยก/ปิด alert จริงหรือเขียน audit trail
+  // (ตอน live ใช้ค่าที่คำนวณไว้แล้วของ view ซึ่งเป็นชุดเดียวกัน)
+  const isLiveView = timeline.cursor === null;
+  const defensiveLive = useMemo(
+    () =>
+      isLiveView
+        ? { objects: defensiveObjects, tracks: defensiveTracks, estimates: defensiveEstimates }
+        : selectLiveState(defensiveFeed.events),
+    [isLiveView, defensiveObjects, defensiveTracks, defensiveEstimates, defensiveFeed.events],
+  );
+  const offensiveLive = useMemo(
+    () =>
+      isLiveView
+        ? { objects: offensiveObjects, tracks: offensiveTracks, estimates: offensiveEstimates }
+        : selectLiveState(offensiveFeed.events),
+    [isLiveView, offensiveObjects, offensiveTracks, offensiveEstimates, offensiveFeed.events],
+  );
+  const offensiveMissionProgress = useMemo(
+    () => computeMissionProgresses(offensiveTracks, offensiveEstimates),
+    [offensiveTracks, offensiveEstimates],
+  );
+
+  // ระดับภัยคุกคามชุดเดียวใช้ทั้ง alert panel, marker บนแผนที่ และ feed
+  const defensiveThreats = useMemo(
+    () =>
+      scoreThreats(
+        defensiveObjects.map(({ object }) => object),
+        { center: defensiveDefaultLocation, radiusMeters: defensiveRadius },
+        defensiveEstimates,
+        threatWeights,
+      ),
+    [defensiveObjects, defensiveDefaultLocation, defensiveRadius, defensiveEstimates, threatWeights],
+  );
+
+  // เตือนเมื่อเส้นทางคาดการณ์ของวัตถุที่ยังอยู่นอกรัศมีจะเข้ามาในรัศมีป้องกัน
+  const defensiveCrossings = useMemo(
+    () =>
+      Object.entries(defensiveEstimates)
+        .map(([objId, estimate]) =>
+          findRadiusCrossing(objId, estimate, defensiveDefaultLocation, defensiveRadius),
+        )
+        .filter((crossing): crossing is RadiusCrossing => crossing !== null && crossing.timeSec > 0)
+        .sort((a, b) => a.timeSec - b.timeSec),
+    [defensiveEstimates, defensiveDefaultLocation, defensiveRadius],
+  );
+
+  // ผู้บุกรุก = วัตถุฝั่งป้องกันที่ไม่ใช่โดรนฝ่ายเรา พร้อม CPA เทียบรัศมีป้องกัน
+  const defensiveIntruders = useMemo(
+    () =>
+      defensiveObjects.flatMap<AssignmentIntruder>(({ object }) => {
+        const position = getObjectPosition(object);
+        if (!position || object.objective === 'our') return [];
+        const estimate = defensiveEstimates[object.obj_id];
+        const cpa = computeCpa(object.obj_id, position, estimate, defensiveDefaultLocation, defensiveRadius);
+        return [
+          {
+            obj_id: object.obj_id,
+            position,
+            estimate,
+            threat: defensiveThreats[object.obj_id],
+            timeToPenetration: cpa.timeToPenetration,
+          },
+        ];
+      }),
+    [defensiveObjects, defensiveEstimates, defensiveDefaultLocation, defensiveRadius, defensiveThreats],
+  );
+
+  // จุดสกัดกั้นที่เร็วที่สุดของผู้บุกรุกแต่ละตัว
+  const { interceptors, addInterceptor, updateInterceptor, removeInterceptor } = useInterceptors();
+  const defensiveIntercepts = useMemo(() => {
+    const result: Record<string, InterceptSolution> = {};
+    defensiveIntruders.forEach((intruder) => {
+      const solution = computeBestIntercept(
+        intruder.obj_id,
+        intruder.position,
+        intruder.estimate,
+        defensiveDefaultLocation,
+        interceptors,
+        intruder.timeToPenetration,
+      );
+      if (solution) result[intruder.obj_id] = solution;
+    });
+    return result;
+  }, [defensiveIntruders, defensiveDefaultLocation, interceptors]);
+  const defensiveInterceptList = useMemo(() => Object.values(defensiveIntercepts), [defensiveIntercepts]);
+
+  // จับคู่ interceptor กับผู้บุกรุกที่อยู่ในหรือกำลังเข้ารัศมี
+  const [assignmentStrategy, setAssignmentStrategy] = useState<AssignmentStrategy>('hungarian');
+  const [assignmentPins, setAssignmentPins] = useState<Record<string, AssignmentPin>>({});
+  const assignmentResult = useMemo(
+    () =>
+      solveAssignments(
+        defensiveIntruders.filter((intruder) => intruder.timeToPenetration !== null),
+        interceptors,
+        defensiveDefaultLocation,
+        assignmentPins,
+        assignmentStrategy,
+      ),
+    [defensiveIntruders, interceptors, defensiveDefaultLocation, assignmentPins, assignmentStrategy],
+  );
+
+  // interceptor หนึ่งตัวตรึงได้กับผู้บุกรุกตัวเดียว ตรึงใหม่จึงปลดคู่เดิมของ interceptor นั้น
+  const handleAssignmentPin = (objId: string, pin: AssignmentPin | null) =>
+    setAssignmentPins((current) => {
+      const next = Object.fromEntries(
+        Object.entries(current).filter(([id, item]) => id !== objId && item.interceptorId !== pin?.interceptorId),
+      );
+      return pin ? { ...next, [objId]: pin } : next;
+    });
 
   const [offensiveFocus, setOffensiveFocus] = useState<{ lat: number; lng: number } | null>(null);
   const [selectedDroneId, setSelectedDroneId] = useState<string | null>(null);
   const [detailDetection, setDetailDetection] = useState<DetectionEvent | null>(null);
-  const [defensiveRadius, setDefensiveRadius] = useState(1500);
-  const [defensiveDefaultLocation, setDefensiveDefaultLocation] = useState<LatLng>(DEFAULT_DEFENCE_LOCATION);
 
   const handleDroneSelect = (object: DetectedObject) => {
     const lat = getObjectLatitude(object);
@@ -1056,6 +1586,122 @@ const DashboardPage = () => {
 
   const handleCloseDetail = () => setDetailDetection(null);
 
+  const [openToolPanel, setOpenToolPanel] = useState<ToolPanelKey | null>(null);
+  const closeToolPanel = () => setOpenToolPanel(null);
+
+  // geofence ประเมินทุก track ทั้งสองฝั่ง, โซนวาด/แก้ได้จากแผนที่ทั้งสองฝั่ง
+  const { zones, addZone, updateZone, removeZone } = useGeofenceZones();
+  const [editingZoneId, setEditingZoneId] = useState<string | null>(null);
+  const geofenceTracks = useMemo(
+    () => [...defensiveLive.tracks, ...offensiveLive.tracks],
+    [defensiveLive.tracks, offensiveLive.tracks],
+  );
+  const geofence = useGeofenceEvents(zones, geofenceTracks);
+
+  const handleZoneCreate = useCallback(
+    (shape: ZoneShape) => {
+      addZone(shape);
+      setOpenToolPanel('zones');
+    },
+    [addZone],
+  );
+
+  const handleZoneShapeChange = useCallback(
+    (zoneId: string, shape: ZoneShape) => updateZone(zoneId, { shape }),
+    [updateZone],
+  );
+
+  const handleEditZoneShape = (zoneId: string) => {
+    setEditingZoneId(zoneId);
+    closeToolPanel();
+  };
+
+  const handleRemoveZone = (zoneId: string) => {
+    removeZone(zoneId);
+    if (editingZoneId === zoneId) setEditingZoneId(null);
+  };
+
+  // alert จากกฎ: ประเมินวัตถุล่าสุด (live) ทั้งสองฝั่งพร้อมโซนที่อยู่ขณะนี้
+  const { rules: alertRules, addRule, updateRule, removeRule, resetRules } = useAlertRules();
+  const alertSubjects = useMemo(() => {
+    const zoneIdsByObject: Record<string, string[]> = {};
+    Object.entries(geofence.occupants).forEach(([zoneId, objIds]) =>
+      objIds.forEach((objId) => {
+        zoneIdsByObject[objId] = [...(zoneIdsByObject[objId] ?? []), zoneId];
+      }),
+    );
+    return [
+      ...toAlertSubjects(defensiveLive, defensiveFeed.liveSince, zoneIdsByObject, {
+        center: defensiveDefaultLocation,
+        rings: defensiveRings,
+      }),
+      ...toAlertSubjects(offensiveLive, offensiveFeed.liveSince, zoneIdsByObject),
+    ];
+  }, [
+    geofence.occupants,
+    defensiveLive,
+    defensiveFeed.liveSince,
+    defensiveDefaultLocation,
+    defensiveRings,
+    offensiveLive,
+    offensiveFeed.liveSince,
+  ]);
+  const alertQueue = useAlerts(alertRules, alertSubjects, zones);
+
+  // ข้อความประกาศ: วัตถุฝั่งป้องกันบอกระยะและเวลาถึงจุดป้องกัน เช่น "drone obj_003 inside 500 metres, ETA 40 seconds"
+  const describeAlert = useCallback(
+    (alert: AlertItem) => {
+      const subject = alertSubjects.find((item) => item.obj_id === alert.obj_id);
+      if (!subject?.position || subject.distance === null) return alert.message;
+      const cpa = computeCpa(
+        subject.obj_id,
+        subject.position,
+        defensiveLive.estimates[subject.obj_id],
+        defensiveDefaultLocation,
+        defensiveRadius,
+      );
+      const eta = cpa.closingSpeed && cpa.closingSpeed > 0 ? subject.distance / cpa.closingSpeed : null;
+      return [
+        `${subject.type} ${subject.obj_id} ${subject.insideRadius ? 'inside' : 'at'} ${Math.round(subject.distance / 10) * 10} metres`,
+        eta === null ? null : `ETA ${Math.round(eta)} seconds`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+    },
+    [alertSubjects, defensiveLive.estimates, defensiveDefaultLocation, defensiveRadius],
+  );
+  // alarm รับเฉพาะ alert ที่ประเมินจากข้อมูล live จึงไม่ดังซ้ำตอนเลื่อน timeline ไปดูการบุกรุกในอดีต
+  // และไม่ดังให้วัตถุใน history ที่โหลดตอนเปิดหน้าจนกว่าจะถูกพบแบบ live
+  const isLiveAlert = useCallback(
+    (alert: AlertItem) => alertSubjects.some((subject) => subject.obj_id === alert.obj_id && subject.seenLive),
+    [alertSubjects],
+  );
+  const alarms = useAlarms(alertQueue.alerts, describeAlert, isLiveAlert);
+
+  const zoneMapProps = {
+    zones,
+    editingZoneId,
+    onZoneCreate: handleZoneCreate,
+    onZoneShapeChange: handleZoneShapeChange,
+    onZoneEditDone: () => setEditingZoneId(null),
+  };
+
+  const handleStartRecording = () =>
+    recorder.start(sources.kind, [
+      { source: feeds.defensive, events: defensiveFeed.events },
+      { source: feeds.offensive, events: offensiveFeed.events },
+    ]);
+
+  const handleLoadSession = (entries: RecordedEntry[], fileName: string) => {
+    setSources(createSessionReplaySources(entries));
+    setReplayFileName(fileName);
+  };
+
+  const handleExitReplay = () => {
+    setSources(createDetectionSources());
+    setReplayFileName(null);
+  };
+
   return (
     <LocalizationProvider dateAdapter={AdapterDayjs}>
       <Container
@@ -1073,6 +1719,80 @@ const DashboardPage = () => {
           overflow: 'hidden',
         }}
       >
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+          <Chip
+            icon={<Icon icon={SOURCE_ICONS[sources.kind]} />}
+            label={replayFileName ? `Replay: ${replayFileName}` : `Source: ${sources.kind}`}
+            size="small"
+            variant="outlined"
+          />
+          {recording.isRecording && (
+            <Chip
+              icon={<Icon icon="mdi:record-circle" />}
+              label={`REC ${recording.eventCount}`}
+              color="error"
+              size="small"
+            />
+          )}
+          <Box sx={{ flexGrow: 1 }} />
+          <TrailLengthControl
+            mode={trailMode}
+            value={trailValue}
+            onChange={(mode, value) => {
+              setTrailMode(mode);
+              setTrailValue(value);
+            }}
+          />
+          <Button
+            size="small"
+            variant="outlined"
+            color={alertQueue.openCount > 0 ? 'error' : 'primary'}
+            startIcon={<Icon icon="mdi:bell-alert-outline" />}
+            onClick={() => setOpenToolPanel('alerts')}
+            sx={{ textTransform: 'none' }}
+          >
+            Alerts{alertQueue.openCount > 0 ? ` (${alertQueue.openCount})` : ''}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<Icon icon="mdi:target-account" />}
+            onClick={() => setOpenToolPanel('assignment')}
+            sx={{ textTransform: 'none' }}
+          >
+            Assign
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<Icon icon="mdi:vector-polygon" />}
+            onClick={() => setOpenToolPanel('zones')}
+            sx={{ textTransform: 'none' }}
+          >
+            Zones
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<Icon icon="mdi:record-rec" />}
+            onClick={() => setOpenToolPanel('session')}
+            sx={{ textTransform: 'none' }}
+          >
+            Session
+          </Button>
+          {sources.simulator && (
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<Icon icon="mdi:play-network-outline" />}
+              onClick={() => setOpenToolPanel('simulator')}
+              sx={{ textTransform: 'none' }}
+            >
+              Simulator
+            </Button>
+          )}
+        </Stack>
+
         <Box
           sx={{
             flexGrow: 1,
@@ -1094,7 +1814,16 @@ const DashboardPage = () => {
                 event={defensiveLatest}
                 defaultCameraLocation="defence"
                 objects={defensiveObjects.map(({ object }) => object)}
+                tracks={trailMode === 'off' ? undefined : defensiveTracks}
+                trailLength={trailLength}
+                motionEstimates={defensiveEstimates}
+                predictions={defensivePredictions}
+                radiusCrossings={defensiveCrossings}
+                intercepts={defensiveInterceptList}
+                threats={defensiveThreats}
+                {...zoneMapProps}
                 detectionRadius={defensiveRadius}
+                defenceRings={defensiveRings}
                 defaultLocation={defensiveDefaultLocation}
                 onDefaultLocationChange={setDefensiveDefaultLocation}
               />
@@ -1102,8 +1831,20 @@ const DashboardPage = () => {
             <Grid size={{ xs: 12, md: 6, lg: 2 }} sx={{ height: '100%', minHeight: 0 }}>
               <DefensiveAlertPanel
                 feed={defensiveFeed}
-                detectionRadius={defensiveRadius}
-                onRadiusChange={setDefensiveRadius}
+                latestEvent={defensiveLatest}
+                latestObjects={defensiveObjects}
+                motionEstimates={defensiveEstimates}
+                radiusCrossings={defensiveCrossings}
+                threats={defensiveThreats}
+                threatWeights={threatWeights}
+                onThreatWeightsChange={setThreatWeights}
+                rings={defensiveRings}
+                onRingsChange={setDefensiveRings}
+                intercepts={defensiveIntercepts}
+                interceptors={interceptors}
+                onAddInterceptor={addInterceptor}
+                onUpdateInterceptor={updateInterceptor}
+                onRemoveInterceptor={removeInterceptor}
                 defaultLocation={defensiveDefaultLocation}
               />
             </Grid>
@@ -1113,6 +1854,7 @@ const DashboardPage = () => {
                 feed={defensiveFeed}
                 title="Object Detection"
                 compact
+                threats={defensiveThreats}
                 onShowDetail={setDetailDetection}
               />
             </Grid>
@@ -1123,8 +1865,9 @@ const DashboardPage = () => {
                 events={defensiveFeed.events}
                 enableDetails
                 onShowDetail={setDetailDetection}
-                camId={droneProfiles.defensive.camId}
-                token={droneProfiles.defensive.token}
+                camId={sources.feeds.defensive.canClearHistory ? sources.feeds.defensive.camId : undefined}
+                token={sources.feeds.defensive.canClearHistory ? sources.feeds.defensive.profile.token : undefined}
+                onCleared={defensiveFeed.reset}
               />
             </Grid>
           </Grid>
@@ -1142,6 +1885,12 @@ const DashboardPage = () => {
                 defaultCameraLocation="offence"
                 focusPoint={offensiveFocus}
                 objects={offensiveObjects.map(({ object }) => object)}
+                tracks={trailMode === 'off' ? undefined : offensiveTracks}
+                trailLength={trailLength}
+                motionEstimates={offensiveEstimates}
+                predictions={offensivePredictions}
+                missionProgress={offensiveMissionProgress}
+                {...zoneMapProps}
                 defaultLocation={DEFAULT_OFFENCE_LOCATION}
               />
             </Grid>
@@ -1150,6 +1899,8 @@ const DashboardPage = () => {
               <DroneListPanel
                 feed={offensiveFeed}
                 latestObjects={offensiveObjects}
+                motionEstimates={offensiveEstimates}
+                missionProgress={offensiveMissionProgress}
                 onSelect={handleDroneSelect}
                 selectedId={selectedDroneId}
               />
@@ -1162,14 +1913,74 @@ const DashboardPage = () => {
                 events={offensiveFeed.events}
                 enableDetails
                 onShowDetail={setDetailDetection}
-                camId={droneProfiles.offensive.camId}
-                token={droneProfiles.offensive.token}
+                camId={sources.feeds.offensive.canClearHistory ? sources.feeds.offensive.camId : undefined}
+                token={sources.feeds.offensive.canClearHistory ? sources.feeds.offensive.profile.token : undefined}
+                onCleared={offensiveFeed.reset}
               />
             </Grid>
           </Grid>
         </Box>
 
+        <TimelineControl range={timeRange} timeline={timeline} />
+
         <DetectionDetailDialog detection={detailDetection} onClose={handleCloseDetail} />
+
+        {sources.simulator && (
+          <ToolPanelDrawer title="Simulator" open={openToolPanel === 'simulator'} onClose={closeToolPanel}>
+            <SimulatorControlPanel engine={sources.simulator} />
+          </ToolPanelDrawer>
+        )}
+
+        <ToolPanelDrawer title="Alerts" open={openToolPanel === 'alerts'} onClose={closeToolPanel}>
+          <Stack spacing={2}>
+            <AlarmSettingsPanel alarms={alarms} />
+            <AlertQueuePanel
+              alerts={alertQueue.alerts}
+              rules={alertRules}
+              zones={zones}
+              onAcknowledge={alertQueue.acknowledge}
+              onSnooze={alertQueue.snooze}
+              onResolve={alertQueue.resolve}
+              onAddRule={addRule}
+              onUpdateRule={updateRule}
+              onRemoveRule={removeRule}
+              onResetRules={resetRules}
+            />
+          </Stack>
+        </ToolPanelDrawer>
+
+        <ToolPanelDrawer title="Interceptor assignment" open={openToolPanel === 'assignment'} onClose={closeToolPanel}>
+          <AssignmentPanel
+            result={assignmentResult}
+            interceptors={interceptors}
+            threats={defensiveThreats}
+            strategy={assignmentStrategy}
+            onStrategyChange={setAssignmentStrategy}
+            onPin={handleAssignmentPin}
+          />
+        </ToolPanelDrawer>
+
+        <ToolPanelDrawer title="Zones" open={openToolPanel === 'zones'} onClose={closeToolPanel}>
+          <GeofencePanel
+            zones={zones}
+            events={geofence.events}
+            occupants={geofence.occupants}
+            onUpdateZone={updateZone}
+            onRemoveZone={handleRemoveZone}
+            onEditShape={handleEditZoneShape}
+            onClearEvents={geofence.clearEvents}
+          />
+        </ToolPanelDrawer>
+
+        <ToolPanelDrawer title="Session" open={openToolPanel === 'session'} onClose={closeToolPanel}>
+          <SessionPanel
+            recorder={recorder}
+            replay={sources.replay}
+            onStartRecording={handleStartRecording}
+            onLoadSession={handleLoadSession}
+            onExitReplay={replayFileName ? handleExitReplay : undefined}
+          />
+        </ToolPanelDrawer>
       </Container>
     </LocalizationProvider>
   );
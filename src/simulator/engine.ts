@@ -0,0 +1,237 @@
+/**
+ * Engine จำลองการบินของโดรนสำหรับสร้าง detection events สังเคราะห์
+ * แต่ละโดรนบินตาม path (waypoints) ด้วยความเร็วคงที่ และถูกกล้องฝั่งที่กำหนดตรวจเห็น
+ * เวลาในการจำลองเดินตาม time scale ที่ปรับได้ และหยุด/เล่นต่อได้จาก control panel
+ */
+
+import { type CameraLocationKey } from '../config/locations';
+import { type DetectedObject, type LatLng } from '../types/detection';
+import { calculateBearingDegrees, calculateDistanceMeters, destinationPoint } from '../utils/geo';
+
+export interface SimulatedDrone {
+  obj_id: string;
+  type: string;
+  objective: string;
+  size: string;
+  camera: CameraLocationKey;     // กล้องฝั่งที่ตรวจเห็นโดรนตัวนี้
+  path: LatLng[];                // waypoints ตามลำดับ (อย่างน้อย 2 จุด)
+  speed: number;                 // m/s
+  alt: number;                   // m
+  target?: LatLng | null;        // tar_lat / tar_lng ที่รายงานใน telemetry
+  startDelaySec?: number;        // เริ่มบินหลังเริ่ม scenario กี่วินาที
+  loop?: boolean;                // บินซ้ำเมื่อถึงปลาย path
+}
+
+export interface SimulationScenario {
+  id: string;
+  name: string;
+  description: string;
+  drones: SimulatedDrone[];
+}
+
+export interface SimulationFrame {
+  timestamp: string;
+  camera: CameraLocationKey;
+  objects: DetectedObject[];
+}
+
+export type SimulationRunState = 'ready' | 'running' | 'paused' | 'finished';
+
+export interface SimulationState {
+  scenario: SimulationScenario;
+  runState: SimulationRunState;
+  timeScale: number;             // 1 = เวลาจริง, 2 = เร็วขึ้น 2 เท่า
+  elapsedSec: number;            // เวลาในการจำลองนับจากเริ่ม scenario
+  activeDrones: number;          // จำนวนโดรนที่กำลังบินอยู่
+}
+
+type FrameListener = (frame: SimulationFrame) => void;
+
+const pathLength = (path: LatLng[]) =>
+  path.slice(1).reduce((total, point, index) => total + calculateDistanceMeters(path[index], point), 0);
+
+// ตำแหน่งบน path เมื่อบินมาได้ distance เมตร (null = เกินปลาย path)
+const positionAlongPath = (path: LatLng[], distance: number): LatLng | null => {
+  let remaining = distance;
+  for (let i = 1; i < path.length; i++) {
+    const segment = calculateDistanceMeters(path[i - 1], path[i]);
+    if (remaining <= segment) {
+      return destinationPoint(path[i - 1], calculateBearingDegrees(path[i - 1], path[i]), remaining);
+    }
+    remaining -= segment;
+  }
+  return null;
+};
+
+// null = ยังไม่ออกบินหรือบินจบแล้ว
+export const getDronePosition = (drone: SimulatedDrone, elapsedSec: number): LatLng | null => {
+  const flightTime = elapsedSec - (drone.startDelaySec ?? 0);
+  if (flightTime < 0 || drone.path.length < 2) return null;
+
+  const total = pathLength(drone.path);
+  let distance = flightTime * drone.speed;
+  if (drone.loop && total > 0) distance %= total;
+  if (distance > total) return null;
+  return positionAlongPath(drone.path, distance);
+};
+
+const isDroneFinished = (drone: SimulatedDrone, elapsedSec: number) =>
+  !drone.loop && (elapsedSec - (drone.startDelaySec ?? 0)) * drone.speed > pathLength(drone.path);
+
+const toDetectedObject = (drone: SimulatedDrone, position: LatLng): DetectedObject => ({
+  obj_id: drone.obj_id,
+  type: drone.type,
+  lat: position.lat,
+  lng: position.lng,
+  objective: drone.objective,
+  size: drone.size,
+  speed: drone.speed,
+  details: {
+    lat: position.lat,
+    lng: position.lng,
+    speed: drone.speed,
+    alt: drone.alt,
+    ...(drone.target ? { tar_lat: drone.target.lat, tar_lng: drone.target.lng } : {}),
+  },
+  target: drone.target ?? null,
+});
+
+export const buildFrames = (drones: SimulatedDrone[], elapsedSec: number, timestamp: string) => {
+  const byCamera = new Map<CameraLocationKey, DetectedObject[]>();
+  drones.forEach((drone) => {
+    const position = getDronePosition(drone, elapsedSec);
+    if (!position) return;
+    const list = byCamera.get(drone.camera) ?? [];
+    list.push(toDetectedObject(drone, position));
+    byCamera.set(drone.camera, list);
+  });
+
+  return Array.from(byCamera.entries()).map<SimulationFrame>(([camera, objects]) => ({
+    timestamp,
+    camera,
+    objects,
+  }));
+};
+
+type SimulationEngineOptions = {
+  tickMs?: number;               // ระยะห่างระหว่าง frame (เวลาจริง)
+  autoStart?: boolean;           // เริ่มเล่นทันทีเมื่อมีผู้ subscribe
+};
+
+export const createSimulationEngine = (
+  initialScenario: SimulationScenario,
+  { tickMs = 1000, autoStart = true }: SimulationEngineOptions = {},
+) => {
+  const frameListeners = new Set<FrameListener>();
+  const stateListeners = new Set<() => void>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  // timestamp ของ frame = เวลาที่เริ่ม scenario + เวลาในการจำลอง
+  let clockOrigin = Date.now();
+  // true = หยุดเองเพราะไม่มีผู้ subscribe (ไม่ใช่ผู้ใช้กด pause) จะเล่นต่อเมื่อมีผู้ subscribe กลับมา
+  let autoPaused = false;
+  let state: SimulationState = {
+    scenario: initialScenario,
+    runState: 'ready',
+    timeScale: 1,
+    elapsedSec: 0,
+    activeDrones: 0,
+  };
+
+  const setState = (patch: Partial<SimulationState>) => {
+    state = { ...state, ...patch };
+    stateListeners.forEach((listener) => listener());
+  };
+
+  const emitFrames = () => {
+    const timestamp = new Date(clockOrigin + state.elapsedSec * 1000).toISOString();
+    const frames = buildFrames(state.scenario.drones, state.elapsedSec, timestamp);
+    frames.forEach((frame) => frameListeners.forEach((listener) => listener(frame)));
+    return frames.reduce((total, frame) => total + frame.objects.length, 0);
+  };
+
+  const stopTimer = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const tick = () => {
+    const elapsedSec = state.elapsedSec + (tickMs / 1000) * state.timeScale;
+    state = { ...state, elapsedSec };
+    const activeDrones = emitFrames();
+    const finished = state.scenario.drones.every((drone) => isDroneFinished(drone, elapsedSec));
+    if (finished) stopTimer();
+    setState({ activeDrones, runState: finished ? 'finished' : 'running' });
+  };
+
+  const start = () => {
+    autoPaused = false;
+    if (state.runState === 'running') return;
+    if (state.runState === 'finished') reset();
+    if (state.elapsedSec === 0) clockOrigin = Date.now();
+    stopTimer();
+    timer = setInterval(tick, tickMs);
+    setState({ runState: 'running' });
+  };
+
+  const pause = () => {
+    autoPaused = false;
+    if (state.runState !== 'running') return;
+    stopTimer();
+    setState({ runState: 'paused' });
+  };
+
+  const reset = () => {
+    autoPaused = false;
+    stopTimer();
+    clockOrigin = Date.now();
+    setState({ runState: 'ready', elapsedSec: 0, activeDrones: 0 });
+  };
+
+  const setTimeScale = (timeScale: number) => {
+    if (!Number.isFinite(timeScale) || timeScale <= 0) return;
+    setState({ timeScale });
+  };
+
+  const loadScenario = (scenario: SimulationScenario) => {
+    reset();
+    setState({ scenario });
+  };
+
+  // แก้ค่าโดรนใน scenario ปัจจุบัน (เช่น ความเร็ว, ความสูง) มีผลตั้งแต่ frame ถัดไป
+  const updateDrone = (objId: string, patch: Partial<Omit<SimulatedDrone, 'obj_id'>>) => {
+    const drones = state.scenario.drones.map((drone) => (drone.obj_id === objId ? { ...drone, ...patch } : drone));
+    setState({ scenario: { ...state.scenario, drones } });
+  };
+
+  const subscribe = (listener: FrameListener) => {
+    frameListeners.add(listener);
+    if ((autoStart && state.runState === 'ready') || (autoPaused && state.runState === 'paused')) start();
+    return () => {
+      frameListeners.delete(listener);
+      if (frameListeners.size > 0 || state.runState !== 'running') return;
+      pause();
+      autoPaused = true;
+    };
+  };
+
+  const subscribeState = (listener: () => void) => {
+    stateListeners.add(listener);
+    return () => {
+      stateListeners.delete(listener);
+    };
+  };
+
+  return {
+    subscribe,
+    subscribeState,
+    getState: () => state,
+    start,
+    pause,
+    reset,
+    setTimeScale,
+    loadScenario,
+    updateDrone,
+  };
+};
+
+export type SimulationEngine = ReturnType<typeof createSimulationEngine>;
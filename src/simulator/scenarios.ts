@@ -0,0 +1,133 @@
+/**
+ * Scenario สำหรับ simulator: โดรนบินตาม waypoints จากพื้นที่ offence เข้าหา DEFAULT_DEFENCE_LOCATION
+ * ใช้สำหรับฝึกซ้อมและตรวจสอบ regression ของ panel ต่าง ๆ
+ */
+
+import { DEFAULT_DEFENCE_LOCATION, DEFAULT_OFFENCE_LOCATION } from '../config/locations';
+import { type LatLng } from '../types/detection';
+import { calculateBearingDegrees, destinationPoint } from '../utils/geo';
+import { type SimulatedDrone, type SimulationScenario } from './engine';
+
+// ทิศจากจุดป้องกันไปยังพื้นที่ offence (ใช้วางจุดเริ่มต้นของผู้บุกรุก)
+const OFFENCE_BEARING = calculateBearingDegrees(DEFAULT_DEFENCE_LOCATION, DEFAULT_OFFENCE_LOCATION);
+
+// จุดรอบจุดป้องกัน: bearing เทียบกับทิศ offence (องศา) และระยะ (เมตร)
+const aroundDefence = (relativeBearing: number, distance: number): LatLng =>
+  destinationPoint(DEFAULT_DEFENCE_LOCATION, OFFENCE_BEARING + relativeBearing, distance);
+
+const aroundOffence = (bearing: number, distance: number): LatLng =>
+  destinationPoint(DEFAULT_OFFENCE_LOCATION, bearing, distance);
+
+const intruder = (
+  objId: string,
+  path: LatLng[],
+  overrides: Partial<SimulatedDrone> = {},
+): SimulatedDrone => ({
+  obj_id: objId,
+  type: 'drone',
+  objective: 'enemy',
+  size: 'small',
+  camera: 'defence',
+  path,
+  speed: 12,
+  alt: 60,
+  target: DEFAULT_DEFENCE_LOCATION,
+  ...overrides,
+});
+
+const patrol: SimulatedDrone = {
+  obj_id: 'sim_101',
+  type: 'drone',
+  objective: 'our',
+  size: 'small',
+  camera: 'offence',
+  path: [DEFAULT_OFFENCE_LOCATION, aroundOffence(0, 300), aroundOffence(90, 300), DEFAULT_OFFENCE_LOCATION],
+  speed: 7,
+  alt: 50,
+  target: aroundOffence(90, 300),
+  loop: true,
+};
+
+export const SIMULATION_SCENARIOS: SimulationScenario[] = [
+  {
+    id: 'patrol-and-probe',
+    name: 'Patrol and probe',
+    description: 'Two intruders approach the defended point while our drone patrols the offence area.',
+    drones: [
+      intruder('sim_001', [aroundDefence(-10, 1800), DEFAULT_DEFENCE_LOCATION], { loop: true, alt: 80 }),
+      intruder('sim_002', [aroundDefence(25, 1900), aroundDefence(80, 400), DEFAULT_DEFENCE_LOCATION], {
+        size: 'medium',
+        speed: 9,
+        startDelaySec: 20,
+        loop: true,
+      }),
+      patrol,
+    ],
+  },
+  {
+    id: 'direct-strike',
+    name: 'Direct strike',
+    description: 'A single fast, low intruder flies straight at the defended point.',
+    drones: [intruder('sim_001', [aroundDefence(0, 2200), DEFAULT_DEFENCE_LOCATION], { speed: 20, alt: 35 })],
+  },
+  {
+    id: 'swarm',
+    name: 'Swarm attack',
+    description: 'Five small intruders launch in waves and converge from different angles.',
+    drones: [-40, -20, 0, 20, 40].map((offset, index) =>
+      intruder(
+        `sim_${String(index + 1).padStart(3, '0')}`,
+        [aroundDefence(offset, 2000), aroundDefence(offset / 2, 700), DEFAULT_DEFENCE_LOCATION],
+        { speed: 10 + index, alt: 40 + index * 10, startDelaySec: index * 8 },
+      ),
+    ),
+  },
+  {
+    id: 'mixed-traffic',
+    name: 'Mixed traffic',
+    description: 'An enemy intruder hides among a friendly patrol and an unknown drone crossing the area.',
+    drones: [
+      intruder('sim_001', [aroundDefence(10, 2000), aroundDefence(-30, 900), DEFAULT_DEFENCE_LOCATION], {
+        size: 'medium',
+        speed: 8,
+      }),
+      intruder('sim_201', [aroundDefence(-90, 1200), aroundDefence(90, 1200)], {
+        objective: 'unknown',
+        size: 'large',
+        speed: 15,
+        alt: 120,
+        target: aroundDefence(90, 1200),
+        loop: true,
+      }),
+      intruder('sim_301', [aroundDefence(180, 300), aroundDefence(90, 300), aroundDefence(0, 300), aroundDefence(-90, 300)], {
+        objective: 'our',
+        speed: 6,
+        alt: 45,
+        target: null,
+        loop: true,
+      }),
+      patrol,
+    ],
+  },
+  {
+    id: 'loiter-then-dive',
+    name: 'Loiter then dive',
+    description: 'An intruder loiters outside the early-warning ring, then dives at the defended point.',
+    drones: [
+      intruder(
+        'sim_001',
+        [
+          aroundDefence(-30, 1900),
+          aroundDefence(0, 1800),
+          aroundDefence(30, 1900),
+          aroundDefence(0, 2000),
+          aroundDefence(-30, 1900),
+          DEFAULT_DEFENCE_LOCATION,
+        ],
+        { speed: 14, alt: 90 },
+      ),
+    ],
+  },
+];
+
+export const DEFAULT_SCENARIO = SIMULATION_SCENARIOS[0];
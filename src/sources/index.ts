@@ -0,0 +1,66 @@
+/**
+ * สร้าง DetectionSource ของทุกกล้องตามชนิดที่เลือก
+ */
+
+import { droneProfiles, type DroneProfileKey } from '../config/droneProfiles';
+import { detectionSourceConfig } from '../config/detectionSource';
+import { createSimulationEngine, type SimulationEngine } from '../simulator/engine';
+import { DEFAULT_SCENARIO } from '../simulator/scenarios';
+import { createLiveSource } from './liveSource';
+import { type RecordedEntry } from '../types/session';
+import { createReplayPlayer, createReplaySource, loadReplayFile, type ReplayPlayer } from './replaySource';
+import { createSimulatorSource } from './simulatorSource';
+import { type DetectionSource, type DetectionSourceKind } from './types';
+
+export interface DetectionSourceSet {
+  kind: DetectionSourceKind;
+  feeds: Record<DroneProfileKey, DetectionSource>;
+  simulator?: SimulationEngine;  // มีเฉพาะ kind = 'simulator'
+  replay?: ReplayPlayer;         // มีเฉพาะ kind = 'replay'
+}
+
+const createReplaySources = (loadEntries: () => Promise<RecordedEntry[]>): DetectionSourceSet => {
+  const player = createReplayPlayer(loadEntries);
+  return {
+    kind: 'replay',
+    feeds: {
+      offensive: createReplaySource(player, droneProfiles.offensive),
+      defensive: createReplaySource(player, droneProfiles.defensive),
+    },
+    replay: player,
+  };
+};
+
+// เล่น session ที่โหลดจากไฟล์บนเครื่อง (เช่น ไฟล์ที่ดาวน์โหลดจากการบันทึก)
+export const createSessionReplaySources = (entries: RecordedEntry[]): DetectionSourceSet =>
+  createReplaySources(async () => entries);
+
+export const createDetectionSources = (
+  kind: DetectionSourceKind = detectionSourceConfig.kind,
+): DetectionSourceSet => {
+  switch (kind) {
+    case 'replay':
+      return createReplaySources(() => loadReplayFile(detectionSourceConfig.replayFileUrl));
+    case 'simulator': {
+      const engine = createSimulationEngine(DEFAULT_SCENARIO);
+      return {
+        kind,
+        feeds: {
+          offensive: createSimulatorSource(engine, droneProfiles.offensive),
+          defensive: createSimulatorSource(engine, droneProfiles.defensive),
+        },
+        simulator: engine,
+      };
+    }
+    default:
+      return {
+        kind: 'live',
+        feeds: {
+          offensive: createLiveSource(droneProfiles.offensive),
+          defensive: createLiveSource(droneProfiles.defensive),
+        },
+      };
+  }
+};
+
+export type { DetectionSource, DetectionSourceKind, HistoryRange } from './types';
@@ -0,0 +1,30 @@
+/**
+ * DetectionSource จาก TESA API: history ผ่าน REST และ event live ผ่าน Socket.IO (connection เดียวกันทุกกล้อง)
+ */
+
+import { getDetectionsInRange, getRecentDetections } from '../api/detection';
+import { socketManager } from '../api/socketManager';
+import { type DroneProfile } from '../config/droneProfiles';
+import { type DetectionSource } from './types';
+
+// refetch history ทุกๆ 30 วินาที
+const HISTORY_REFRESH_MS = 30000;
+
+export const createLiveSource = (profile: DroneProfile): DetectionSource => {
+  const { camId, token } = profile;
+
+  return {
+    kind: 'live',
+    camId,
+    profile,
+    isReady: Boolean(camId && token),
+    canClearHistory: true,
+    historyRefreshMs: HISTORY_REFRESH_MS,
+    loadHistory: (range) =>
+      range ? getDetectionsInRange(camId, token, range) : getRecentDetections(camId, token),
+    subscribe: (listener) => socketManager.subscribeCamera(camId, listener),
+    subscribeStatus: socketManager.subscribeConnection,
+    getStatus: socketManager.getConnection,
+    retry: socketManager.retry,
+  };
+};
@@ -0,0 +1,180 @@
+/**
+ * DetectionSource ที่เล่นข้อมูลจากไฟล์ session หรือไฟล์ event list ซ้ำตามจังหวะเวลาเดิม
+ * ทุกกล้องใช้ player ตัวเดียวกัน จึงเล่นไปพร้อมกันบน timeline เดียว
+ * ปรับความเร็ว (1x, 2x, 10x), หยุดชั่วคราว และเดินทีละ entry ได้
+ */
+
+import { type DroneProfile } from '../config/droneProfiles';
+import { type DetectionEvent } from '../types/detection';
+import { type RecordedEntry } from '../types/session';
+import { reportPayloadIssues } from '../utils/payloadIssueLog';
+import { parseSessionFile } from '../utils/sessionFile';
+import { createSourceStatus } from './sourceStatus';
+import { type DetectionSource } from './types';
+
+type ReplayListener = (event: DetectionEvent, entry: RecordedEntry) => void;
+
+export type ReplayRunState = 'loading' | 'ready' | 'playing' | 'paused' | 'finished' | 'error';
+
+export interface ReplayState {
+  runState: ReplayRunState;
+  speed: number;                 // 1 = ตามเวลาจริงของการบันทึก
+  cursor: number;                // จำนวน entry ที่เล่นไปแล้ว
+  total: number;
+  positionMs: number;            // ตำแหน่งบน timeline ของ entry ล่าสุดที่เล่น
+  durationMs: number;
+}
+
+export const REPLAY_SPEEDS = [1, 2, 10];
+
+export const loadReplayFile = async (url: string): Promise<RecordedEntry[]> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Unable to load replay file (${response.status})`);
+  const { entries, issues } = parseSessionFile(await response.json());
+  reportPayloadIssues(issues);
+  return entries;
+};
+
+export const createReplayPlayer = (loadEntries: () => Promise<RecordedEntry[]>) => {
+  const status = createSourceStatus();
+  const listeners = new Set<ReplayListener>();
+  const stateListeners = new Set<() => void>();
+  let entries: RecordedEntry[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let started = false;
+  // เพิ่มทุกครั้งที่ stop() ผลของ loadEntries() รอบก่อนที่มาถึงช้าจะถูกทิ้ง
+  let generation = 0;
+  let state: ReplayState = { runState: 'loading', speed: 1, cursor: 0, total: 0, positionMs: 0, durationMs: 0 };
+
+  const setState = (patch: Partial<ReplayState>) => {
+    state = { ...state, ...patch };
+    stateListeners.forEach((listener) => listener());
+  };
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  // ส่ง entry ถัดไปให้ทุก listener คืน false เมื่อเล่นครบแล้ว
+  const emitNext = () => {
+    const entry = entries[state.cursor];
+    if (!entry) return false;
+    entry.events.forEach((event) => listeners.forEach((listener) => listener(event, entry)));
+    const cursor = state.cursor + 1;
+    const finished = cursor >= entries.length;
+    setState({ cursor, positionMs: entry.offsetMs, ...(finished ? { runState: 'finished' } : {}) });
+    if (finished) status.dispatch({ type: 'finished' });
+    return !finished;
+  };
+
+  // รอตามช่วงห่างของเวลาเดิมหารด้วยความเร็ว แล้วส่ง entry ถัดไป
+  const scheduleNext = () => {
+    clearTimer();
+    const next = entries[state.cursor];
+    if (!next || state.runState !== 'playing') return;
+    const delay = Math.max(0, next.offsetMs - state.positionMs) / state.speed;
+    timer = setTimeout(() => {
+      if (emitNext()) scheduleNext();
+    }, delay);
+  };
+
+  const play = () => {
+    if (state.runState !== 'ready' && state.runState !== 'paused') return;
+    setState({ runState: 'playing' });
+    scheduleNext();
+  };
+
+  const pause = () => {
+    if (state.runState !== 'playing') return;
+    clearTimer();
+    setState({ runState: 'paused' });
+  };
+
+  // เล่น entry ถัดไปทันทีแล้วหยุดรอ
+  const step = () => {
+    if (state.runState === 'loading' || state.runState === 'error' || state.runState === 'finished') return;
+    clearTimer();
+    if (emitNext()) setState({ runState: 'paused' });
+  };
+
+  const setSpeed = (speed: number) => {
+    if (!Number.isFinite(speed) || speed <= 0) return;
+    setState({ speed });
+    if (state.runState === 'playing') scheduleNext();
+  };
+
+  const start = () => {
+    if (started) return;
+    started = true;
+    status.dispatch({ type: 'start', maxAttempts: 0 });
+    const current = generation;
+
+    loadEntries()
+      .then((loaded) => {
+        if (current !== generation) return;
+        entries = [...loaded].sort((a, b) => a.offsetMs - b.offsetMs);
+        const durationMs = entries.length > 0 ? entries[entries.length - 1].offsetMs : 0;
+        const firstOffset = entries.length > 0 ? entries[0].offsetMs : 0;
+        setState({ runState: 'ready', cursor: 0, total: entries.length, positionMs: firstOffset, durationMs });
+        status.dispatch({ type: 'connected' });
+        play();
+      })
+      .catch((error: unknown) => {
+        if (current !== generation) return;
+        setState({ runState: 'error' });
+        status.dispatch({ type: 'error', message: error instanceof Error ? error.message : 'Replay failed' });
+        status.dispatch({ type: 'reconnect_failed' });
+      });
+  };
+
+  const stop = () => {
+    clearTimer();
+    started = false;
+    generation += 1;
+    setState({ runState: 'loading', cursor: 0, positionMs: 0 });
+    status.dispatch({ type: 'stop' });
+  };
+
+  const subscribe = (listener: ReplayListener) => {
+    listeners.add(listener);
+    start();
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) stop();
+    };
+  };
+
+  const subscribeState = (listener: () => void) => {
+    stateListeners.add(listener);
+    return () => {
+      stateListeners.delete(listener);
+    };
+  };
+
+  return { subscribe, status, subscribeState, getState: () => state, play, pause, step, setSpeed };
+};
+
+export type ReplayPlayer = ReturnType<typeof createReplayPlayer>;
+
+// ไฟล์ replay อาจมาจากกล้องชุดอื่น จึงจับคู่ด้วย location ของกล้องหรือของ feed ที่บันทึกได้ด้วย
+const matchesProfile = (event: DetectionEvent, entry: RecordedEntry, profile: DroneProfile) =>
+  event.cam_id === profile.camId ||
+  (entry.location || event.camera?.location) === profile.location;
+
+export const createReplaySource = (player: ReplayPlayer, profile: DroneProfile): DetectionSource => ({
+  kind: 'replay',
+  camId: profile.camId || `replay-${profile.location}`,
+  profile,
+  isReady: true,
+  canClearHistory: false,
+  historyRefreshMs: false,
+  // ไฟล์ replay ส่งทุกอย่างผ่าน subscribe ตามเวลา จึงไม่มี history ล่วงหน้า
+  loadHistory: async () => ({ success: true, data: [] }),
+  subscribe: (listener) =>
+    player.subscribe((event, entry) => {
+      if (matchesProfile(event, entry, profile)) listener(event);
+    }),
+  subscribeStatus: player.status.subscribe,
+  getStatus: player.status.get,
+});
@@ -0,0 +1,108 @@
+/**
+ * บันทึกทุกอย่างที่ DetectionSource ส่งให้ dashboard (history จาก REST และ event จาก socket)
+ * เป็น session ที่ดาวน์โหลดเป็น JSON แล้วนำกลับมา replay ได้ โดยไม่ต้องพึ่งข้อมูลบน server
+ */
+
+import { type DetectionEvent } from '../types/detection';
+import { type RecordedChannel, type RecordedEntry, type SessionRecording } from '../types/session';
+import { getDetectionEventKey } from '../utils/detectionStore';
+import { SESSION_FORMAT } from '../utils/sessionFile';
+import { type DetectionSource } from './types';
+
+export interface SessionRecorderState {
+  isRecording: boolean;
+  startedAt: string | null;      // ISO 8601 ของการบันทึกล่าสุด
+  entryCount: number;
+  eventCount: number;
+}
+
+export const createSessionRecorder = () => {
+  const listeners = new Set<() => void>();
+  let entries: RecordedEntry[] = [];
+  let sourceKind = '';
+  let startedAtMs = 0;
+  let endedAtMs: number | null = null;
+  // REST ถูกโหลดซ้ำทุกรอบ จึงเก็บเฉพาะ event ที่ยังไม่เคยบันทึก
+  let recordedKeys = new Set<string>();
+  let state: SessionRecorderState = { isRecording: false, startedAt: null, entryCount: 0, eventCount: 0 };
+
+  const setState = (patch: Partial<SessionRecorderState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const record = (channel: RecordedChannel, source: DetectionSource, events: DetectionEvent[]) => {
+    if (!state.isRecording) return;
+
+    const fresh = channel === 'rest' ? events.filter((event) => !recordedKeys.has(getDetectionEventKey(event))) : events;
+    if (fresh.length === 0) return;
+    fresh.forEach((event) => recordedKeys.add(getDetectionEventKey(event)));
+
+    const now = Date.now();
+    entries.push({
+      offsetMs: now - startedAtMs,
+      receivedAt: new Date(now).toISOString(),
+      channel,
+      cam_id: source.camId,
+      location: source.profile.location,
+      events: fresh,
+    });
+    setState({ entryCount: entries.length, eventCount: state.eventCount + fresh.length });
+  };
+
+  // baseline = ข้อมูลที่ dashboard มีอยู่แล้วตอนเริ่มบันทึก (บันทึกเป็น REST ที่เวลา 0)
+  const start = (kind: string, baseline: { source: DetectionSource; events: DetectionEvent[] }[] = []) => {
+    if (state.isRecording) return;
+    entries = [];
+    recordedKeys = new Set();
+    sourceKind = kind;
+    startedAtMs = Date.now();
+    endedAtMs = null;
+    setState({ isRecording: true, startedAt: new Date(startedAtMs).toISOString(), entryCount: 0, eventCount: 0 });
+    baseline.forEach(({ source, events }) => record('rest', source, events));
+  };
+
+  const stop = () => {
+    if (!state.isRecording) return;
+    endedAtMs = Date.now();
+    setState({ isRecording: false });
+  };
+
+  const toSession = (): SessionRecording | null => {
+    if (!state.startedAt) return null;
+    return {
+      format: SESSION_FORMAT,
+      version: 1,
+      startedAt: state.startedAt,
+      endedAt: new Date(endedAtMs ?? Date.now()).toISOString(),
+      sourceKind,
+      entries: [...entries],
+    };
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { start, stop, record, toSession, subscribe, getState: () => state };
+};
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
+
+// ครอบ source เดิมให้ส่งข้อมูลที่ได้รับเข้า recorder ด้วย (บันทึกเฉพาะตอนกำลังอัด)
+export const withRecording = (source: DetectionSource, recorder: SessionRecorder): DetectionSource => ({
+  ...source,
+  loadHistory: async (range) => {
+    const response = await source.loadHistory(range);
+    recorder.record('rest', source, response.data);
+    return response;
+  },
+  subscribe: (listener) =>
+    source.subscribe((event) => {
+      recorder.record('socket', source, [event]);
+      listener(event);
+    }),
+});
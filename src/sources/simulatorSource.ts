@@ -0,0 +1,49 @@
+/**
+ * DetectionSource ที่สร้างข้อมูลสังเคราะห์จาก simulator (ไม่ต้องใช้ network)
+ * ทุกกล้องใช้ engine ตัวเดียวกัน แต่ละกล้องรับเฉพาะโดรนที่กล้องฝั่งนั้นมองเห็น
+ */
+
+import { type DroneProfile } from '../config/droneProfiles';
+import { type SimulationEngine } from '../simulator/engine';
+import { createSourceStatus } from './sourceStatus';
+import { type DetectionSource } from './types';
+
+export const createSimulatorSource = (engine: SimulationEngine, profile: DroneProfile): DetectionSource => {
+  const camId = profile.camId || `sim-${profile.location}`;
+  const status = createSourceStatus();
+  let sequence = 0;
+
+  return {
+    kind: 'simulator',
+    camId,
+    profile,
+    isReady: true,
+    canClearHistory: false,
+    historyRefreshMs: false,
+    loadHistory: async () => ({ success: true, data: [] }),
+    subscribe: (listener) => {
+      status.dispatch({ type: 'start', maxAttempts: 0 });
+      status.dispatch({ type: 'connected' });
+
+      const unsubscribe = engine.subscribe((frame) => {
+        if (frame.camera !== profile.location) return;
+        sequence += 1;
+        listener({
+          id: sequence,
+          cam_id: camId,
+          camera: { id: camId, name: `Simulator ${profile.label}`, location: profile.location },
+          timestamp: frame.timestamp,
+          image_path: '',
+          objects: frame.objects,
+        });
+      });
+
+      return () => {
+        unsubscribe();
+        status.dispatch({ type: 'stop' });
+      };
+    },
+    subscribeStatus: status.subscribe,
+    getStatus: status.get,
+  };
+};
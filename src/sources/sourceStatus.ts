@@ -0,0 +1,34 @@
+/**
+ * สถานะของ source ที่ไม่ได้ใช้ socket จริง (replay / simulator)
+ * ใช้ state machine เดียวกับ socket เพื่อให้ UI แสดงผลแบบเดียวกัน
+ */
+
+import { type SocketConnectionState } from '../types/socket';
+import {
+  createSocketConnectionState,
+  socketConnectionReducer,
+  type SocketConnectionAction,
+} from '../utils/socketConnection';
+
+export const createSourceStatus = () => {
+  let status: SocketConnectionState = createSocketConnectionState();
+  const listeners = new Set<() => void>();
+
+  const dispatch = (action: SocketConnectionAction) => {
+    const next = socketConnectionReducer(status, action);
+    if (next === status) return;
+    status = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { dispatch, subscribe, get: () => status };
+};
+
+export type SourceStatusStore = ReturnType<typeof createSourceStatus>;
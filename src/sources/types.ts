@@ -0,0 +1,38 @@
+/**
+ * Types สำหรับแหล่งข้อมูลการตรวจจับ (DetectionSource)
+ * Dashboard อ่านข้อมูลผ่าน interface นี้อย่างเดียว จึงสลับระหว่าง API จริง, ไฟล์ replay
+ * และ simulator ได้โดยไม่ต้องแก้ panel ใด ๆ
+ */
+
+import { type DroneProfile } from '../config/droneProfiles';
+import { type DetectionEvent, type DetectionResponse } from '../types/detection';
+import { type SocketConnectionState } from '../types/socket';
+
+export type DetectionSourceKind = 'live' | 'replay' | 'simulator';
+
+export interface HistoryRange {
+  since: string;                 // ISO 8601 (ไม่รวม)
+  until: string;                 // ISO 8601 (รวม)
+}
+
+export interface DetectionSource {
+  kind: DetectionSourceKind;
+  camId: string;
+  profile: DroneProfile;
+  isReady: boolean;                      // false = ยังไม่มี config พอจะเริ่มทำงาน
+  canClearHistory: boolean;              // true = ลบ history บน server ได้
+  historyRefreshMs: number | false;      // ระยะเวลาโหลด history ซ้ำ (false = โหลดครั้งเดียว)
+
+  // โหลด history ทั้งหมด หรือเฉพาะช่วงเวลาที่ระบุ (ใช้ตอน backfill)
+  loadHistory: (range?: HistoryRange) => Promise<DetectionResponse>;
+
+  // รับ event แบบ live คืนฟังก์ชันสำหรับยกเลิก
+  subscribe: (listener: (event: DetectionEvent) => void) => () => void;
+
+  // สถานะการเชื่อมต่อ (รูปแบบเดียวกับ socket เพื่อใช้ SocketStatusChip ร่วมกันได้)
+  subscribeStatus: (listener: () => void) => () => void;
+  getStatus: () => SocketConnectionState;
+
+  // ลองเชื่อมต่อใหม่หลังสถานะเป็น failed (ไม่มี = แหล่งข้อมูลนี้ลองใหม่เองไม่ได้)
+  retry?: () => void;
+}
@@ -0,0 +1,16 @@
+/**
+ * Types สำหรับช่องทางแจ้งเตือนผู้ควบคุม: เสียง (WebAudio), desktop notification และเสียงพูด
+ */
+
+import { type AlertSeverity } from './alert';
+
+export type AlarmChannel = 'audio' | 'notification' | 'speech';
+
+// รูปแบบเสียงที่สร้างด้วย oscillator (none = ไม่มีเสียงสำหรับระดับนี้)
+export type AlarmTone = 'none' | 'chime' | 'double-beep' | 'siren';
+
+export interface AlarmSettings {
+  muted: Record<AlarmChannel, boolean>;
+  volume: number;                        // 0..1
+  tones: Record<AlertSeverity, AlarmTone>;
+}
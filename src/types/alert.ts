@@ -0,0 +1,95 @@
+/**
+ * Types สำหรับระบบแจ้งเตือน: กฎ (rule) ที่ทำให้เกิด alert, alert แต่ละรายการ และ audit trail ของ alert
+ */
+
+import { type DefenceRing } from './defenceRing';
+import { type LatLng } from './detection';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// เงื่อนไขของกฎ (objectType / objective = null คือไม่กรอง)
+export type AlertCondition =
+  | { type: 'zone'; zoneId: string | null; objectType: string | null; objective: string | null }
+  | { type: 'speed'; minSpeed: number; objective: string | null }
+  | { type: 'radius'; objective: string | null }
+  | { type: 'ring'; objective: string | null }
+  | { type: 'new-object'; objective: string | null };
+
+export type AlertConditionType = AlertCondition['type'];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+  condition: AlertCondition;
+}
+
+// active = รอผู้ควบคุม, acknowledged = รับทราบแล้ว, snoozed = พักไว้จนถึง snoozedUntil, resolved = ปิดแล้ว
+export type AlertStatus = 'active' | 'acknowledged' | 'snoozed' | 'resolved';
+
+export type AlertAuditAction =
+  | 'raised'
+  | 'escalated'
+  | 'acknowledged'
+  | 'snoozed'
+  | 'unsnoozed'
+  | 'cleared'
+  | 'retriggered'
+  | 'resolved';
+
+export interface AlertAuditEntry {
+  time: number;                  // epoch ms
+  action: AlertAuditAction;
+  actor: 'system' | 'operator';
+  note?: string;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  obj_id: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  message: string;
+  position: LatLng | null;
+  firstSeen: number;             // epoch ms
+  lastUpdated: number;           // epoch ms
+  conditionActive: boolean;      // เงื่อนไขของกฎยังเป็นจริงอยู่หรือไม่
+  snoozedUntil: number | null;
+  ring: AlertRingRef | null;     // วงชั้นในสุดที่วัตถุเคยเข้าถึง (เฉพาะกฎแบบ ring)
+  audit: AlertAuditEntry[];
+}
+
+// วงรัศมีที่อ้างถึงใน alert (radiusMeters น้อย = วงในกว่า)
+export interface AlertRingRef {
+  id: string;
+  name: string;
+  radiusMeters: number;
+}
+
+// ข้อมูลของวัตถุหนึ่งตัวที่ใช้ประเมินกฎ
+export interface AlertSubject {
+  obj_id: string;
+  type: string;
+  objective: string;
+  speed: number | null;          // m/s
+  position: LatLng | null;
+  zoneIds: string[];             // โซน geofence ที่วัตถุอยู่ขณะนี้
+  insideRadius: boolean;         // อยู่ในรัศมีป้องกัน (วงนอกสุด) หรือไม่
+  ring: DefenceRing | null;      // วงชั้นในสุดที่วัตถุอยู่
+  distance: number | null;       // ระยะถึงจุดป้องกัน (เมตร)
+  firstSeenLive: boolean;        // พบครั้งแรกหลังเริ่มรับข้อมูล live (ไม่ใช่วัตถุใน history ตอนเปิดหน้า)
+  seenLive: boolean;             // ตำแหน่งล่าสุดได้มาหลังเริ่มรับข้อมูล live
+}
+
+// ผลการประเมิน: กฎหนึ่งข้อเป็นจริงกับวัตถุหนึ่งตัว
+export interface AlertMatch {
+  ruleId: string;
+  obj_id: string;
+  message: string;
+  position: LatLng | null;
+  severity?: AlertSeverity;      // ระดับที่กำหนดจากเงื่อนไขเอง (เช่น ตามวงรัศมี) แทนระดับของกฎ
+  ring?: AlertRingRef;           // วงที่วัตถุอยู่ขณะนี้ (เฉพาะกฎแบบ ring)
+}
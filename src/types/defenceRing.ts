@@ -0,0 +1,13 @@
+/**
+ * Types สำหรับวงรัศมีซ้อนรอบจุดป้องกัน (เช่น early-warning / warning / critical)
+ */
+
+import { type AlertSeverity } from './alert';
+
+export interface DefenceRing {
+  id: string;
+  name: string;
+  radiusMeters: number;
+  color: string;
+  severity: AlertSeverity;       // ระดับ alert เมื่อวัตถุเข้ามาในวงนี้
+}
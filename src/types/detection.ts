@@ -2,6 +2,12 @@
  * Types สำหรับข้อมูลการตรวจจับวัตถุ
  */
 
+// พิกัดทศนิยม (decimal degrees)
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
 // วัตถุที่ตรวจพบแต่ละชิ้น
 export interface DetectedObjectDetail {
   lat?: number;
@@ -22,6 +28,7 @@ export interface DetectedObject {
   size: string;        // "small", "medium", "large"
   speed?: number;      // optional fallback speed in meters per second // legacy telemetry field
   details?: DetectedObjectDetail; // preferred telemetry field
+  target?: LatLng | null;         // unified tar_lat + tar_lng/tar_long (set by normalizer)
 }
 
 // ข้อมูลกล้อง
@@ -46,5 +53,16 @@ export interface DetectionEvent {
 export interface DetectionResponse {
   success: boolean;              // สถานะความสำเร็จ
   data: DetectionEvent[];        // รายการ detection events
+  issues?: PayloadIssue[];       // field ที่ถูกแก้ไขหรือตัดทิ้งระหว่าง normalize
+}
+
+// ปัญหาที่พบระหว่างตรวจสอบ payload จาก server
+export interface PayloadIssue {
+  origin: 'rest' | 'socket';     // แหล่งที่มาของ payload
+  cam_id?: string;               // UUID ของกล้อง (ถ้าอ่านได้)
+  path: string;                  // ตำแหน่ง field เช่น "data[3].objects[0].lat"
+  kind: 'coerced' | 'rejected';  // coerced = แปลงค่าให้แล้ว, rejected = ตัดทิ้ง
+  message: string;
+  receivedAt: string;            // เวลาที่พบปัญหา (ISO 8601)
 }
 
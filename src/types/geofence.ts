@@ -0,0 +1,38 @@
+/**
+ * Types สำหรับ geofence: โซนที่ตั้งชื่อได้ (รูปวงกลมหรือ polygon) และ event เมื่อวัตถุเข้า/ออก/ค้างในโซน
+ */
+
+import { type LatLng } from './detection';
+
+// protected = พื้นที่ที่ต้องป้องกัน, no-fly = เขตห้ามบิน, launch = จุดปล่อยโดรน
+export type ZoneKind = 'protected' | 'no-fly' | 'launch';
+
+export type ZoneShape =
+  | { type: 'circle'; center: LatLng; radiusMeters: number }
+  | { type: 'polygon'; points: LatLng[] };
+
+export interface GeofenceZone {
+  id: string;
+  name: string;
+  kind: ZoneKind;
+  shape: ZoneShape;
+  color: string;
+  enabled: boolean;
+  alertOnEnter: boolean;
+  alertOnExit: boolean;
+  dwellSeconds: number | null;   // แจ้งเมื่ออยู่ในโซนนานเกินกี่วินาที (null = ไม่แจ้ง)
+}
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export interface GeofenceEvent {
+  id: string;
+  type: GeofenceEventType;
+  zoneId: string;
+  zoneName: string;
+  zoneKind: ZoneKind;
+  obj_id: string;
+  position: LatLng;
+  time: number;                  // epoch ms ของตำแหน่งที่ทำให้เกิด event
+  dwellSeconds?: number;         // เวลาที่อยู่ในโซนแล้ว (เฉพาะ dwell และ exit)
+}
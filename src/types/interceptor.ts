@@ -0,0 +1,11 @@
+/**
+ * Types สำหรับอุปกรณ์สกัดกั้น (interceptor) ที่ประจำอยู่ ณ จุดป้องกัน
+ */
+
+export interface Interceptor {
+  id: string;
+  name: string;
+  maxSpeed: number;              // m/s
+  launchDelaySec: number;        // เวลาตั้งแต่สั่งจนขึ้นบิน (วินาที)
+  available: boolean;            // false = ไม่พร้อมใช้งาน ไม่นำมาคำนวณ
+}
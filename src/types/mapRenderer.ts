@@ -0,0 +1,107 @@
+/**
+ * Types ของตัววาดแผนที่ที่ใช้ร่วมกันระหว่าง Mapbox GL (online) และ MapLibre GL (offline)
+ * ประกาศเฉพาะส่วนที่แอปเรียกใช้ ทั้งสองไลบรารีต้องตรงกับ interface นี้โดยไม่ต้อง cast
+ */
+
+import {
+  type ExpressionSpecification as MapboxExpressionSpecification,
+  type LayerSpecification as MapboxLayerSpecification,
+  type SourceSpecification as MapboxSourceSpecification,
+} from 'mapbox-gl';
+import {
+  type ExpressionSpecification as MapLibreExpressionSpecification,
+  type LayerSpecification as MapLibreLayerSpecification,
+  type SourceSpecification as MapLibreSourceSpecification,
+} from '@maplibre/maplibre-gl-style-spec';
+
+// layer และ source ที่แอปสร้างต้องใช้ได้กับทั้งสองไลบรารี
+export type MapLayerSpecification = MapboxLayerSpecification & MapLibreLayerSpecification;
+export type MapSourceSpecification = MapboxSourceSpecification & MapLibreSourceSpecification;
+export type MapExpression = MapboxExpressionSpecification & MapLibreExpressionSpecification;
+
+export type MapBoundsArray = [[number, number], [number, number]]; // [[west, south], [east, north]]
+
+export interface MapLngLat {
+  lng: number;
+  lat: number;
+}
+
+export interface MapScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapPointerEvent {
+  lngLat: MapLngLat;
+  point: MapScreenPoint;
+}
+
+export interface MapLayerPointerEvent extends MapPointerEvent {
+  features?: { id?: string | number; properties: Record<string, unknown> | null }[];
+}
+
+// event ของกล้อง/การโหลดที่ไม่ใช้ข้อมูลใน event
+export type MapViewEventType = 'load' | 'move' | 'moveend' | 'zoom' | 'zoomstart' | 'zoomend' | 'dragstart' | 'rotatestart';
+export type MapPointerEventType = 'click' | 'mousemove' | 'mouseleave';
+
+export interface MapGeoJSONSource {
+  setData(data: GeoJSON.FeatureCollection): unknown;
+}
+
+export interface MapBounds {
+  extend(lngLat: [number, number]): unknown;
+  toArray(): MapBoundsArray;
+  getWest(): number;
+  getSouth(): number;
+  getEast(): number;
+  getNorth(): number;
+}
+
+// control ที่สร้างจาก mapRenderer (ตอนนี้มีแค่ ScaleControl)
+export interface MapControl {
+  onAdd(map: never): HTMLElement;
+  onRemove(map: never): void;
+}
+
+export interface RendererMap {
+  addControl(control: MapControl, position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'): unknown;
+  addSource(id: string, source: MapSourceSpecification): unknown;
+  getSource(id: string): object | undefined;
+  removeSource(id: string): unknown;
+  addLayer(layer: MapLayerSpecification, beforeId?: string): unknown;
+  getLayer(id: string): object | undefined;
+  removeLayer(id: string): unknown;
+  hasImage(id: string): boolean;
+  addImage(id: string, image: HTMLImageElement, options: { sdf: boolean }): unknown;
+  setFeatureState(feature: { source: string; id: string }, state: Record<string, boolean>): unknown;
+  queryRenderedFeatures(point: [number, number], options: { layers: string[] }): unknown[];
+  flyTo(options: { center: [number, number]; zoom: number; duration: number }): unknown;
+  fitBounds(bounds: MapBoundsArray, options: { padding: number; maxZoom: number; duration: number }): unknown;
+  getBounds(): MapBounds | null;
+  getZoom(): number;
+  project(lngLat: [number, number]): MapScreenPoint;
+  getCanvas(): HTMLCanvasElement;
+  getContainer(): HTMLElement;
+  on(type: MapViewEventType, listener: () => void): unknown;
+  on(type: MapPointerEventType, listener: (event: MapPointerEvent) => void): unknown;
+  on(type: MapPointerEventType, layerId: string, listener: (event: MapLayerPointerEvent) => void): unknown;
+  off(type: MapViewEventType, listener: () => void): unknown;
+  off(type: MapPointerEventType, listener: (event: MapPointerEvent) => void): unknown;
+  off(type: MapPointerEventType, layerId: string, listener: (event: MapLayerPointerEvent) => void): unknown;
+  remove(): void;
+}
+
+export interface MapMarker {
+  setLngLat(lngLat: [number, number]): this;
+  addTo(map: RendererMap): this;
+  getLngLat(): MapLngLat;
+  on(type: 'dragend', listener: () => void): unknown;
+  remove(): unknown;
+}
+
+export interface MapViewOptions {
+  container: HTMLElement;
+  center: [number, number];
+  zoom: number;
+  maxZoom: number;
+}
@@ -0,0 +1,28 @@
+/**
+ * Types สำหรับไฟล์บันทึก session (ข้อมูลทุกอย่างที่ dashboard ได้รับระหว่างการแข่งขัน)
+ */
+
+import { type DetectionEvent } from './detection';
+
+// ช่องทางที่ข้อมูลเข้ามา: rest = history จาก REST, socket = event แบบ live
+export type RecordedChannel = 'rest' | 'socket';
+
+// ข้อมูลหนึ่งก้อนที่ได้รับ ณ เวลาหนึ่ง
+export interface RecordedEntry {
+  offsetMs: number;              // เวลาที่ได้รับ นับจากเริ่มบันทึก (ms)
+  receivedAt: string;            // เวลาที่ได้รับจริง (ISO 8601)
+  channel: RecordedChannel;
+  cam_id: string;
+  location: string;              // "defence" หรือ "offence" ของ feed ที่รับข้อมูล
+  events: DetectionEvent[];
+}
+
+// ไฟล์ session ที่ดาวน์โหลดเป็น JSON
+export interface SessionRecording {
+  format: 'tesa-session';
+  version: 1;
+  startedAt: string;             // ISO 8601
+  endedAt: string;               // ISO 8601
+  sourceKind: string;            // แหล่งข้อมูลตอนบันทึก เช่น "live", "simulator"
+  entries: RecordedEntry[];
+}
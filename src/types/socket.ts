@@ -0,0 +1,25 @@
+/**
+ * Types สำหรับสถานะการเชื่อมต่อ Socket.IO
+ */
+
+// idle = ยังไม่เริ่ม, failed = reconnect ครบจำนวนครั้งแล้วยังไม่สำเร็จ
+// finished = source ที่มีจุดจบ (เช่น replay) ส่งข้อมูลครบแล้ว ไม่ใช่ความผิดพลาด
+export type SocketConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'finished';
+
+export interface SocketLatency {
+  lastMs: number | null;         // round-trip ล่าสุด (ms)
+  averageMs: number | null;      // ค่าเฉลี่ยใน rolling window
+  samples: number[];             // round-trip ล่าสุด ใหม่สุดอยู่ท้าย
+  timeouts: number;              // จำนวน ping ที่ไม่ได้รับ ack
+}
+
+export interface SocketConnectionState {
+  status: SocketConnectionStatus;
+  attempt: number;               // ครั้งที่กำลัง reconnect (0 เมื่อเชื่อมต่ออยู่)
+  maxAttempts: number;
+  connectCount: number;          // จำนวนครั้งที่เชื่อมต่อสำเร็จ (> 1 แปลว่ามีการ reconnect)
+  lastConnectedAt: string | null;
+  lastDisconnectedAt: string | null;
+  lastError: string | null;
+  latency: SocketLatency;
+}
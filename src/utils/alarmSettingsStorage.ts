@@ -0,0 +1,37 @@
+/**
+ * เก็บการตั้งค่าช่องทางแจ้งเตือน (mute, ระดับเสียง, เสียงต่อระดับความรุนแรง) ไว้ใน localStorage ของ browser
+ */
+
+import { type AlarmSettings } from '../types/alarm';
+
+const STORAGE_KEY = 'tesa.alarm.settings';
+
+export const DEFAULT_ALARM_SETTINGS: AlarmSettings = {
+  muted: { audio: false, notification: false, speech: true },
+  volume: 0.7,
+  tones: { info: 'chime', warning: 'double-beep', critical: 'siren' },
+};
+
+export const loadAlarmSettings = (): AlarmSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_ALARM_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<AlarmSettings>;
+    return {
+      muted: { ...DEFAULT_ALARM_SETTINGS.muted, ...parsed.muted },
+      volume: typeof parsed.volume === 'number' ? parsed.volume : DEFAULT_ALARM_SETTINGS.volume,
+      tones: { ...DEFAULT_ALARM_SETTINGS.tones, ...parsed.tones },
+    };
+  } catch (error) {
+    console.warn('Unable to read alarm settings', error);
+    return DEFAULT_ALARM_SETTINGS;
+  }
+};
+
+export const saveAlarmSettings = (settings: AlarmSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Unable to save alarm settings', error);
+  }
+};
@@ -0,0 +1,63 @@
+/**
+ * สร้างเสียงเตือนด้วย WebAudio oscillator ภายในเครื่อง ไม่ต้องโหลดไฟล์เสียงจากภายนอก
+ */
+
+import { type AlarmTone } from '../types/alarm';
+
+export const ALARM_TONE_LABELS: Record<AlarmTone, string> = {
+  none: 'Silent',
+  chime: 'Chime',
+  'double-beep': 'Double beep',
+  siren: 'Siren',
+};
+
+// โน้ตของแต่ละรูปแบบ: ความถี่ (Hz), เวลาเริ่ม และความยาว (วินาที)
+type ToneStep = { frequency: number; start: number; duration: number; type: OscillatorType };
+
+const TONE_STEPS: Record<Exclude<AlarmTone, 'none'>, ToneStep[]> = {
+  chime: [
+    { frequency: 880, start: 0, duration: 0.25, type: 'sine' },
+    { frequency: 1320, start: 0.2, duration: 0.4, type: 'sine' },
+  ],
+  'double-beep': [
+    { frequency: 1000, start: 0, duration: 0.15, type: 'square' },
+    { frequency: 1000, start: 0.25, duration: 0.15, type: 'square' },
+  ],
+  siren: [0, 1, 2, 3].map((index) => ({
+    frequency: index % 2 === 0 ? 700 : 1100,
+    start: index * 0.3,
+    duration: 0.3,
+    type: 'sawtooth' as OscillatorType,
+  })),
+};
+
+let audioContext: AudioContext | null = null;
+
+// browser อนุญาตให้เล่นเสียงได้หลังผู้ใช้โต้ตอบกับหน้าเว็บแล้วเท่านั้น จึงสร้าง context เมื่อใช้ครั้งแรก
+const getAudioContext = () => {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+  audioContext ??= new AudioContext();
+  if (audioContext.state === 'suspended') void audioContext.resume();
+  return audioContext;
+};
+
+export const playAlarmTone = (tone: AlarmTone, volume: number) => {
+  if (tone === 'none' || volume <= 0) return;
+  const context = getAudioContext();
+  if (!context) return;
+
+  const now = context.currentTime;
+  TONE_STEPS[tone].forEach((step) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = step.type;
+    oscillator.frequency.setValueAtTime(step.frequency, now + step.start);
+    // ไล่ระดับเสียงขึ้น-ลงสั้น ๆ เพื่อไม่ให้มีเสียงคลิก
+    gain.gain.setValueAtTime(0, now + step.start);
+    gain.gain.linearRampToValueAtTime(volume * 0.3, now + step.start + 0.02);
+    gain.gain.linearRampToValueAtTime(0, now + step.start + step.duration);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(now + step.start);
+    oscillator.stop(now + step.start + step.duration + 0.05);
+  });
+};
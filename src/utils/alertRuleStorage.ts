@@ -0,0 +1,49 @@
+/**
+ * เก็บกฎการแจ้งเตือนไว้ใน localStorage ของ browser (ยังไม่เคยบันทึก = ใช้กฎเริ่มต้น)
+ * กฎเริ่มต้นที่ถูกแทนด้วยกฎใหม่จะถูกแปลงตอนโหลด โดยคงค่าเปิด/ปิดที่ผู้ใช้ตั้งไว้
+ */
+
+import { type AlertRule } from '../types/alert';
+import { DEFAULT_ALERT_RULES } from './alertRules';
+
+const STORAGE_KEY = 'tesa.alert.rules';
+
+// id ของกฎเริ่มต้นเดิม -> id ของกฎเริ่มต้นที่มาแทน
+const REPLACED_DEFAULT_RULES: Record<string, string> = {
+  'rule-radius-enemy': 'rule-ring-enemy',
+};
+
+const isRule = (value: unknown): value is AlertRule => {
+  if (typeof value !== 'object' || value === null) return false;
+  const rule = value as Partial<AlertRule>;
+  return typeof rule.id === 'string' && typeof rule.name === 'string' && typeof rule.condition === 'object';
+};
+
+const migrateRules = (rules: AlertRule[]) =>
+  rules.flatMap((rule) => {
+    const replacementId = REPLACED_DEFAULT_RULES[rule.id];
+    if (!replacementId) return [rule];
+    const replacement = DEFAULT_ALERT_RULES.find((item) => item.id === replacementId);
+    if (!replacement || rules.some((item) => item.id === replacementId)) return [];
+    return [{ ...replacement, enabled: rule.enabled }];
+  });
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_ALERT_RULES;
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? migrateRules(parsed.filter(isRule)) : DEFAULT_ALERT_RULES;
+  } catch (error) {
+    console.warn('Unable to read alert rules', error);
+    return DEFAULT_ALERT_RULES;
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.warn('Unable to save alert rules', error);
+  }
+};
@@ -0,0 +1,144 @@
+/**
+ * กฎการแจ้งเตือน: กฎเริ่มต้น, คำอธิบายเงื่อนไข และการประเมินกฎกับวัตถุทุกตัว
+ */
+
+import { type AlertCondition, type AlertConditionType, type AlertMatch, type AlertRule, type AlertSeverity, type AlertSubject } from '../types/alert';
+import { type GeofenceZone } from '../types/geofence';
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+export const ALERT_SEVERITY_COLORS: Record<AlertSeverity, 'info' | 'warning' | 'error'> = {
+  info: 'info',
+  warning: 'warning',
+  critical: 'error',
+};
+
+export const ALERT_CONDITION_LABELS: Record<AlertConditionType, string> = {
+  zone: 'Object inside zone',
+  speed: 'Speed above',
+  radius: 'Inside defensive radius',
+  ring: 'Defence ring crossing',
+  'new-object': 'New object',
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'rule-ring-enemy',
+    name: 'Enemy crossing defence rings',
+    enabled: true,
+    severity: 'info',
+    condition: { type: 'ring', objective: 'enemy' },
+  },
+  {
+    id: 'rule-new-unknown',
+    name: 'New unknown object',
+    enabled: true,
+    severity: 'warning',
+    condition: { type: 'new-object', objective: 'unknown' },
+  },
+  {
+    id: 'rule-fast-mover',
+    name: 'Fast mover',
+    enabled: true,
+    severity: 'warning',
+    condition: { type: 'speed', minSpeed: 25, objective: null },
+  },
+  {
+    id: 'rule-drone-in-zone',
+    name: 'Drone inside any zone',
+    enabled: true,
+    severity: 'warning',
+    condition: { type: 'zone', zoneId: null, objectType: 'drone', objective: null },
+  },
+];
+
+// เงื่อนไขเริ่มต้นเมื่อผู้ใช้เพิ่มกฎใหม่ตามประเภท
+export const createAlertCondition = (type: AlertConditionType): AlertCondition => {
+  switch (type) {
+    case 'zone':
+      return { type, zoneId: null, objectType: null, objective: null };
+    case 'speed':
+      return { type, minSpeed: 20, objective: null };
+    default:
+      return { type, objective: null };
+  }
+};
+
+const matchesObjective = (objective: string | null, subject: AlertSubject) =>
+  objective === null || subject.objective.toLowerCase() === objective.toLowerCase();
+
+const getZoneName = (zones: GeofenceZone[], zoneId: string) => zones.find((zone) => zone.id === zoneId)?.name ?? zoneId;
+
+// คืนข้อความของ alert เมื่อเงื่อนไขเป็นจริง (null = ไม่เข้าเงื่อนไข)
+const evaluateCondition = (condition: AlertCondition, subject: AlertSubject, zones: GeofenceZone[]): string | null => {
+  if (!matchesObjective(condition.objective, subject)) return null;
+
+  switch (condition.type) {
+    case 'zone': {
+      if (condition.objectType && subject.type.toLowerCase() !== condition.objectType.toLowerCase()) return null;
+      const zoneIds = condition.zoneId
+        ? subject.zoneIds.filter((zoneId) => zoneId === condition.zoneId)
+        : subject.zoneIds;
+      if (zoneIds.length === 0) return null;
+      return `${subject.type} ${subject.obj_id} inside ${zoneIds.map((zoneId) => getZoneName(zones, zoneId)).join(', ')}`;
+    }
+    case 'speed':
+      if (subject.speed === null || subject.speed <= condition.minSpeed) return null;
+      return `${subject.obj_id} moving at ${subject.speed.toFixed(1)} m/s (limit ${condition.minSpeed} m/s)`;
+    case 'radius':
+      if (!subject.insideRadius) return null;
+      return subject.distance === null
+        ? `${subject.obj_id} inside defensive radius`
+        : `${subject.obj_id} inside defensive radius, ${Math.round(subject.distance)} m from defended point`;
+    case 'ring':
+      if (!subject.ring) return null;
+      return `${subject.obj_id} inside ${subject.ring.name} ring${
+        subject.distance === null ? '' : `, ${Math.round(subject.distance)} m from defended point`
+      }`;
+    case 'new-object':
+      if (!subject.firstSeenLive) return null;
+      return `New ${subject.objective} ${subject.type} ${subject.obj_id}`;
+  }
+};
+
+export const evaluateAlertRules = (rules: AlertRule[], subjects: AlertSubject[], zones: GeofenceZone[]) =>
+  rules
+    .filter((rule) => rule.enabled)
+    .flatMap((rule) =>
+      subjects.flatMap<AlertMatch>((subject) => {
+        const message = evaluateCondition(rule.condition, subject, zones);
+        if (message === null) return [];
+        // เงื่อนไขวงรัศมีใช้ระดับของวงที่วัตถุอยู่ วงในกว่า = รุนแรงกว่า
+        const ring = rule.condition.type === 'ring' ? subject.ring : null;
+        return [
+          {
+            ruleId: rule.id,
+            obj_id: subject.obj_id,
+            message,
+            position: subject.position,
+            ...(ring && {
+              severity: ring.severity,
+              ring: { id: ring.id, name: ring.name, radiusMeters: ring.radiusMeters },
+            }),
+          },
+        ];
+      }),
+    );
+
+export const describeAlertCondition = (condition: AlertCondition, zones: GeofenceZone[]) => {
+  const objective = condition.objective ? `${condition.objective} ` : '';
+  switch (condition.type) {
+    case 'zone': {
+      const zone = condition.zoneId ? getZoneName(zones, condition.zoneId) : 'any zone';
+      return `${objective}${condition.objectType ?? 'object'} inside ${zone}`;
+    }
+    case 'speed':
+      return `${objective}object faster than ${condition.minSpeed} m/s`;
+    case 'radius':
+      return `${objective}object inside defensive radius`;
+    case 'ring':
+      return `${objective}object entering each defence ring (severity follows the ring)`;
+    case 'new-object':
+      return `first live sighting of ${objective || 'any '}object (not history loaded at startup)`;
+  }
+};
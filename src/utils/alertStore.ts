@@ -0,0 +1,214 @@
+/**
+ * Store สำหรับวงจรชีวิตของ alert: เกิดจากกฎ → รับทราบ / พัก / ปิด โดยบันทึกทุกการเปลี่ยนแปลงลง audit trail
+ * alert ที่ยังไม่มีใครรับทราบจะถูกยกระดับความรุนแรงทุก ALERT_ESCALATE_AFTER_MS
+ * และยกระดับทันทีทุกครั้งที่วัตถุข้ามเข้าวงรัศมีที่ลึกกว่าเดิม
+ */
+
+import {
+  type Alert,
+  type AlertAuditAction,
+  type AlertAuditEntry,
+  type AlertMatch,
+  type AlertRule,
+  type AlertSeverity,
+} from '../types/alert';
+import { ALERT_SEVERITIES } from './alertRules';
+
+export const ALERT_ESCALATE_AFTER_MS = 60_000;
+const MAX_ALERTS = 500;
+
+export type AlertStoreAction =
+  | { type: 'evaluate'; matches: AlertMatch[]; rules: AlertRule[]; now: number }
+  | { type: 'acknowledge'; id: string; now: number; note?: string }
+  | { type: 'snooze'; id: string; until: number; now: number }
+  | { type: 'resolve'; id: string; now: number; note?: string }
+  | { type: 'tick'; now: number };
+
+const getAlertKey = (ruleId: string, objId: string) => `${ruleId}|${objId}`;
+
+const createAlertId = (now: number) => `alert-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const withAudit = (
+  alert: Alert,
+  action: AlertAuditAction,
+  now: number,
+  patch: Partial<Alert> = {},
+  actor: AlertAuditEntry['actor'] = 'system',
+  note?: string,
+): Alert => ({
+  ...alert,
+  ...patch,
+  lastUpdated: now,
+  audit: [...alert.audit, { time: now, action, actor, ...(note ? { note } : {}) }],
+});
+
+const getSeverityRank = (severity: AlertSeverity) => ALERT_SEVERITIES.indexOf(severity);
+
+const nextSeverity = (severity: AlertSeverity): AlertSeverity =>
+  ALERT_SEVERITIES[Math.min(getSeverityRank(severity) + 1, ALERT_SEVERITIES.length - 1)];
+
+// เวลาที่ alert เริ่มรอผู้ควบคุมรอบล่าสุด (ใช้นับเวลายกระดับ)
+const getPendingSince = (alert: Alert) => {
+  for (let i = alert.audit.length - 1; i >= 0; i--) {
+    if (['raised', 'escalated', 'unsnoozed', 'retriggered'].includes(alert.audit[i].action)) return alert.audit[i].time;
+  }
+  return alert.firstSeen;
+};
+
+export const isAlertOpen = (alert: Alert) => alert.status !== 'resolved';
+
+const evaluateAlerts = (state: Alert[], matches: AlertMatch[], rules: AlertRule[], now: number) => {
+  const matchByKey = new Map(matches.map((match) => [getAlertKey(match.ruleId, match.obj_id), match]));
+  const seenKeys = new Set<string>();
+  let changed = false;
+
+  const updated = state.map((alert) => {
+    const key = getAlertKey(alert.ruleId, alert.obj_id);
+    const match = matchByKey.get(key);
+
+    // alert ที่ปิดแล้วยังติดตามว่าเงื่อนไขหายไปหรือยัง เพื่อไม่ให้เกิด alert ซ้ำทันทีหลังปิด
+    if (!isAlertOpen(alert)) {
+      if (match && alert.conditionActive) seenKeys.add(key);
+      if (!match && alert.conditionActive) {
+        changed = true;
+        return { ...alert, conditionActive: false };
+      }
+      return alert;
+    }
+
+    seenKeys.add(key);
+    if (!match) {
+      if (!alert.conditionActive) return alert;
+      changed = true;
+      return withAudit(alert, 'cleared', now, { conditionActive: false });
+    }
+
+    if (!alert.conditionActive) {
+      changed = true;
+      return withAudit(alert, 'retriggered', now, {
+        conditionActive: true,
+        message: match.message,
+        position: match.position,
+        status: alert.status === 'acknowledged' ? 'active' : alert.status,
+        ring: match.ring ?? null,
+      });
+    }
+
+    // วัตถุข้ามเข้าวงที่ลึกกว่าที่เคยเข้าถึง: ยกระดับ alert เดิมและต้องรับทราบใหม่
+    // แม้วงในจะมีระดับเท่าวงนอก (ไม่ลดระดับเมื่อออกไปวงนอก)
+    if (match.ring && (!alert.ring || match.ring.radiusMeters < alert.ring.radiusMeters)) {
+      changed = true;
+      const severity =
+        match.severity && getSeverityRank(match.severity) > getSeverityRank(alert.severity) ? match.severity : alert.severity;
+      return withAudit(
+        alert,
+        'escalated',
+        now,
+        {
+          severity,
+          message: match.message,
+          position: match.position,
+          status: 'active',
+          snoozedUntil: null,
+          ring: match.ring,
+        },
+        'system',
+        `${alert.ring?.name ?? 'outside'} → ${match.ring.name} (${alert.severity} → ${severity}): ${match.message}`,
+      );
+    }
+
+    if (alert.message === match.message) return alert;
+    changed = true;
+    return { ...alert, message: match.message, position: match.position, lastUpdated: now };
+  });
+
+  const raised = matches
+    .filter((match) => !seenKeys.has(getAlertKey(match.ruleId, match.obj_id)))
+    .flatMap<Alert>((match) => {
+      const rule = rules.find((item) => item.id === match.ruleId);
+      if (!rule) return [];
+      return [
+        {
+          id: createAlertId(now),
+          ruleId: rule.id,
+          ruleName: rule.name,
+          obj_id: match.obj_id,
+          severity: match.severity ?? rule.severity,
+          status: 'active',
+          message: match.message,
+          position: match.position,
+          firstSeen: now,
+          lastUpdated: now,
+          conditionActive: true,
+          snoozedUntil: null,
+          ring: match.ring ?? null,
+          audit: [{ time: now, action: 'raised', actor: 'system' }],
+        },
+      ];
+    });
+
+  if (!changed && raised.length === 0) return state;
+  return [...raised, ...updated].slice(0, MAX_ALERTS);
+};
+
+// พักครบเวลาแล้วกลับมา active, alert ที่ค้างโดยไม่มีใครรับทราบถูกยกระดับ
+const tickAlerts = (state: Alert[], now: number) => {
+  let changed = false;
+  const next = state.map((alert) => {
+    if (alert.status === 'snoozed' && alert.snoozedUntil !== null && now >= alert.snoozedUntil) {
+      changed = true;
+      return withAudit(alert, 'unsnoozed', now, { status: 'active', snoozedUntil: null });
+    }
+    if (
+      alert.status === 'active' &&
+      alert.conditionActive &&
+      alert.severity !== 'critical' &&
+      now - getPendingSince(alert) >= ALERT_ESCALATE_AFTER_MS
+    ) {
+      changed = true;
+      const severity = nextSeverity(alert.severity);
+      return withAudit(alert, 'escalated', now, { severity }, 'system', `${alert.severity} → ${severity}`);
+    }
+    return alert;
+  });
+  return changed ? next : state;
+};
+
+const updateAlert = (state: Alert[], id: string, update: (alert: Alert) => Alert) =>
+  state.map((alert) => (alert.id === id ? update(alert) : alert));
+
+export const alertStoreReducer = (state: Alert[], action: AlertStoreAction): Alert[] => {
+  switch (action.type) {
+    case 'evaluate':
+      return evaluateAlerts(state, action.matches, action.rules, action.now);
+    case 'acknowledge':
+      return updateAlert(state, action.id, (alert) =>
+        alert.status === 'active' || alert.status === 'snoozed'
+          ? withAudit(alert, 'acknowledged', action.now, { status: 'acknowledged', snoozedUntil: null }, 'operator', action.note)
+          : alert,
+      );
+    case 'snooze':
+      return updateAlert(state, action.id, (alert) =>
+        isAlertOpen(alert)
+          ? withAudit(
+              alert,
+              'snoozed',
+              action.now,
+              { status: 'snoozed', snoozedUntil: action.until },
+              'operator',
+              `until ${new Date(action.until).toLocaleTimeString()}`,
+            )
+          : alert,
+      );
+    case 'resolve':
+      return updateAlert(state, action.id, (alert) =>
+        isAlertOpen(alert)
+          ? withAudit(alert, 'resolved', action.now, { status: 'resolved', snoozedUntil: null }, 'operator', action.note)
+          : alert,
+      );
+    case 'tick':
+      return tickAlerts(state, action.now);
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,187 @@
+/**
+ * จับคู่ interceptor กับผู้บุกรุก: Hungarian (ต้นทุนรวมต่ำสุด) หรือ greedy ตามระดับภัยคุกคาม
+ * ต้นทุน = เวลาสกัดกั้น หักด้วยความสำคัญของภัยคุกคาม และบวกค่าปรับเมื่อสกัดไม่ทันก่อนเข้ารัศมี
+ * คู่ที่ผู้ควบคุมกำหนดเองหรือล็อกไว้ถูกตรึงก่อน ส่วนที่เหลือจึงให้ solver จับคู่
+ */
+
+import { type LatLng } from '../types/detection';
+import { type Interceptor } from '../types/interceptor';
+import { computeIntercept, type InterceptSolution } from './intercept';
+import { type MotionEstimate } from './motionEstimate';
+import { compareThreat, type ThreatAssessment } from './threatScore';
+
+export type AssignmentStrategy = 'hungarian' | 'greedy';
+
+// manual = ผู้ควบคุมเลือกเอง, locked = ตรึงคู่ที่ solver เสนอไว้ไม่ให้เปลี่ยนเมื่อคำนวณใหม่
+export interface AssignmentPin {
+  interceptorId: string;
+  mode: 'manual' | 'locked';
+}
+
+export interface AssignmentIntruder {
+  obj_id: string;
+  position: LatLng;
+  estimate?: MotionEstimate;
+  threat?: ThreatAssessment;
+  timeToPenetration: number | null;
+}
+
+export interface Assignment {
+  obj_id: string;
+  interceptorId: string;
+  solution: InterceptSolution | null;    // null = interceptor ที่ตรึงไว้ตามไม่ทัน
+  source: 'solver' | AssignmentPin['mode'];
+}
+
+export interface AssignmentResult {
+  assignments: Assignment[];
+  unassigned: string[];                  // obj_id ที่ไม่มี interceptor ว่างหรือตามไม่ทัน
+  idleInterceptors: string[];
+}
+
+const THREAT_PRIORITY_SEC = 120;         // คะแนนภัยคุกคาม 100 ลดต้นทุนลงเท่ากับเวลาสกัด 120 วินาที
+const LATE_PENALTY_SEC = 300;
+const INFEASIBLE_COST = 1e6;
+
+const getCost = (intruder: AssignmentIntruder, solution: InterceptSolution | null) => {
+  if (!solution) return INFEASIBLE_COST;
+  return (
+    solution.timeSec +
+    (solution.beforePenetration ? 0 : LATE_PENALTY_SEC) -
+    ((intruder.threat?.score ?? 0) / 100) * THREAT_PRIORITY_SEC
+  );
+};
+
+// Hungarian algorithm (potentials) สำหรับเมทริกซ์ n×m ที่ n <= m คืน column ของแต่ละแถว
+const solveHungarian = (cost: number[][]): number[] => {
+  const n = cost.length;
+  const m = cost[0]?.length ?? 0;
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(m + 1).fill(0);
+  const p = new Array<number>(m + 1).fill(0);
+  const way = new Array<number>(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(m + 1).fill(Number.POSITIVE_INFINITY);
+    const used = new Array<boolean>(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Number.POSITIVE_INFINITY;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const current = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (current < minv[j]) {
+          minv[j] = current;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const result = new Array<number>(n).fill(-1);
+  for (let j = 1; j <= m; j++) {
+    if (p[j] !== 0) result[p[j] - 1] = j - 1;
+  }
+  return result;
+};
+
+// คู่ (แถว, คอลัมน์) จาก Hungarian รองรับเมทริกซ์ที่แถวมากกว่าคอลัมน์ด้วยการสลับแกน
+const matchHungarian = (cost: number[][]): [number, number][] => {
+  if (cost.length === 0 || cost[0].length === 0) return [];
+  if (cost.length <= cost[0].length) {
+    return solveHungarian(cost).map((column, row) => [row, column] as [number, number]);
+  }
+  const transposed = cost[0].map((_, column) => cost.map((row) => row[column]));
+  return solveHungarian(transposed).map((row, column) => [row, column] as [number, number]);
+};
+
+// ภัยคุกคามสูงสุดเลือกก่อน แต่ละตัวได้ interceptor ว่างที่ต้นทุนต่ำสุด
+const matchGreedy = (intruders: AssignmentIntruder[], cost: number[][]): [number, number][] => {
+  const taken = new Set<number>();
+  const order = intruders.map((_, index) => index).sort((a, b) => compareThreat(intruders[a].threat, intruders[b].threat));
+  return order.flatMap<[number, number]>((row) => {
+    let best = -1;
+    cost[row].forEach((value, column) => {
+      if (!taken.has(column) && (best === -1 || value < cost[row][best])) best = column;
+    });
+    if (best === -1) return [];
+    taken.add(best);
+    return [[row, best]];
+  });
+};
+
+export const solveAssignments = (
+  intruders: AssignmentIntruder[],
+  interceptors: Interceptor[],
+  base: LatLng,
+  pins: Record<string, AssignmentPin>,
+  strategy: AssignmentStrategy,
+): AssignmentResult => {
+  const available = interceptors.filter((interceptor) => interceptor.available);
+  const solve = (intruder: AssignmentIntruder, interceptor: Interceptor) =>
+    computeIntercept(intruder.obj_id, intruder.position, intruder.estimate, base, interceptor, intruder.timeToPenetration);
+
+  // คู่ที่ตรึงไว้ใช้ก่อน (ข้ามถ้า interceptor ไม่พร้อมหรือถูกตรึงซ้ำ)
+  const pinnedInterceptors = new Set<string>();
+  const pinned: Assignment[] = intruders.flatMap((intruder) => {
+    const pin = pins[intruder.obj_id];
+    const interceptor = pin && available.find((item) => item.id === pin.interceptorId);
+    if (!pin || !interceptor || pinnedInterceptors.has(interceptor.id)) return [];
+    pinnedInterceptors.add(interceptor.id);
+    return [{ obj_id: intruder.obj_id, interceptorId: interceptor.id, solution: solve(intruder, interceptor), source: pin.mode }];
+  });
+
+  const pinnedIntruders = new Set(pinned.map((assignment) => assignment.obj_id));
+  const freeIntruders = intruders.filter((intruder) => !pinnedIntruders.has(intruder.obj_id));
+  const freeInterceptors = available.filter((interceptor) => !pinnedInterceptors.has(interceptor.id));
+
+  const solutions = freeIntruders.map((intruder) => freeInterceptors.map((interceptor) => solve(intruder, interceptor)));
+  const cost = freeIntruders.map((intruder, row) => solutions[row].map((solution) => getCost(intruder, solution)));
+  const pairs = strategy === 'hungarian' ? matchHungarian(cost) : matchGreedy(freeIntruders, cost);
+
+  const solved: Assignment[] = pairs
+    .filter(([row, column]) => column >= 0 && row >= 0 && solutions[row][column] !== null)
+    .map(([row, column]) => ({
+      obj_id: freeIntruders[row].obj_id,
+      interceptorId: freeInterceptors[column].id,
+      solution: solutions[row][column],
+      source: 'solver',
+    }));
+
+  const assignments = [...pinned, ...solved].sort((a, b) =>
+    compareThreat(
+      intruders.find((intruder) => intruder.obj_id === a.obj_id)?.threat,
+      intruders.find((intruder) => intruder.obj_id === b.obj_id)?.threat,
+    ),
+  );
+  const assignedIntruders = new Set(assignments.map((assignment) => assignment.obj_id));
+  const busyInterceptors = new Set(assignments.map((assignment) => assignment.interceptorId));
+
+  return {
+    assignments,
+    unassigned: intruders.filter((intruder) => !assignedIntruders.has(intruder.obj_id)).map((intruder) => intruder.obj_id),
+    idleInterceptors: available.filter((interceptor) => !busyInterceptors.has(interceptor.id)).map((interceptor) => interceptor.id),
+  };
+};
@@ -0,0 +1,164 @@
+/**
+ * Cluster index แบบลำดับชั้นตามระยะบนจอ (pixel) ทุกระดับ zoom
+ * รวมจุดจาก zoom สูงลงต่ำบนพิกัด Web Mercator จึงคิดการยืดของละติจูดด้วย
+ * และใช้ grid ค้นจุดข้างเคียงแทนการเทียบทุกคู่
+ */
+
+import { type LatLng } from '../types/detection';
+
+export interface ClusterPoint<T> {
+  lat: number;
+  lng: number;
+  item: T;
+}
+
+export interface ClusterNode<T> {
+  id: string;
+  lat: number;
+  lng: number;
+  items: T[];
+  bounds: [[number, number], [number, number]]; // [[minLng, minLat], [maxLng, maxLat]]
+  expansionZoom: number;                        // zoom ที่ cluster แตกออก (> maxZoom = ซ้อนกันแม้ zoom สุด)
+}
+
+export interface ClusterIndexOptions {
+  radiusPx?: number;
+  minZoom?: number;
+  maxZoom?: number;
+}
+
+export interface ClusterIndex<T> {
+  getClusters: (zoom: number) => ClusterNode<T>[];
+  maxZoom: number;
+}
+
+// ขนาดโลกเป็น pixel ที่ zoom 0 (tile ของ Mapbox GL กว้าง 512 px)
+const WORLD_SIZE_PX = 512;
+const MAX_LATITUDE = 85.051129;
+
+// พิกัด Web Mercator แบบ normalize 0..1
+const project = (lat: number, lng: number) => {
+  const sin = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180);
+  return {
+    x: lng / 360 + 0.5,
+    y: 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI),
+  };
+};
+
+const unproject = (x: number, y: number): LatLng => ({
+  lat: (360 / Math.PI) * Math.atan(Math.exp((1 - 2 * y) * Math.PI)) - 90,
+  lng: (x - 0.5) * 360,
+});
+
+type Node<T> = {
+  x: number;
+  y: number;
+  items: T[];
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+  expansionZoom: number;
+  key: string;
+};
+
+const mergeNodes = <T>(nodes: Node<T>[], expansionZoom: number): Node<T> => {
+  if (nodes.length === 1) return nodes[0];
+  const total = nodes.reduce((sum, node) => sum + node.items.length, 0);
+  return {
+    x: nodes.reduce((sum, node) => sum + node.x * node.items.length, 0) / total,
+    y: nodes.reduce((sum, node) => sum + node.y * node.items.length, 0) / total,
+    items: nodes.flatMap((node) => node.items),
+    minLng: Math.min(...nodes.map((node) => node.minLng)),
+    minLat: Math.min(...nodes.map((node) => node.minLat)),
+    maxLng: Math.max(...nodes.map((node) => node.maxLng)),
+    maxLat: Math.max(...nodes.map((node) => node.maxLat)),
+    expansionZoom,
+    key: nodes[0].key,
+  };
+};
+
+// รวม node ที่อยู่ภายใน radius (หน่วย normalize) ของกันและกัน
+const clusterLevel = <T>(nodes: Node<T>[], radius: number, expansionZoom: number): Node<T>[] => {
+  const grid = new Map<string, number[]>();
+  const cellOf = (node: Node<T>) => [Math.floor(node.x / radius), Math.floor(node.y / radius)];
+  nodes.forEach((node, index) => {
+    const cell = cellOf(node).join(':');
+    const bucket = grid.get(cell);
+    if (bucket) bucket.push(index);
+    else grid.set(cell, [index]);
+  });
+
+  const visited = new Array<boolean>(nodes.length).fill(false);
+  const result: Node<T>[] = [];
+  nodes.forEach((node, index) => {
+    if (visited[index]) return;
+    visited[index] = true;
+    const [cx, cy] = cellOf(node);
+    const group = [node];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        grid.get(`${cx + dx}:${cy + dy}`)?.forEach((other) => {
+          if (visited[other]) return;
+          if (Math.hypot(nodes[other].x - node.x, nodes[other].y - node.y) > radius) return;
+          visited[other] = true;
+          group.push(nodes[other]);
+        });
+      }
+    }
+    result.push(mergeNodes(group, expansionZoom));
+  });
+  return result;
+};
+
+export const createClusterIndex = <T>(
+  points: ClusterPoint<T>[],
+  getKey: (item: T) => string,
+  { radiusPx = 50, minZoom = 0, maxZoom = 22 }: ClusterIndexOptions = {},
+): ClusterIndex<T> => {
+  // levels[z] = node ที่แสดงที่ zoom z, ระดับ maxZoom + 1 คือจุดเดี่ยวทั้งหมด
+  const levels: Node<T>[][] = [];
+  levels[maxZoom + 1] = points.map((point) => ({
+    ...project(point.lat, point.lng),
+    items: [point.item],
+    minLng: point.lng,
+    minLat: point.lat,
+    maxLng: point.lng,
+    maxLat: point.lat,
+    expansionZoom: maxZoom + 1,
+    key: getKey(point.item),
+  }));
+  for (let zoom = maxZoom; zoom >= minZoom; zoom--) {
+    levels[zoom] = clusterLevel(levels[zoom + 1], radiusPx / (WORLD_SIZE_PX * 2 ** zoom), zoom + 1);
+  }
+
+  const getClusters = (zoom: number) => {
+    const level = Math.max(minZoom, Math.min(maxZoom + 1, Math.floor(zoom)));
+    return levels[level].map((node) => ({
+      id: node.items.length > 1 ? `cluster:${node.key}` : node.key,
+      ...unproject(node.x, node.y),
+      items: node.items,
+      bounds: [
+        [node.minLng, node.minLat],
+        [node.maxLng, node.maxLat],
+      ] as [[number, number], [number, number]],
+      expansionZoom: node.expansionZoom,
+    }));
+  };
+
+  return { getClusters, maxZoom };
+};
+
+// ตำแหน่งของสมาชิกที่กระจายเป็นวงรอบจุดศูนย์กลาง (spiderfy) ห่างกัน spacingPx บนจอที่ zoom ปัจจุบัน
+export const getSpiderPositions = (center: LatLng, count: number, zoom: number, spacingPx = 44): LatLng[] => {
+  const scale = WORLD_SIZE_PX * 2 ** zoom;
+  const origin = project(center.lat, center.lng);
+  const radiusPx = Math.max(spacingPx, (spacingPx * count) / (2 * Math.PI));
+  return Array.from({ length: count }, (_, index) => {
+    const angle = (index / count) * 2 * Math.PI - Math.PI / 2;
+    return unproject(
+      origin.x + (Math.cos(angle) * radiusPx) / scale,
+      origin.y + (Math.sin(angle) * radiusPx) / scale,
+    );
+  });
+};
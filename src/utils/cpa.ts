@@ -0,0 +1,72 @@
+/**
+ * CPA (closest point of approach) ของวัตถุเทียบกับจุดป้องกัน
+ * คำนวณจากตำแหน่งและความเร็วที่ประมาณได้ แทนการสมมติว่าโดรนบินตรงเข้าหาจุดป้องกัน
+ */
+
+import { type LatLng } from '../types/detection';
+import { calculateDistanceMeters, toLocalMeters } from './geo';
+import { type MotionEstimate } from './motionEstimate';
+import { findRadiusCrossing, predictPosition } from './prediction';
+
+export interface CpaResult {
+  obj_id: string;
+  distance: number;                  // ระยะปัจจุบัน (m)
+  closingSpeed: number | null;       // m/s (บวก = กำลังเข้าใกล้)
+  cpaDistance: number;               // ระยะที่ใกล้ที่สุด (m)
+  timeToCpa: number | null;          // วินาที (0 = กำลังออกห่าง, null = ไม่ทราบความเร็ว)
+  cpaPoint: LatLng;
+  penetrates: boolean;               // จะเข้ามาในรัศมีหรือไม่
+  timeToPenetration: number | null;  // วินาที (0 = อยู่ในรัศมีแล้ว, null = ไม่เข้า)
+}
+
+export const computeCpa = (
+  objId: string,
+  position: LatLng,
+  estimate: MotionEstimate | undefined,
+  center: LatLng,
+  radiusMeters: number,
+): CpaResult => {
+  const distance = calculateDistanceMeters(center, estimate?.position ?? position);
+  const inside = distance <= radiusMeters;
+
+  // ไม่มีความเร็ว: ถือว่าลอยนิ่ง CPA คือตำแหน่งปัจจุบัน
+  if (!estimate || estimate.speed === 0) {
+    return {
+      obj_id: objId,
+      distance,
+      closingSpeed: null,
+      cpaDistance: distance,
+      timeToCpa: null,
+      cpaPoint: position,
+      penetrates: inside,
+      timeToPenetration: inside ? 0 : null,
+    };
+  }
+
+  const { x, y } = toLocalMeters(center, estimate.position);
+  const { east: vx, north: vy } = estimate.velocity;
+  const dot = x * vx + y * vy;
+  const timeToCpa = Math.max(0, -dot / (estimate.speed * estimate.speed));
+  const cpaPoint = predictPosition(estimate, timeToCpa);
+  const cpaDistance = calculateDistanceMeters(center, cpaPoint);
+  const crossing = findRadiusCrossing(objId, estimate, center, radiusMeters, Number.POSITIVE_INFINITY);
+
+  return {
+    obj_id: objId,
+    distance,
+    closingSpeed: distance > 0 ? -dot / distance : null,
+    cpaDistance,
+    timeToCpa,
+    cpaPoint,
+    penetrates: crossing !== null,
+    timeToPenetration: crossing ? crossing.timeSec : null,
+  };
+};
+
+// อยู่ในรัศมีก่อน แล้วตามเวลาที่จะเข้ารัศมี ส่วนที่ไม่เข้ารัศมีเรียงตามระยะ CPA
+export const compareByPenetration = (a: CpaResult, b: CpaResult) => {
+  if (a.timeToPenetration !== null && b.timeToPenetration !== null) return a.timeToPenetration - b.timeToPenetration;
+  if (a.timeToPenetration !== null) return -1;
+  if (b.timeToPenetration !== null) return 1;
+  return a.cpaDistance - b.cpaDistance;
+};
@@ -10,3 +10,11 @@ export const formatThaiDateTime = (dateString: string): string => {
   const date = new Date(dateString);
   return format(date, 'dd/MM/yyyy HH:mm:ss');
 };
+
+// แปลงระยะเวลา (วินาที) เป็น mm:ss
+// ตัวอย่าง: 75 → "01:15"
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+};
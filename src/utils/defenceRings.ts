@@ -0,0 +1,28 @@
+/**
+ * วงรัศมีซ้อนรอบจุดป้องกัน: ค่าเริ่มต้น และหาว่าระยะหนึ่งอยู่ในวงชั้นในสุดวงไหน
+ */
+
+import { type DefenceRing } from '../types/defenceRing';
+
+export const DEFAULT_DEFENCE_RINGS: DefenceRing[] = [
+  { id: 'ring-early-warning', name: 'Early warning', radiusMeters: 1500, color: '#fbc02d', severity: 'info' },
+  { id: 'ring-warning', name: 'Warning', radiusMeters: 800, color: '#ff6f00', severity: 'warning' },
+  { id: 'ring-critical', name: 'Critical', radiusMeters: 300, color: '#d32f2f', severity: 'critical' },
+];
+
+// เรียงจากวงนอกสุดเข้าหาวงในสุด
+export const sortRingsOutward = <T extends Pick<DefenceRing, 'radiusMeters'>>(rings: T[]) =>
+  [...rings].sort((a, b) => b.radiusMeters - a.radiusMeters);
+
+export const getOuterRadius = (rings: DefenceRing[]) =>
+  rings.reduce((outer, ring) => Math.max(outer, ring.radiusMeters), 0);
+
+// วงชั้นในสุดที่ครอบระยะนี้ (null = อยู่นอกทุกวง)
+export const getRingForDistance = (rings: DefenceRing[], distance: number | null): DefenceRing | null => {
+  if (distance === null || !Number.isFinite(distance)) return null;
+  return rings
+    .filter((ring) => distance <= ring.radiusMeters)
+    .reduce<DefenceRing | null>((inner, ring) => (!inner || ring.radiusMeters < inner.radiusMeters ? ring : inner), null);
+};
+
+export const createRingId = () => `ring-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
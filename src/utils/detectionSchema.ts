@@ -0,0 +1,265 @@
+/**
+ * ตรวจสอบและ normalize payload การตรวจจับจาก REST และ Socket.IO
+ * ให้เป็น DetectionEvent / DetectedObject ที่มีพิกัดเป็นตัวเลข, target field เดียว
+ * และ telemetry ที่มี type ชัดเจน โดยรายงาน field ที่ถูกแปลงค่าหรือตัดทิ้งแทนการ throw
+ */
+
+import {
+  type Camera,
+  type DetectedObject,
+  type DetectedObjectDetail,
+  type DetectionEvent,
+  type DetectionResponse,
+  type LatLng,
+  type PayloadIssue,
+} from '../types/detection';
+
+type RawRecord = Record<string, unknown>;
+
+type IssueContext = {
+  origin: PayloadIssue['origin'];
+  camId?: string;
+  issues: PayloadIssue[];
+};
+
+const LAT_KEYS = ['lat', 'latitude'];
+const LNG_KEYS = ['lng', 'lon', 'long', 'longitude'];
+const TARGET_LAT_KEYS = ['tar_lat'];
+const TARGET_LNG_KEYS = ['tar_lng', 'tar_long', 'tar_lon'];
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const report = (ctx: IssueContext, path: string, kind: PayloadIssue['kind'], message: string) => {
+  ctx.issues.push({
+    origin: ctx.origin,
+    cam_id: ctx.camId,
+    path,
+    kind,
+    message,
+    receivedAt: new Date().toISOString(),
+  });
+};
+
+// แปลงค่าเป็นตัวเลข คืนค่า coerced = true ถ้าต้องแปลงจาก string
+const readNumber = (value: unknown): { value: number | null; coerced: boolean } => {
+  if (typeof value === 'number') return { value: Number.isFinite(value) ? value : null, coerced: false };
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return { value: Number.isFinite(parsed) ? parsed : null, coerced: true };
+  }
+  return { value: null, coerced: false };
+};
+
+// หาค่าตัวเลขจาก key แรกที่ใช้ได้ใน sources ตามลำดับ
+const pickNumber = (
+  ctx: IssueContext,
+  path: string,
+  sources: Array<{ record: RawRecord | null; prefix: string }>,
+  keys: string[],
+): number | null => {
+  for (const { record, prefix } of sources) {
+    if (!record) continue;
+    for (const key of keys) {
+      if (!(key in record) || record[key] === null || record[key] === undefined) continue;
+      const { value, coerced } = readNumber(record[key]);
+      const fieldPath = `${path}.${prefix}${key}`;
+      if (value === null) {
+        report(ctx, fieldPath, 'rejected', `not a number: ${JSON.stringify(record[key])}`);
+        continue;
+      }
+      if (coerced) report(ctx, fieldPath, 'coerced', 'numeric string converted to number');
+      return value;
+    }
+  }
+  return null;
+};
+
+const pickString = (
+  ctx: IssueContext,
+  path: string,
+  record: RawRecord,
+  key: string,
+  fallback: string,
+): string => {
+  const value = record[key];
+  if (typeof value === 'string' && value.trim() !== '') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    report(ctx, `${path}.${key}`, 'coerced', 'number converted to string');
+    return String(value);
+  }
+  report(ctx, `${path}.${key}`, 'coerced', `missing, defaulted to "${fallback}"`);
+  return fallback;
+};
+
+const isValidLatitude = (value: number) => value >= -90 && value <= 90;
+const isValidLongitude = (value: number) => value >= -180 && value <= 180;
+
+export const normalizeDetectedObject = (
+  raw: unknown,
+  path: string,
+  ctx: IssueContext,
+): DetectedObject | null => {
+  if (!isRecord(raw)) {
+    report(ctx, path, 'rejected', 'object entry is not an object');
+    return null;
+  }
+
+  const rawId = raw.obj_id;
+  if (typeof rawId !== 'string' && typeof rawId !== 'number') {
+    report(ctx, `${path}.obj_id`, 'rejected', 'missing obj_id');
+    return null;
+  }
+  const objId = String(rawId);
+  if (typeof rawId === 'number') report(ctx, `${path}.obj_id`, 'coerced', 'number converted to string');
+
+  // server ส่งทั้ง details และ detail (legacy) จึงอ่านทั้งสองที่
+  const details = isRecord(raw.details) ? raw.details : null;
+  const legacyDetail = isRecord(raw.detail) ? raw.detail : null;
+  if (legacyDetail) report(ctx, `${path}.detail`, 'coerced', 'legacy "detail" merged into "details"');
+
+  const sources = [
+    { record: raw, prefix: '' },
+    { record: details, prefix: 'details.' },
+    { record: legacyDetail, prefix: 'detail.' },
+  ];
+  const telemetrySources = sources.slice(1).concat(sources.slice(0, 1));
+
+  const lat = pickNumber(ctx, path, sources, LAT_KEYS);
+  const lng = pickNumber(ctx, path, sources, LNG_KEYS);
+  if (lat === null || lng === null || !isValidLatitude(lat) || !isValidLongitude(lng)) {
+    report(ctx, path, 'rejected', `invalid coordinates (lat: ${lat}, lng: ${lng})`);
+    return null;
+  }
+
+  const speed = pickNumber(ctx, path, telemetrySources, ['speed']);
+  const alt = pickNumber(ctx, path, telemetrySources, ['alt', 'altitude']);
+  const targetLat = pickNumber(ctx, path, telemetrySources, TARGET_LAT_KEYS);
+  const targetLng = pickNumber(ctx, path, telemetrySources, TARGET_LNG_KEYS);
+
+  let target: LatLng | null = null;
+  if (targetLat !== null && targetLng !== null) {
+    if (isValidLatitude(targetLat) && isValidLongitude(targetLng)) {
+      target = { lat: targetLat, lng: targetLng };
+    } else {
+      report(ctx, `${path}.details`, 'rejected', 'target coordinates out of range');
+    }
+  } else if (targetLat !== null || targetLng !== null) {
+    report(ctx, `${path}.details`, 'rejected', 'incomplete target coordinates');
+  }
+
+  const telemetry: DetectedObjectDetail = { lat, lng };
+  if (speed !== null) telemetry.speed = speed;
+  if (alt !== null) telemetry.alt = alt;
+  if (target) {
+    telemetry.tar_lat = target.lat;
+    telemetry.tar_lng = target.lng;
+  }
+
+  return {
+    obj_id: objId,
+    type: pickString(ctx, path, raw, 'type', 'unknown'),
+    lat,
+    lng,
+    objective: pickString(ctx, path, raw, 'objective', 'unknown'),
+    size: pickString(ctx, path, raw, 'size', 'unknown'),
+    speed: speed ?? undefined,
+    details: telemetry,
+    target,
+  };
+};
+
+const normalizeCamera = (raw: unknown, camId: string, path: string, ctx: IssueContext): Camera => {
+  if (!isRecord(raw)) {
+    report(ctx, `${path}.camera`, 'coerced', 'missing camera, derived from cam_id');
+    return { id: camId, name: camId.slice(0, 8), location: '' };
+  }
+  return {
+    id: typeof raw.id === 'string' ? raw.id : camId,
+    name: typeof raw.name === 'string' ? raw.name : camId.slice(0, 8),
+    location: typeof raw.location === 'string' ? raw.location : '',
+  };
+};
+
+export const normalizeDetectionEvent = (
+  raw: unknown,
+  path: string,
+  ctx: IssueContext,
+): DetectionEvent | null => {
+  if (!isRecord(raw)) {
+    report(ctx, path, 'rejected', 'event is not an object');
+    return null;
+  }
+
+  const camId = typeof raw.cam_id === 'string' && raw.cam_id ? raw.cam_id : ctx.camId;
+  if (!camId) {
+    report(ctx, `${path}.cam_id`, 'rejected', 'missing cam_id');
+    return null;
+  }
+  const eventCtx: IssueContext = { ...ctx, camId };
+
+  const time = typeof raw.timestamp === 'string' || typeof raw.timestamp === 'number'
+    ? new Date(raw.timestamp)
+    : null;
+  if (!time || Number.isNaN(time.getTime())) {
+    report(eventCtx, `${path}.timestamp`, 'rejected', `invalid timestamp: ${JSON.stringify(raw.timestamp)}`);
+    return null;
+  }
+  if (typeof raw.timestamp !== 'string') {
+    report(eventCtx, `${path}.timestamp`, 'coerced', 'epoch converted to ISO 8601');
+  }
+
+  // REST ส่ง image_path ส่วน socket ส่ง image.path
+  let imagePath = '';
+  if (typeof raw.image_path === 'string') imagePath = raw.image_path;
+  else if (isRecord(raw.image) && typeof raw.image.path === 'string') imagePath = raw.image.path;
+
+  const { value: numericId } = readNumber(raw.id);
+
+  const rawObjects = Array.isArray(raw.objects) ? raw.objects : [];
+  if (!Array.isArray(raw.objects)) {
+    report(eventCtx, `${path}.objects`, 'coerced', 'missing objects, defaulted to []');
+  }
+  const objects = rawObjects
+    .map((item, index) => normalizeDetectedObject(item, `${path}.objects[${index}]`, eventCtx))
+    .filter((item): item is DetectedObject => item !== null);
+
+  return {
+    id: numericId ?? time.getTime(),
+    cam_id: camId,
+    camera: normalizeCamera(raw.camera, camId, path, eventCtx),
+    timestamp: typeof raw.timestamp === 'string' ? raw.timestamp : time.toISOString(),
+    image_path: imagePath,
+    objects,
+  };
+};
+
+export const normalizeDetectionResponse = (raw: unknown, camId?: string): DetectionResponse => {
+  const ctx: IssueContext = { origin: 'rest', camId, issues: [] };
+  const body = isRecord(raw) ? raw : null;
+  const list = Array.isArray(body?.data) ? body.data : Array.isArray(raw) ? raw : null;
+
+  if (!list) {
+    report(ctx, 'data', 'rejected', 'response has no data array');
+    return { success: false, data: [], issues: ctx.issues };
+  }
+
+  const data = list
+    .map((item, index) => normalizeDetectionEvent(item, `data[${index}]`, ctx))
+    .filter((item): item is DetectionEvent => item !== null);
+
+  return {
+    success: typeof body?.success === 'boolean' ? body.success : true,
+    data,
+    issues: ctx.issues,
+  };
+};
+
+export const normalizeSocketDetection = (
+  raw: unknown,
+  camId?: string,
+): { event: DetectionEvent | null; issues: PayloadIssue[] } => {
+  const ctx: IssueContext = { origin: 'socket', camId, issues: [] };
+  const event = normalizeDetectionEvent(raw, 'object_detection', ctx);
+  return { event, issues: ctx.issues };
+};
@@ -0,0 +1,137 @@
+/**
+ * Store สำหรับรวม detection events จาก REST (history) และ Socket.IO (real-time)
+ * ให้เป็น stream เดียวที่ไม่ซ้ำกันและเรียงตามเวลา (ใหม่สุดอยู่หน้าสุด)
+ */
+
+import { type DetectedObject, type DetectionEvent } from '../types/detection';
+
+export type DetectionEventOrigin = 'rest' | 'socket';
+
+export interface DetectionStoreState {
+  byKey: Record<string, DetectionEvent>;
+  origins: Record<string, DetectionEventOrigin>;
+  orderedKeys: string[];                 // เรียงจากใหม่ไปเก่า
+  liveSince: number | null;              // epoch ms ของ event แรกที่ได้รับแบบ live (null = ยังไม่มี)
+}
+
+export type DetectionStoreAction =
+  | { type: 'merge'; events: DetectionEvent[]; origin: DetectionEventOrigin }
+  | { type: 'reset' };
+
+export type LatestObjectEntry = {
+  object: DetectedObject;
+  lastSeen: string;
+};
+
+export const initialDetectionStoreState: DetectionStoreState = {
+  byKey: {},
+  origins: {},
+  orderedKeys: [],
+  liveSince: null,
+};
+
+const getTime = (timestamp: string) => {
+  const time = new Date(timestamp).getTime();
+  return Number.isFinite(time) ? time : 0;
+};
+
+// identity ที่ทั้ง REST และ socket ให้ค่าตรงกัน: กล้อง + เวลา + รูปภาพ
+// socket event ไม่มี server id จึงใช้ id เป็น key โดยตรงไม่ได้
+export const getDetectionEventKey = (event: DetectionEvent): string =>
+  `${event.cam_id}|${event.timestamp}|${event.image_path ?? ''}`;
+
+const compareKeys = (state: Pick<DetectionStoreState, 'byKey'>) => (a: string, b: string) =>
+  getTime(state.byKey[b].timestamp) - getTime(state.byKey[a].timestamp);
+
+// REST มี server id ที่แท้จริง จึงให้ข้อมูลจาก REST ทับข้อมูลจาก socket ได้ แต่ไม่ทับกลับ
+const shouldReplace = (current: DetectionEventOrigin | undefined, incoming: DetectionEventOrigin) =>
+  current === undefined || incoming === 'rest' || current === 'socket';
+
+export const mergeDetectionEvents = (
+  state: DetectionStoreState,
+  events: DetectionEvent[],
+  origin: DetectionEventOrigin,
+): DetectionStoreState => {
+  if (events.length === 0) return state;
+
+  // จำเวลาของ event live ชุดแรก ใช้แยกวัตถุที่เพิ่งปรากฏออกจากวัตถุใน history ที่โหลดตอนเปิดหน้า
+  const liveSince =
+    origin === 'socket' && state.liveSince === null
+      ? Math.min(...events.map((event) => getTime(event.timestamp)))
+      : state.liveSince;
+
+  const byKey = { ...state.byKey };
+  const origins = { ...state.origins };
+  let hasNewKey = false;
+  let changed = false;
+
+  events.forEach((event) => {
+    const key = getDetectionEventKey(event);
+    const current = origins[key];
+    if (!shouldReplace(current, origin)) return;
+    if (current === undefined) hasNewKey = true;
+    byKey[key] = event;
+    origins[key] = origin;
+    changed = true;
+  });
+
+  if (!changed) return liveSince === state.liveSince ? state : { ...state, liveSince };
+
+  const orderedKeys = hasNewKey
+    ? Object.keys(byKey).sort(compareKeys({ byKey }))
+    : state.orderedKeys;
+
+  return { byKey, origins, orderedKeys, liveSince };
+};
+
+export const detectionStoreReducer = (
+  state: DetectionStoreState,
+  action: DetectionStoreAction,
+): DetectionStoreState => {
+  switch (action.type) {
+    case 'merge':
+      return mergeDetectionEvents(state, action.events, action.origin);
+    case 'reset':
+      return initialDetectionStoreState;
+    default:
+      return state;
+  }
+};
+
+// ========== Selectors ========== //
+
+export const selectDetectionEvents = (state: DetectionStoreState): DetectionEvent[] =>
+  state.orderedKeys.map((key) => state.byKey[key]);
+
+export const selectLatestEvent = (state: DetectionStoreState): DetectionEvent | undefined => {
+  const key = state.orderedKeys[0];
+  return key ? state.byKey[key] : undefined;
+};
+
+// ตำแหน่งล่าสุดของแต่ละ obj_id (events ต้องเรียงจากใหม่ไปเก่าตาม selectDetectionEvents)
+export const selectLatestObjects = (events: DetectionEvent[]): LatestObjectEntry[] => {
+  const map = new Map<string, LatestObjectEntry>();
+
+  events.forEach((event) => {
+    event.objects?.forEach((obj) => {
+      if (!map.has(obj.obj_id)) map.set(obj.obj_id, { object: obj, lastSeen: event.timestamp });
+    });
+  });
+
+  return Array.from(map.values());
+};
+
+// events ที่เกิดขึ้นไม่เกินเวลาที่กำหนด (ใช้แสดงสถานะ ณ จุดใดจุดหนึ่งบน timeline, null = ทั้งหมด)
+export const selectEventsAt = (events: DetectionEvent[], time: number | null): DetectionEvent[] =>
+  time === null ? events : events.filter((event) => new Date(event.timestamp).getTime() <= time);
+
+// ช่วงเวลาที่มีข้อมูลของหลาย feed รวมกัน (events เรียงจากใหม่ไปเก่า)
+export const selectTimeRange = (...eventLists: DetectionEvent[][]): { start: number; end: number } | null => {
+  const times = eventLists
+    .filter((events) => events.length > 0)
+    .flatMap((events) => [events[0], events[events.length - 1]])
+    .map((event) => new Date(event.timestamp).getTime())
+    .filter(Number.isFinite);
+  if (times.length === 0) return null;
+  return { start: Math.min(...times), end: Math.max(...times) };
+};
@@ -0,0 +1,59 @@
+import { type LatLng } from '../types/detection';
+
+export const EARTH_RADIUS_METERS = 6371000;
+
+export const toRadians = (value: number) => (value * Math.PI) / 180;
+export const toDegrees = (value: number) => (value * 180) / Math.PI;
+
+// ระยะทางบนผิวโลก (haversine) หน่วยเมตร
+export const calculateDistanceMeters = (from: LatLng, to: LatLng) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const sinDLat = Math.sin(dLat / 2);
+  const sinDLng = Math.sin(dLng / 2);
+  const a = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLng * sinDLng;
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+};
+
+// ทิศทางจาก from ไป to หน่วยองศา (0 = เหนือ, 90 = ตะวันออก)
+export const calculateBearingDegrees = (from: LatLng, to: LatLng) => {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+// จุดที่ได้จากการเดินทาง distance เมตรในทิศ bearing องศา
+export const destinationPoint = (from: LatLng, bearingDegrees: number, distanceMeters: number): LatLng => {
+  const angular = distanceMeters / EARTH_RADIUS_METERS;
+  const bearing = toRadians(bearingDegrees);
+  const lat1 = toRadians(from.lat);
+  const lng1 = toRadians(from.lng);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing),
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2),
+    );
+  return { lat: toDegrees(lat2), lng: toDegrees(lng2) };
+};
+
+// แปลงเป็นพิกัดระนาบท้องถิ่น (เมตร, x = ตะวันออก, y = เหนือ) รอบจุด origin
+// แม่นยำพอสำหรับระยะไม่กี่กิโลเมตรที่ใช้ในสนาม
+export const toLocalMeters = (origin: LatLng, point: LatLng) => ({
+  x: toRadians(point.lng - origin.lng) * EARTH_RADIUS_METERS * Math.cos(toRadians(origin.lat)),
+  y: toRadians(point.lat - origin.lat) * EARTH_RADIUS_METERS,
+});
+
+export const fromLocalMeters = (origin: LatLng, local: { x: number; y: number }): LatLng => ({
+  lat: origin.lat + toDegrees(local.y / EARTH_RADIUS_METERS),
+  lng: origin.lng + toDegrees(local.x / (EARTH_RADIUS_METERS * Math.cos(toRadians(origin.lat)))),
+});
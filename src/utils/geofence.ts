@@ -0,0 +1,135 @@
+/**
+ * ตรวจสอบตำแหน่งวัตถุกับโซน geofence และสร้าง event เข้า/ออก/ค้างในโซน
+ * เก็บสถานะต่อคู่ (โซน, obj_id) เพื่อให้แต่ละการเปลี่ยนแปลงเกิด event ครั้งเดียว
+ */
+
+import { type LatLng } from '../types/detection';
+import { type GeofenceEvent, type GeofenceZone, type ZoneKind } from '../types/geofence';
+import { calculateDistanceMeters, toLocalMeters } from './geo';
+
+export interface GeofenceSample {
+  obj_id: string;
+  position: LatLng;
+  time: number;                  // epoch ms
+}
+
+type Occupancy = { enteredAt: number; dwellReported: boolean };
+
+// key = `${zoneId}|${obj_id}` ของวัตถุที่อยู่ในโซน
+export type GeofenceState = Record<string, Occupancy>;
+
+export const ZONE_KIND_LABELS: Record<ZoneKind, string> = {
+  protected: 'Protected asset',
+  'no-fly': 'No-fly area',
+  launch: 'Launch area',
+};
+
+export const ZONE_KIND_COLORS: Record<ZoneKind, string> = {
+  protected: '#1e88e5',
+  'no-fly': '#e53935',
+  launch: '#8e24aa',
+};
+
+// ray casting บนระนาบท้องถิ่นรอบจุดที่ตรวจ
+const isInsidePolygon = (points: LatLng[], point: LatLng) => {
+  if (points.length < 3) return false;
+  const local = points.map((vertex) => toLocalMeters(point, vertex));
+  let inside = false;
+  for (let i = 0, j = local.length - 1; i < local.length; j = i++) {
+    const a = local[i];
+    const b = local[j];
+    if (a.y > 0 !== b.y > 0 && 0 < ((b.x - a.x) * (0 - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+export const isInsideZone = (zone: GeofenceZone, point: LatLng) =>
+  zone.shape.type === 'circle'
+    ? calculateDistanceMeters(zone.shape.center, point) <= zone.shape.radiusMeters
+    : isInsidePolygon(zone.shape.points, point);
+
+export const getZoneCenter = (zone: GeofenceZone): LatLng => {
+  if (zone.shape.type === 'circle') return zone.shape.center;
+  const { points } = zone.shape;
+  return {
+    lat: points.reduce((total, point) => total + point.lat, 0) / points.length,
+    lng: points.reduce((total, point) => total + point.lng, 0) / points.length,
+  };
+};
+
+const occupancyKey = (zoneId: string, objId: string) => `${zoneId}|${objId}`;
+
+// samples ต้องเรียงตามเวลา คืน state ใหม่และ event ที่เกิดขึ้น
+export const evaluateGeofences = (
+  state: GeofenceState,
+  zones: GeofenceZone[],
+  samples: GeofenceSample[],
+): { state: GeofenceState; events: GeofenceEvent[] } => {
+  const next: GeofenceState = { ...state };
+  const events: GeofenceEvent[] = [];
+  const activeZones = zones.filter((zone) => zone.enabled);
+
+  const emit = (
+    type: GeofenceEvent['type'],
+    zone: GeofenceZone,
+    sample: GeofenceSample,
+    dwellSeconds?: number,
+  ) =>
+    events.push({
+      id: `${type}-${zone.id}-${sample.obj_id}-${sample.time}`,
+      type,
+      zoneId: zone.id,
+      zoneName: zone.name,
+      zoneKind: zone.kind,
+      obj_id: sample.obj_id,
+      position: sample.position,
+      time: sample.time,
+      dwellSeconds,
+    });
+
+  samples.forEach((sample) => {
+    activeZones.forEach((zone) => {
+      const key = occupancyKey(zone.id, sample.obj_id);
+      const occupancy = next[key];
+      const inside = isInsideZone(zone, sample.position);
+
+      if (inside && !occupancy) {
+        next[key] = { enteredAt: sample.time, dwellReported: false };
+        if (zone.alertOnEnter) emit('enter', zone, sample);
+        return;
+      }
+
+      if (!inside && occupancy) {
+        delete next[key];
+        if (zone.alertOnExit) emit('exit', zone, sample, (sample.time - occupancy.enteredAt) / 1000);
+        return;
+      }
+
+      if (inside && occupancy && !occupancy.dwellReported && zone.dwellSeconds !== null) {
+        const dwellSeconds = (sample.time - occupancy.enteredAt) / 1000;
+        if (dwellSeconds >= zone.dwellSeconds) {
+          next[key] = { ...occupancy, dwellReported: true };
+          emit('dwell', zone, sample, dwellSeconds);
+        }
+      }
+    });
+  });
+
+  // โซนที่ถูกลบหรือปิดไปแล้วไม่ต้องจำสถานะ
+  const activeIds = new Set(activeZones.map((zone) => zone.id));
+  Object.keys(next).forEach((key) => {
+    if (!activeIds.has(key.slice(0, key.indexOf('|')))) delete next[key];
+  });
+
+  return { state: next, events };
+};
+
+// วัตถุที่อยู่ในแต่ละโซนขณะนี้
+export const getZoneOccupants = (state: GeofenceState): Record<string, string[]> =>
+  Object.keys(state).reduce<Record<string, string[]>>((result, key) => {
+    const separator = key.indexOf('|');
+    const zoneId = key.slice(0, separator);
+    const objId = key.slice(separator + 1);
+    result[zoneId] = [...(result[zoneId] ?? []), objId];
+    return result;
+  }, {});
@@ -0,0 +1,99 @@
+/**
+ * คำนวณจุดและเวลาสกัดกั้นที่เร็วที่สุดของ interceptor ที่ขึ้นบินจากจุดป้องกัน
+ * สมมติว่าผู้บุกรุกบินด้วยความเร็วคงที่ตาม motion estimate และ interceptor บินตรงด้วยความเร็วสูงสุดหลัง launch delay
+ */
+
+import { type LatLng } from '../types/detection';
+import { type Interceptor } from '../types/interceptor';
+import { calculateDistanceMeters, fromLocalMeters, toLocalMeters } from './geo';
+import { type MotionEstimate } from './motionEstimate';
+
+export interface InterceptSolution {
+  obj_id: string;
+  interceptorId: string;
+  interceptorName: string;
+  launchPoint: LatLng;
+  interceptPoint: LatLng;
+  timeSec: number;                   // เวลาจากตอนนี้ถึงจุดสกัดกั้น (รวม launch delay)
+  beforePenetration: boolean;        // สกัดได้ก่อนเข้ารัศมีป้องกันหรือไม่
+}
+
+export const DEFAULT_INTERCEPTORS: Interceptor[] = [
+  { id: 'interceptor-1', name: 'Interceptor 1', maxSpeed: 40, launchDelaySec: 10, available: true },
+];
+
+const EPSILON = 1e-9;
+
+// เวลาที่น้อยที่สุด t >= delay ที่ |p + v·t| = speed·(t - delay) (null = ตามไม่ทัน)
+const solveInterceptTime = (
+  p: { x: number; y: number },
+  v: { x: number; y: number },
+  speed: number,
+  delay: number,
+): number | null => {
+  const a = v.x * v.x + v.y * v.y - speed * speed;
+  const b = 2 * (p.x * v.x + p.y * v.y + speed * speed * delay);
+  const c = p.x * p.x + p.y * p.y - speed * speed * delay * delay;
+
+  const roots: number[] = [];
+  if (Math.abs(a) < EPSILON) {
+    if (Math.abs(b) > EPSILON) roots.push(-c / b);
+  } else {
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return null;
+    const sqrt = Math.sqrt(discriminant);
+    roots.push((-b - sqrt) / (2 * a), (-b + sqrt) / (2 * a));
+  }
+
+  const feasible = roots.filter((t) => Number.isFinite(t) && t >= delay).sort((x, y) => x - y);
+  return feasible[0] ?? null;
+};
+
+export const computeIntercept = (
+  objId: string,
+  position: LatLng,
+  estimate: MotionEstimate | undefined,
+  base: LatLng,
+  interceptor: Interceptor,
+  timeToPenetration: number | null,
+): InterceptSolution | null => {
+  if (interceptor.maxSpeed <= 0) return null;
+  const start = estimate?.position ?? position;
+  const p = toLocalMeters(base, start);
+  const v = estimate ? { x: estimate.velocity.east, y: estimate.velocity.north } : { x: 0, y: 0 };
+  const delay = Math.max(0, interceptor.launchDelaySec);
+
+  const timeSec = solveInterceptTime(p, v, interceptor.maxSpeed, delay);
+  if (timeSec === null) return null;
+
+  return {
+    obj_id: objId,
+    interceptorId: interceptor.id,
+    interceptorName: interceptor.name,
+    launchPoint: base,
+    interceptPoint: fromLocalMeters(base, { x: p.x + v.x * timeSec, y: p.y + v.y * timeSec }),
+    timeSec,
+    // อยู่ในรัศมีแล้ว (0) สกัดก่อนเข้าไม่ได้, ไม่เข้ารัศมีเลย (null) ถือว่าทัน
+    beforePenetration: timeToPenetration === null || (timeToPenetration > 0 && timeSec <= timeToPenetration),
+  };
+};
+
+// interceptor ที่พร้อมใช้งานและไปถึงได้เร็วที่สุด
+export const computeBestIntercept = (
+  objId: string,
+  position: LatLng,
+  estimate: MotionEstimate | undefined,
+  base: LatLng,
+  interceptors: Interceptor[],
+  timeToPenetration: number | null,
+): InterceptSolution | null =>
+  interceptors
+    .filter((interceptor) => interceptor.available)
+    .map((interceptor) => computeIntercept(objId, position, estimate, base, interceptor, timeToPenetration))
+    .reduce<InterceptSolution | null>(
+      (best, solution) => (solution && (!best || solution.timeSec < best.timeSec) ? solution : best),
+      null,
+    );
+
+export const getInterceptDistance = (solution: InterceptSolution) =>
+  calculateDistanceMeters(solution.launchPoint, solution.interceptPoint);
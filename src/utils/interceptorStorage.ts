@@ -0,0 +1,38 @@
+/**
+ * เก็บรายการ interceptor ไว้ใน localStorage ของ browser (ยังไม่เคยบันทึก = ใช้ค่าเริ่มต้น)
+ */
+
+import { type Interceptor } from '../types/interceptor';
+import { DEFAULT_INTERCEPTORS } from './intercept';
+
+const STORAGE_KEY = 'tesa.interceptors';
+
+const isInterceptor = (value: unknown): value is Interceptor => {
+  if (typeof value !== 'object' || value === null) return false;
+  const interceptor = value as Partial<Interceptor>;
+  return (
+    typeof interceptor.id === 'string' &&
+    typeof interceptor.maxSpeed === 'number' &&
+    typeof interceptor.launchDelaySec === 'number'
+  );
+};
+
+export const loadInterceptors = (): Interceptor[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_INTERCEPTORS;
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isInterceptor) : DEFAULT_INTERCEPTORS;
+  } catch (error) {
+    console.warn('Unable to read interceptors', error);
+    return DEFAULT_INTERCEPTORS;
+  }
+};
+
+export const saveInterceptors = (interceptors: Interceptor[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(interceptors));
+  } catch (error) {
+    console.warn('Unable to save interceptors', error);
+  }
+};
@@ -0,0 +1,44 @@
+/**
+ * แปลง icon ของ Iconify เป็นภาพ SDF สำหรับ symbol layer ของแผนที่
+ * ภาพเป็นสีเดียว จึงกำหนดสีตามวัตถุด้วย icon-color ได้โดยไม่ต้องสร้างภาพแยกทุกสี
+ * icon ของวัตถุถูก addIcon ไว้ใน objectStyle แล้ว loadIcon จึงไม่ต้องเรียก Iconify API
+ */
+
+import { buildIcon, loadIcon } from '@iconify/react';
+import { type RendererMap } from '../types/mapRenderer';
+
+const ICON_SIZE = 48;
+// icon ที่โหลดไม่ได้ (เช่น ไม่ได้รวมมากับ bundle และไม่มี network) ไม่ลองซ้ำทุกครั้งที่ข้อมูลอัปเดต
+const failedIcons = new Set<string>();
+
+// id ของภาพใน style ตามชื่อ icon เช่น 'mdi:car' -> 'icon-mdi-car'
+export const getMapIconId = (iconName: string) => `icon-${iconName.replace(':', '-')}`;
+
+const loadImage = (svg: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image(ICON_SIZE, ICON_SIZE);
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Cannot render icon'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+// เพิ่มภาพของ icon ลงใน style ถ้ายังไม่มี (ไม่มีผลถ้าโหลด icon ไม่ได้ ตัว circle layer ยังแสดงอยู่)
+export const addMapIcon = async (map: RendererMap, iconName: string) => {
+  const id = getMapIconId(iconName);
+  if (map.hasImage(id) || failedIcons.has(iconName)) return;
+
+  try {
+    const icon = await loadIcon(iconName);
+    const { attributes, body } = buildIcon(icon, { width: ICON_SIZE, height: ICON_SIZE });
+    const attrs = Object.entries(attributes)
+      .map(([key, value]) => `${key}="${value}"`)
+      .join(' ');
+    const image = await loadImage(
+      `<svg xmlns="http://www.w3.org/2000/svg" ${attrs} style="color:#000">${body}</svg>`,
+    );
+    if (!map.hasImage(id)) map.addImage(id, image, { sdf: true });
+  } catch (error) {
+    failedIcons.add(iconName);
+    console.warn(`Failed to load map icon ${iconName}:`, error);
+  }
+};
@@ -0,0 +1,50 @@
+/**
+ * ตัววาดแผนที่ตามโหมด: online ใช้ Mapbox GL (style mapbox:// ต้องมี token)
+ * offline ใช้ MapLibre GL ซึ่งไม่ต้องใช้ token และไม่ติดต่อ server ของ Mapbox เลย
+ */
+
+import mapboxgl from 'mapbox-gl';
+import * as maplibregl from 'maplibre-gl';
+import 'maplibre-gl/dist/maplibre-gl.css';
+import { mapStyleConfig } from '../config/mapStyle';
+import {
+  type MapBounds,
+  type MapControl,
+  type MapGeoJSONSource,
+  type MapMarker,
+  type MapViewOptions,
+  type RendererMap,
+} from '../types/mapRenderer';
+import { createOfflineMapStyle } from './offlineMapStyle';
+
+export const isOfflineMap = mapStyleConfig.mode === 'offline';
+
+// MapLibre แยกมาจาก Mapbox GL จึงสร้างแต่ละส่วนด้วย option เดียวกันได้ ผลลัพธ์ใช้ผ่าน types/mapRenderer
+export const createMap = (options: MapViewOptions): RendererMap =>
+  isOfflineMap
+    ? new maplibregl.Map({
+        ...options,
+        style: createOfflineMapStyle({
+          tilesUrl: mapStyleConfig.offlineTilesUrl,
+          tilesMaxZoom: mapStyleConfig.offlineTilesMaxZoom,
+          glyphsUrl: mapStyleConfig.offlineGlyphsUrl,
+          font: mapStyleConfig.offlineFont,
+          thaiFontUrl: mapStyleConfig.offlineThaiFontUrl,
+        }),
+      })
+    : new mapboxgl.Map({ ...options, style: mapStyleConfig.onlineStyle });
+
+export const createMarker = (options: { element: HTMLElement; draggable: boolean }): MapMarker =>
+  isOfflineMap ? new maplibregl.Marker(options) : new mapboxgl.Marker(options);
+
+export const createScaleControl = (): MapControl =>
+  isOfflineMap ? new maplibregl.ScaleControl({ unit: 'metric' }) : new mapboxgl.ScaleControl({ unit: 'metric' });
+
+export const createLngLatBounds = (sw: [number, number], ne: [number, number]): MapBounds =>
+  isOfflineMap ? new maplibregl.LngLatBounds(sw, ne) : new mapboxgl.LngLatBounds(sw, ne);
+
+// source ที่ไม่ใช่ GeoJSON (หรือยังไม่ได้เพิ่ม) ได้ undefined
+export const getGeoJSONSource = (map: RendererMap | null, id: string): MapGeoJSONSource | undefined => {
+  const source = map?.getSource(id);
+  return source && 'setData' in source && typeof source.setData === 'function' ? (source as MapGeoJSONSource) : undefined;
+};
@@ -0,0 +1,101 @@
+/**
+ * ความคืบหน้าภารกิจของโดรนฝ่ายรุกเทียบกับเป้าหมาย (tar_lat/tar_lng)
+ * วัดจากตำแหน่งแรกที่เห็นใน track และใช้ความเร็วจาก motion estimate ประเมิน ETA และสถานะ
+ */
+
+import { type LatLng } from '../types/detection';
+import { calculateBearingDegrees, calculateDistanceMeters, toLocalMeters } from './geo';
+import { type MotionEstimate } from './motionEstimate';
+import { getObjectTarget } from './objectGeo';
+import { type ObjectTrack } from './tracks';
+
+// en-route = กำลังมุ่งหน้า, arrived = ถึงเป้าแล้ว, diverging = ออกห่างจากเป้า, stalled = หยุดนิ่งก่อนถึงเป้า
+export type MissionState = 'en-route' | 'arrived' | 'diverging' | 'stalled';
+
+export interface MissionProgress {
+  obj_id: string;
+  target: LatLng;
+  remainingMeters: number;
+  bearing: number;                   // องศาจากโดรนไปเป้า (0 = เหนือ)
+  closingSpeed: number | null;       // m/s (บวก = เข้าใกล้เป้า), null = ไม่ทราบความเร็ว
+  eta: number | null;                // วินาที, null = ไม่ได้มุ่งหน้าเข้าเป้า
+  percent: number;                   // 0-100 เทียบระยะจากตำแหน่งแรกที่เห็น
+  state: MissionState;
+}
+
+export const MISSION_STATE_LABELS: Record<MissionState, string> = {
+  'en-route': 'En route',
+  arrived: 'Arrived',
+  diverging: 'Diverging',
+  stalled: 'Stalled',
+};
+
+export const MISSION_STATE_COLORS: Record<MissionState, string> = {
+  'en-route': '#1e88e5',
+  arrived: '#43a047',
+  diverging: '#e53935',
+  stalled: '#fb8c00',
+};
+
+const ARRIVAL_RADIUS_M = 30;
+// ช้ากว่านี้ถือว่าหยุดนิ่ง (m/s)
+const STALL_SPEED = 0.5;
+// ระยะเหลือที่เพิ่มจากระยะใกล้สุดที่เคยทำได้ก่อนถือว่ากำลังออกห่าง (กัน jitter ของ GPS)
+const DIVERGE_MARGIN_M = 50;
+
+export const computeMissionProgress = (
+  track: ObjectTrack,
+  estimate: MotionEstimate | undefined,
+): MissionProgress | null => {
+  const target = getObjectTarget(track.object);
+  const first = track.points[0];
+  const last = track.points[track.points.length - 1];
+  if (!target || !first || !last) return null;
+
+  const position = estimate?.position ?? last;
+  const remainingMeters = calculateDistanceMeters(position, target);
+  const initialMeters = calculateDistanceMeters(first, target);
+  const closestMeters = track.points.reduce(
+    (closest, point) => Math.min(closest, calculateDistanceMeters(point, target)),
+    remainingMeters,
+  );
+
+  // ความเร็วตามแนวเส้นไปยังเป้า
+  let closingSpeed: number | null = null;
+  if (estimate && remainingMeters > 0) {
+    const { x, y } = toLocalMeters(position, target);
+    closingSpeed = (x * estimate.velocity.east + y * estimate.velocity.north) / remainingMeters;
+  }
+
+  let state: MissionState = 'en-route';
+  if (remainingMeters <= ARRIVAL_RADIUS_M) state = 'arrived';
+  else if (estimate && estimate.samples > 1 && estimate.speed < STALL_SPEED) state = 'stalled';
+  else if (closingSpeed !== null && closingSpeed < 0 && remainingMeters > closestMeters + DIVERGE_MARGIN_M)
+    state = 'diverging';
+
+  const percent =
+    state === 'arrived' || initialMeters <= 0
+      ? 100
+      : Math.max(0, Math.min(100, ((initialMeters - remainingMeters) / initialMeters) * 100));
+
+  return {
+    obj_id: track.obj_id,
+    target,
+    remainingMeters,
+    bearing: calculateBearingDegrees(position, target),
+    closingSpeed,
+    eta: state === 'en-route' && closingSpeed !== null && closingSpeed >= STALL_SPEED ? remainingMeters / closingSpeed : null,
+    percent,
+    state,
+  };
+};
+
+export const computeMissionProgresses = (
+  tracks: ObjectTrack[],
+  estimates: Record<string, MotionEstimate>,
+): Record<string, MissionProgress> =>
+  tracks.reduce<Record<string, MissionProgress>>((result, track) => {
+    const progress = computeMissionProgress(track, estimates[track.obj_id]);
+    if (progress) result[track.obj_id] = progress;
+    return result;
+  }, {});
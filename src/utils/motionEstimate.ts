@@ -0,0 +1,113 @@
+/**
+ * ประมาณความเร็ว ทิศทาง และอัตราไต่ของวัตถุจากตำแหน่งต่อเนื่องใน track
+ * ใช้ Kalman filter แบบความเร็วคงที่ (constant velocity) แยกแต่ละแกน
+ * เพื่อลด jitter ของ GPS ก่อนคำนวณค่าต่าง ๆ
+ */
+
+import { type LatLng } from '../types/detection';
+import { fromLocalMeters, toDegrees, toLocalMeters } from './geo';
+import { type ObjectTrack, type TrackPoint } from './tracks';
+
+export interface MotionEstimate {
+  position: LatLng;              // ตำแหน่งหลังกรอง ณ จุดล่าสุด
+  velocity: { east: number; north: number }; // m/s
+  speed: number;                 // m/s (แนวราบ)
+  heading: number;               // องศา (0 = เหนือ, 90 = ตะวันออก)
+  climbRate: number | null;      // m/s (บวก = ไต่ขึ้น), null = ไม่มีข้อมูลความสูง
+  positionSigma: number;         // ส่วนเบี่ยงเบนมาตรฐานของตำแหน่ง (m)
+  speedSigma: number;            // ส่วนเบี่ยงเบนมาตรฐานของความเร็ว (m/s)
+  confidence: number;            // 0-1
+  samples: number;               // จำนวนจุดที่ใช้
+  time: number;                  // epoch ms ของจุดล่าสุด
+}
+
+// ค่า noise ของ filter
+const POSITION_NOISE_M = 3;        // ความคลาดเคลื่อนของ GPS แนวราบ
+const ALTITUDE_NOISE_M = 2;
+const ACCELERATION_NOISE = 1.5;    // m/s² ที่ยอมให้ความเร็วเปลี่ยน
+const INITIAL_VELOCITY_SIGMA = 15; // m/s ก่อนเห็นจุดที่สอง
+// ใช้เฉพาะจุดล่าสุดพอให้ filter ลู่เข้า และตามการเปลี่ยนทิศได้ทัน
+const MAX_SAMPLES = 30;
+// ความเร็ว σ ที่ถือว่ามั่นใจครึ่งหนึ่ง
+const REFERENCE_SPEED_SIGMA = 2;
+
+// state ของแกนเดียว: ตำแหน่ง, ความเร็ว และ covariance 2x2
+type AxisState = { p: number; v: number; pp: number; pv: number; vv: number };
+
+const initAxis = (position: number, noise: number): AxisState => ({
+  p: position,
+  v: 0,
+  pp: noise * noise,
+  pv: 0,
+  vv: INITIAL_VELOCITY_SIGMA * INITIAL_VELOCITY_SIGMA,
+});
+
+const stepAxis = (state: AxisState, dt: number, measured: number, noise: number): AxisState => {
+  // predict: x = F x, P = F P F' + Q
+  const q = ACCELERATION_NOISE * ACCELERATION_NOISE;
+  const p = state.p + state.v * dt;
+  const pp = state.pp + 2 * dt * state.pv + dt * dt * state.vv + (q * dt ** 4) / 4;
+  const pv = state.pv + dt * state.vv + (q * dt ** 3) / 2;
+  const vv = state.vv + q * dt * dt;
+
+  // update ด้วยตำแหน่งที่วัดได้
+  const s = pp + noise * noise;
+  const kp = pp / s;
+  const kv = pv / s;
+  const residual = measured - p;
+  return {
+    p: p + kp * residual,
+    v: state.v + kv * residual,
+    pp: (1 - kp) * pp,
+    pv: (1 - kp) * pv,
+    vv: vv - kv * pv,
+  };
+};
+
+const runAxis = (points: TrackPoint[], values: number[], noise: number) =>
+  values.slice(1).reduce(
+    (state, value, index) => stepAxis(state, (points[index + 1].time - points[index].time) / 1000, value, noise),
+    initAxis(values[0], noise),
+  );
+
+export const estimateMotion = (track: ObjectTrack): MotionEstimate | null => {
+  const points = track.points.slice(-MAX_SAMPLES);
+  if (points.length < 2) return null;
+
+  const origin = points[0];
+  const local = points.map((point) => toLocalMeters(origin, point));
+  const east = runAxis(points, local.map((item) => item.x), POSITION_NOISE_M);
+  const north = runAxis(points, local.map((item) => item.y), POSITION_NOISE_M);
+
+  const altPoints = points.filter((point) => point.alt !== null);
+  const altitude =
+    altPoints.length >= 2
+      ? runAxis(altPoints, altPoints.map((point) => point.alt as number), ALTITUDE_NOISE_M)
+      : null;
+
+  const speed = Math.hypot(east.v, north.v);
+  const speedSigma = Math.sqrt(east.vv + north.vv);
+  // มั่นใจมากขึ้นเมื่อมีจุดมากขึ้นและความแปรปรวนของความเร็วต่ำ
+  const sampleFactor = 1 - Math.exp(-(points.length - 1) / 3);
+  const confidence = sampleFactor / (1 + speedSigma / REFERENCE_SPEED_SIGMA);
+
+  return {
+    position: fromLocalMeters(origin, { x: east.p, y: north.p }),
+    velocity: { east: east.v, north: north.v },
+    speed,
+    heading: (toDegrees(Math.atan2(east.v, north.v)) + 360) % 360,
+    climbRate: altitude ? altitude.v : null,
+    positionSigma: Math.sqrt(east.pp + north.pp),
+    speedSigma,
+    confidence: Math.max(0, Math.min(1, confidence)),
+    samples: points.length,
+    time: points[points.length - 1].time,
+  };
+};
+
+export const estimateTracks = (tracks: ObjectTrack[]): Record<string, MotionEstimate> =>
+  tracks.reduce<Record<string, MotionEstimate>>((result, track) => {
+    const estimate = estimateMotion(track);
+    if (estimate) result[track.obj_id] = estimate;
+    return result;
+  }, {});
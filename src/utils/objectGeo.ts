@@ -1,40 +1,23 @@
-import { type DetectedObject } from '../types/detection';
+import { type DetectedObject, type LatLng } from '../types/detection';
 
-type NumericLike = number | string | null | undefined;
+// ข้อมูลจาก API ผ่าน detectionSchema แล้วจึงเป็นตัวเลขเสมอ
+// ตรวจซ้ำไว้สำหรับ object ที่สร้างเองในหน้าตัวอย่าง
+const toValidNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
 
-const toValidNumber = (value: NumericLike): number | null => {
-  if (typeof value === 'number' && Number.isFinite(value)) return value;
-  if (typeof value === 'string') {
-    const parsed = Number.parseFloat(value);
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-  return null;
-};
+export const getObjectLatitude = (object: DetectedObject): number | null => toValidNumber(object.lat);
 
-const extractFromSource = (
-  source: Record<string, unknown> | null | undefined,
-  keys: string[],
-): number | null => {
-  if (!source) return null;
-  for (const key of keys) {
-    const candidate = source[key];
-    const numeric = toValidNumber(candidate as NumericLike);
-    if (numeric !== null) return numeric;
-  }
-  return null;
-};
+export const getObjectLongitude = (object: DetectedObject): number | null => toValidNumber(object.lng);
 
-const extractCoordinate = (object: DetectedObject, keys: string[]): number | null => {
-  return (
-    extractFromSource(object as Record<string, unknown>, keys) ??
-    extractFromSource(object.details as Record<string, unknown>, keys) ??
-    extractFromSource(object.detail as Record<string, unknown>, keys) ??
-    null
-  );
+export const getObjectPosition = (object: DetectedObject): LatLng | null => {
+  const lat = getObjectLatitude(object);
+  const lng = getObjectLongitude(object);
+  return lat === null || lng === null ? null : { lat, lng };
 };
 
-export const getObjectLatitude = (object: DetectedObject): number | null =>
-  extractCoordinate(object, ['lat', 'latitude']);
-
-export const getObjectLongitude = (object: DetectedObject): number | null =>
-  extractCoordinate(object, ['lng', 'lon', 'long', 'longitude']);
+export const getObjectTarget = (object: DetectedObject): LatLng | null => {
+  if (object.target) return object.target;
+  const lat = toValidNumber(object.details?.tar_lat);
+  const lng = toValidNumber(object.details?.tar_lng ?? object.details?.tar_long);
+  return lat === null || lng === null ? null : { lat, lng };
+};
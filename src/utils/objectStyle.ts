@@ -0,0 +1,48 @@
+/**
+ * สีและ icon ของวัตถุบนแผนที่ ใช้ร่วมกันระหว่าง marker, trail และ panel ต่าง ๆ
+ * icon ของวัตถุรวมมากับ bundle (ไม่โหลดจาก Iconify API) จึงแสดงได้แม้ไม่มี network
+ */
+
+import { addIcon } from '@iconify/react';
+import droneIcon from '@iconify-icons/healthicons/drone';
+import accountIcon from '@iconify-icons/mdi/account';
+import bikeIcon from '@iconify-icons/mdi/bike';
+import carIcon from '@iconify-icons/mdi/car';
+import mapMarkerIcon from '@iconify-icons/mdi/map-marker';
+import truckIcon from '@iconify-icons/mdi/truck';
+
+const OBJECT_COLORS = [
+  '#FF5722', '#2196F3', '#4CAF50', '#FFC107', '#9C27B0',
+  '#00BCD4', '#E91E63', '#FF9800', '#009688', '#F44336',
+  '#3F51B5', '#8BC34A', '#FFEB3B', '#673AB7', '#00E676',
+];
+
+const OBJECT_ICONS: Record<string, string> = {
+  person: 'mdi:account',
+  car: 'mdi:car',
+  truck: 'mdi:truck',
+  bike: 'mdi:bike',
+  drone: 'healthicons:drone',
+  default: 'mdi:map-marker',
+};
+
+addIcon(OBJECT_ICONS.person, accountIcon);
+addIcon(OBJECT_ICONS.car, carIcon);
+addIcon(OBJECT_ICONS.truck, truckIcon);
+addIcon(OBJECT_ICONS.bike, bikeIcon);
+addIcon(OBJECT_ICONS.drone, droneIcon);
+addIcon(OBJECT_ICONS.default, mapMarkerIcon);
+
+// สร้างสีจาก object ID (แต่ละ ID จะได้สีเดิมทุกครั้ง)
+export const getColorForObjectId = (objectId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < objectId.length; i++) {
+    hash = objectId.charCodeAt(i) + ((hash << 5) - hash);
+  }
+
+  const index = Math.abs(hash) % OBJECT_COLORS.length;
+  return OBJECT_COLORS[index];
+};
+
+// หา icon name ตามประเภทวัตถุ
+export const getIconName = (type: string): string => OBJECT_ICONS[type.toLowerCase()] || OBJECT_ICONS.default;
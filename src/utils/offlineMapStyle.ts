@@ -0,0 +1,129 @@
+/**
+ * Style ของแผนที่สำหรับโหมด offline: พื้นหลังเรียบ, grid พิกัด, glyph/ฟอนต์ และ raster tile ในเครื่อง (ถ้ามี)
+ * ไม่อ้างอิง mapbox:// จึงวาดด้วย MapLibre ได้โดยไม่มี token หรือ network
+ */
+
+import { type StyleSpecification } from '@maplibre/maplibre-gl-style-spec';
+
+export interface OfflineMapStyleOptions {
+  tilesUrl: string | null;
+  tilesMaxZoom: number;
+  glyphsUrl: string;
+  font: string;
+  thaiFontUrl: string;
+}
+
+export interface GridBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export const GRID_SOURCE_ID = 'coordinate-grid-source';
+
+// ระยะห่างของเส้น grid (องศา) ที่เลือกได้
+const GRID_STEPS = [10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001, 0.0005, 0.0002, 0.0001, 0.00005];
+// ประมาณ 1 เส้นต่อ 128 px (tile กว้าง 512 px ครอบคลุม 360 / 2^zoom องศา)
+const GRID_LINES_PER_TILE = 4;
+// เส้นที่เป็นพหุคูณของ spacing × 5 วาดหนากว่า
+const MAJOR_EVERY = 5;
+const MAX_GRID_LINES = 200;
+// ตัวอักษรไทย (U+0E00-0E7F) วาดจากไฟล์ฟอนต์ ตัวอื่นยังใช้ glyph
+const THAI_UNICODE_RANGE = 'U+0E00-0E7F';
+
+export const getGridSpacing = (zoom: number) => {
+  const target = 360 / 2 ** zoom / GRID_LINES_PER_TILE;
+  return GRID_STEPS.find((step) => step <= target) ?? GRID_STEPS[GRID_STEPS.length - 1];
+};
+
+const getGridValues = (min: number, max: number, spacing: number) => {
+  const first = Math.ceil(min / spacing);
+  const last = Math.floor(max / spacing);
+  if (last - first > MAX_GRID_LINES) return [];
+  return Array.from({ length: Math.max(0, last - first + 1) }, (_, index) => first + index);
+};
+
+// เส้นละติจูด/ลองจิจูดที่ตัดผ่านขอบเขตที่มองเห็น
+export const buildGridFeatures = (bounds: GridBounds, spacing: number) => {
+  const south = Math.max(-85, bounds.south);
+  const north = Math.min(85, bounds.north);
+  return [
+    ...getGridValues(bounds.west, bounds.east, spacing).map((index) => ({
+      type: 'Feature' as const,
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: [
+          [index * spacing, south],
+          [index * spacing, north],
+        ],
+      },
+      properties: { major: index % MAJOR_EVERY === 0 },
+    })),
+    ...getGridValues(south, north, spacing).map((index) => ({
+      type: 'Feature' as const,
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: [
+          [bounds.west, index * spacing],
+          [bounds.east, index * spacing],
+        ],
+      },
+      properties: { major: index % MAJOR_EVERY === 0 },
+    })),
+  ];
+};
+
+export const formatGridSpacing = (spacing: number) => `${Number(spacing.toPrecision(2))}°`;
+
+// style ต้องใช้ URL แบบเต็ม จึงเติม origin ให้ URL แบบ /path (new URL() จะ encode {z} และ {range} จึงใช้ไม่ได้)
+const toAbsoluteUrl = (url: string) => (url.startsWith('/') ? `${window.location.origin}${url}` : url);
+
+export const createOfflineMapStyle = ({
+  tilesUrl,
+  tilesMaxZoom,
+  glyphsUrl,
+  font,
+  thaiFontUrl,
+}: OfflineMapStyleOptions): StyleSpecification => ({
+  version: 8,
+  name: 'Offline',
+  glyphs: toAbsoluteUrl(glyphsUrl),
+  'font-faces': {
+    [font]: [{ url: toAbsoluteUrl(thaiFontUrl), 'unicode-range': [THAI_UNICODE_RANGE] }],
+  },
+  sources: {
+    ...(tilesUrl && {
+      'offline-raster': {
+        type: 'raster' as const,
+        tiles: [toAbsoluteUrl(tilesUrl)],
+        tileSize: 256,
+        maxzoom: tilesMaxZoom,
+      },
+    }),
+    [GRID_SOURCE_ID]: {
+      type: 'geojson',
+      data: { type: 'FeatureCollection', features: [] },
+    },
+  },
+  layers: [
+    {
+      id: 'offline-background',
+      type: 'background',
+      paint: { 'background-color': '#1f2a33' },
+    },
+    ...(tilesUrl
+      ? [{ id: 'offline-raster-layer', type: 'raster' as const, source: 'offline-raster' }]
+      : []),
+    {
+      id: 'coordinate-grid-layer',
+      type: 'line',
+      source: GRID_SOURCE_ID,
+      paint: {
+        'line-color': '#90a4ae',
+        'line-opacity': ['case', ['get', 'major'], 0.6, 0.25],
+        'line-width': ['case', ['get', 'major'], 1.2, 0.6],
+      },
+    },
+  ],
+});
@@ -0,0 +1,56 @@
+/**
+ * บันทึก PayloadIssue ล่าสุดจาก normalizer ให้ UI แสดงผลได้โดยไม่ต้องส่งผ่าน props
+ * REST ถูก poll ซ้ำทุกรอบ จึงเก็บปัญหาเดียวกัน (กล้อง, field, ชนิด) ไว้รายการเดียว
+ * และรายงานการแปลงค่า (coerced) แต่ละแบบเพียงครั้งเดียว (ล้าง log แล้วก็ไม่กลับมาอีก)
+ */
+
+import { type PayloadIssue } from '../types/detection';
+
+const MAX_ISSUES = 200;
+
+let issues: PayloadIssue[] = [];
+const reportedCoercions = new Set<string>();
+const listeners = new Set<() => void>();
+
+// ตัด index ของ array ออกจาก path เช่น "data[3].objects[0].lat" -> "data[].objects[].lat"
+// (ลำดับใน response เปลี่ยนทุกรอบที่มีข้อมูลใหม่)
+const getIssueKey = (issue: PayloadIssue) =>
+  [issue.origin, issue.cam_id ?? '', issue.kind, issue.path.replace(/\[\d+\]/g, '[]'), issue.message].join('|');
+
+export const reportPayloadIssues = (incoming: PayloadIssue[] | undefined) => {
+  if (!incoming || incoming.length === 0) return;
+
+  const fresh = new Map<string, PayloadIssue>();
+  incoming.forEach((issue) => {
+    const key = getIssueKey(issue);
+    if (issue.kind === 'coerced' && reportedCoercions.has(key)) return;
+    fresh.set(key, issue);
+  });
+  if (fresh.size === 0) return;
+
+  const rejected = Array.from(fresh.values()).filter((issue) => issue.kind === 'rejected');
+  if (rejected.length > 0) {
+    console.warn(`Rejected ${rejected.length} detection payload field(s)`, rejected);
+  }
+
+  fresh.forEach((issue, key) => {
+    if (issue.kind === 'coerced') reportedCoercions.add(key);
+  });
+  // ปัญหาที่ซ้ำกับรายการเดิมแทนที่รายการเดิม (ย้ายขึ้นบนสุดพร้อมเวลาล่าสุด)
+  issues = [...fresh.values(), ...issues.filter((issue) => !fresh.has(getIssueKey(issue)))].slice(0, MAX_ISSUES);
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribePayloadIssues = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getPayloadIssues = () => issues;
+
+export const clearPayloadIssues = () => {
+  issues = [];
+  listeners.forEach((listener) => listener());
+};
@@ -0,0 +1,128 @@
+/**
+ * คาดการณ์ตำแหน่งล่วงหน้าจากความเร็วที่ประมาณได้ (สมมติว่าวัตถุบินด้วยความเร็วคงที่)
+ * พร้อมรัศมีความไม่แน่นอนที่กว้างขึ้นตามเวลา และหาจุดที่เส้นทางคาดการณ์เข้าสู่วงรัศมี
+ */
+
+import { type LatLng } from '../types/detection';
+import { calculateDistanceMeters, fromLocalMeters, toLocalMeters } from './geo';
+import { type MotionEstimate } from './motionEstimate';
+
+export const PREDICTION_HORIZONS_SEC = [10, 30, 60];
+
+// วัตถุที่ช้ากว่านี้ถือว่าลอยนิ่ง ไม่วาดเส้นคาดการณ์
+const MIN_PREDICTION_SPEED = 0.5;
+// ~95% ของการแจกแจงปกติ
+const UNCERTAINTY_SIGMAS = 2;
+const CONE_STEPS = 12;
+
+export interface PredictedPoint {
+  horizonSec: number;
+  position: LatLng;
+  radiusMeters: number;          // รัศมีความไม่แน่นอน ณ เวลานั้น
+}
+
+export interface PredictedPath {
+  obj_id: string;
+  origin: LatLng;
+  points: PredictedPoint[];      // เรียงตาม horizon
+  cone: [number, number][];      // polygon ของกรวยความไม่แน่นอน ([lng, lat])
+}
+
+export interface RadiusCrossing {
+  obj_id: string;
+  timeSec: number;               // วินาทีนับจาก fix ล่าสุด (0 = อยู่ในรัศมีแล้ว)
+  point: LatLng;
+}
+
+const getUncertainty = (estimate: MotionEstimate, seconds: number) =>
+  UNCERTAINTY_SIGMAS * (estimate.positionSigma + estimate.speedSigma * seconds);
+
+export const predictPosition = (estimate: MotionEstimate, seconds: number): LatLng =>
+  fromLocalMeters(estimate.position, {
+    x: estimate.velocity.east * seconds,
+    y: estimate.velocity.north * seconds,
+  });
+
+// กรวยประกอบด้วยขอบซ้ายตามเส้นทาง ปลายโค้งครึ่งวงกลม แล้วขอบขวากลับมาที่จุดเริ่ม
+const buildCone = (estimate: MotionEstimate, horizonSec: number): [number, number][] => {
+  const { east, north } = estimate.velocity;
+  const unitX = east / estimate.speed;
+  const unitY = north / estimate.speed;
+  const toLngLat = (x: number, y: number): [number, number] => {
+    const point = fromLocalMeters(estimate.position, { x, y });
+    return [point.lng, point.lat];
+  };
+
+  const left: [number, number][] = [];
+  const right: [number, number][] = [];
+  for (let i = 0; i <= CONE_STEPS; i++) {
+    const t = (i / CONE_STEPS) * horizonSec;
+    const radius = getUncertainty(estimate, t);
+    const cx = east * t;
+    const cy = north * t;
+    left.push(toLngLat(cx - unitY * radius, cy + unitX * radius));
+    right.push(toLngLat(cx + unitY * radius, cy - unitX * radius));
+  }
+
+  const endRadius = getUncertainty(estimate, horizonSec);
+  const heading = Math.atan2(unitY, unitX);
+  const cap: [number, number][] = [];
+  for (let i = 1; i < CONE_STEPS; i++) {
+    const angle = heading + Math.PI / 2 - (i / CONE_STEPS) * Math.PI;
+    cap.push(toLngLat(east * horizonSec + Math.cos(angle) * endRadius, north * horizonSec + Math.sin(angle) * endRadius));
+  }
+
+  return [...left, ...cap, ...right.reverse(), left[0]];
+};
+
+export const predictPath = (
+  objId: string,
+  estimate: MotionEstimate,
+  horizons: number[] = PREDICTION_HORIZONS_SEC,
+): PredictedPath | null => {
+  if (estimate.speed < MIN_PREDICTION_SPEED || horizons.length === 0) return null;
+  const maxHorizon = Math.max(...horizons);
+
+  return {
+    obj_id: objId,
+    origin: estimate.position,
+    points: [...horizons]
+      .sort((a, b) => a - b)
+      .map((horizonSec) => ({
+        horizonSec,
+        position: predictPosition(estimate, horizonSec),
+        radiusMeters: getUncertainty(estimate, horizonSec),
+      })),
+    cone: buildCone(estimate, maxHorizon),
+  };
+};
+
+export const predictPaths = (estimates: Record<string, MotionEstimate>): PredictedPath[] =>
+  Object.entries(estimates)
+    .map(([objId, estimate]) => predictPath(objId, estimate))
+    .filter((path): path is PredictedPath => path !== null);
+
+// เวลาแรกที่เส้นทางคาดการณ์เข้าสู่วงกลม (แก้สมการ |p + v t| = R) ภายใน horizon
+export const findRadiusCrossing = (
+  objId: string,
+  estimate: MotionEstimate,
+  center: LatLng,
+  radiusMeters: number,
+  horizonSec: number = Math.max(...PREDICTION_HORIZONS_SEC),
+): RadiusCrossing | null => {
+  if (calculateDistanceMeters(center, estimate.position) <= radiusMeters) {
+    return { obj_id: objId, timeSec: 0, point: estimate.position };
+  }
+
+  const { x, y } = toLocalMeters(center, estimate.position);
+  const { east: vx, north: vy } = estimate.velocity;
+  const a = vx * vx + vy * vy;
+  const b = 2 * (x * vx + y * vy);
+  const c = x * x + y * y - radiusMeters * radiusMeters;
+  const discriminant = b * b - 4 * a * c;
+  if (a === 0 || discriminant < 0) return null;
+
+  const timeSec = (-b - Math.sqrt(discriminant)) / (2 * a);
+  if (timeSec < 0 || timeSec > horizonSec) return null;
+  return { obj_id: objId, timeSec, point: predictPosition(estimate, timeSec) };
+};
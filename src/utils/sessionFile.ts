@@ -0,0 +1,73 @@
+/**
+ * อ่าน/เขียนไฟล์ session สำหรับ replay
+ * รองรับทั้งไฟล์ session ที่บันทึกจาก dashboard และไฟล์ event list แบบเดิม (array หรือ { success, data })
+ */
+
+import { type DetectionEvent, type PayloadIssue } from '../types/detection';
+import { type RecordedEntry, type SessionRecording } from '../types/session';
+import { normalizeDetectionResponse } from './detectionSchema';
+
+export const SESSION_FORMAT = 'tesa-session';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getTime = (event: DetectionEvent) => new Date(event.timestamp).getTime();
+
+export const isSessionRecording = (raw: unknown): raw is SessionRecording =>
+  isRecord(raw) && raw.format === SESSION_FORMAT && Array.isArray(raw.entries);
+
+// ไฟล์ event list แบบเดิม: เล่นตามช่วงห่างของ timestamp โดยถือว่าทุก event มาทาง socket
+const entriesFromEvents = (events: DetectionEvent[]): RecordedEntry[] => {
+  const sorted = [...events].sort((a, b) => getTime(a) - getTime(b));
+  const origin = sorted.length > 0 ? getTime(sorted[0]) : 0;
+  return sorted.map((event) => ({
+    offsetMs: getTime(event) - origin,
+    receivedAt: event.timestamp,
+    channel: 'socket',
+    cam_id: event.cam_id,
+    location: event.camera?.location ?? '',
+    events: [event],
+  }));
+};
+
+// แปลงไฟล์เป็น entries ที่เรียงตามเวลา พร้อม PayloadIssue ของ event ที่ใช้ไม่ได้
+export const parseSessionFile = (raw: unknown): { entries: RecordedEntry[]; issues: PayloadIssue[] } => {
+  if (!isSessionRecording(raw)) {
+    const normalized = normalizeDetectionResponse(raw);
+    return { entries: entriesFromEvents(normalized.data), issues: normalized.issues ?? [] };
+  }
+
+  const issues: PayloadIssue[] = [];
+  const entries = raw.entries
+    .filter(isRecord)
+    .map<RecordedEntry>((entry) => {
+      const normalized = normalizeDetectionResponse(entry.events, String(entry.cam_id ?? ''));
+      issues.push(...(normalized.issues ?? []));
+      return {
+        offsetMs: Number(entry.offsetMs) || 0,
+        receivedAt: String(entry.receivedAt ?? ''),
+        channel: entry.channel === 'rest' ? 'rest' : 'socket',
+        cam_id: String(entry.cam_id ?? ''),
+        location: String(entry.location ?? ''),
+        events: normalized.data,
+      };
+    })
+    .sort((a, b) => a.offsetMs - b.offsetMs);
+
+  return { entries, issues };
+};
+
+export const getSessionFileName = (session: SessionRecording) =>
+  `tesa-session-${session.startedAt.replace(/[:.]/g, '-')}.json`;
+
+export const downloadSessionFile = (session: SessionRecording) => {
+  const blob = new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getSessionFileName(session);
+  link.click();
+  // บาง browser เริ่มดาวน์โหลดหลัง click() คืนค่าแล้ว จึงรอก่อนคืน URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,84 @@
+/**
+ * State machine ของการเชื่อมต่อ Socket.IO
+ * idle → connecting → connected ⇄ reconnecting → failed
+ * connected → finished (source ที่เล่นจบเอง เช่น replay)
+ */
+
+import { type SocketConnectionState } from '../types/socket';
+
+export type SocketConnectionAction =
+  | { type: 'start'; maxAttempts: number }
+  | { type: 'connected' }
+  | { type: 'disconnected'; reason: string; willReconnect: boolean }
+  | { type: 'reconnect_attempt'; attempt: number }
+  | { type: 'error'; message: string }
+  | { type: 'reconnect_failed' }
+  | { type: 'finished' }
+  | { type: 'latency_sample'; rttMs: number; windowSize: number }
+  | { type: 'latency_timeout' }
+  | { type: 'stop' };
+
+export const createSocketConnectionState = (maxAttempts = 0): SocketConnectionState => ({
+  status: 'idle',
+  attempt: 0,
+  maxAttempts,
+  connectCount: 0,
+  lastConnectedAt: null,
+  lastDisconnectedAt: null,
+  lastError: null,
+  latency: { lastMs: null, averageMs: null, samples: [], timeouts: 0 },
+});
+
+const average = (values: number[]) =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const socketConnectionReducer = (
+  state: SocketConnectionState,
+  action: SocketConnectionAction,
+): SocketConnectionState => {
+  const now = new Date().toISOString();
+
+  switch (action.type) {
+    case 'start':
+      return { ...createSocketConnectionState(action.maxAttempts), status: 'connecting' };
+    case 'connected':
+      return {
+        ...state,
+        status: 'connected',
+        attempt: 0,
+        connectCount: state.connectCount + 1,
+        lastConnectedAt: now,
+        lastError: null,
+      };
+    case 'disconnected':
+      if (state.status === 'idle') return state;
+      return {
+        ...state,
+        status: action.willReconnect ? 'reconnecting' : 'failed',
+        lastDisconnectedAt: now,
+        lastError: action.reason,
+      };
+    case 'reconnect_attempt':
+      if (state.status === 'idle') return state;
+      return { ...state, status: 'reconnecting', attempt: action.attempt };
+    case 'error':
+      return { ...state, lastError: action.message };
+    case 'reconnect_failed':
+      return { ...state, status: 'failed' };
+    case 'finished':
+      return { ...state, status: 'finished', lastError: null };
+    case 'latency_sample': {
+      const samples = [...state.latency.samples, action.rttMs].slice(-action.windowSize);
+      return {
+        ...state,
+        latency: { ...state.latency, lastMs: action.rttMs, averageMs: average(samples), samples },
+      };
+    }
+    case 'latency_timeout':
+      return { ...state, latency: { ...state.latency, timeouts: state.latency.timeouts + 1 } };
+    case 'stop':
+      return createSocketConnectionState(state.maxAttempts);
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * ให้คะแนนภัยคุกคามของวัตถุ (0-100) และระดับ low / medium / high / critical
+ * จากระยะถึงจุดป้องกัน, ความเร็วเข้าหา, ความสูง, objective, size และ type
+ * ทุก panel และแผนที่ใช้ฟังก์ชันนี้ชุดเดียวเพื่อให้ระดับตรงกันทุกที่
+ */
+
+import { type DetectedObject, type LatLng } from '../types/detection';
+import { computeCpa } from './cpa';
+import { type MotionEstimate } from './motionEstimate';
+import { getObjectPosition } from './objectGeo';
+
+export type ThreatLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export type ThreatFactor = 'distance' | 'closingSpeed' | 'altitude' | 'objective' | 'size' | 'type';
+
+export type ThreatWeights = Record<ThreatFactor, number>;
+
+export interface ThreatAssessment {
+  obj_id: string;
+  score: number;                       // 0-100
+  level: ThreatLevel;
+  factors: Record<ThreatFactor, number>; // ค่าแต่ละปัจจัย 0-1 ก่อนถ่วงน้ำหนัก
+}
+
+export interface ThreatContext {
+  center: LatLng;                      // จุดป้องกัน (defensiveDefaultLocation)
+  radiusMeters: number;
+  estimate?: MotionEstimate;
+}
+
+export const THREAT_FACTORS: ThreatFactor[] = ['distance', 'closingSpeed', 'altitude', 'objective', 'size', 'type'];
+
+export const DEFAULT_THREAT_WEIGHTS: ThreatWeights = {
+  distance: 3,
+  closingSpeed: 2,
+  altitude: 1,
+  objective: 3,
+  size: 1,
+  type: 1,
+};
+
+export const THREAT_LEVELS: ThreatLevel[] = ['low', 'medium', 'high', 'critical'];
+
+export const THREAT_LEVEL_COLORS: Record<ThreatLevel, string> = {
+  low: '#43a047',
+  medium: '#fdd835',
+  high: '#fb8c00',
+  critical: '#e53935',
+};
+
+// คะแนนขั้นต่ำของแต่ละระดับ
+const LEVEL_THRESHOLDS: [ThreatLevel, number][] = [
+  ['critical', 75],
+  ['high', 50],
+  ['medium', 25],
+  ['low', 0],
+];
+
+// ความเร็วเข้าหาที่ถือว่าอันตรายสูงสุด (m/s)
+const MAX_CLOSING_SPEED = 20;
+// ต่ำกว่านี้ถือว่าบินต่ำ (ตรวจจับยาก) สูงกว่านี้ถือว่าอันตรายน้อย (m)
+const LOW_ALTITUDE = 30;
+const HIGH_ALTITUDE = 300;
+
+const OBJECTIVE_SCORES: Record<string, number> = { enemy: 1, unknown: 0.6, our: 0 };
+const SIZE_SCORES: Record<string, number> = { large: 1, medium: 0.6, small: 0.3 };
+const TYPE_SCORES: Record<string, number> = { drone: 1, car: 0.4, truck: 0.5, person: 0.2, bike: 0.2 };
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const lookup = (table: Record<string, number>, key: string | undefined, fallback: number) =>
+  table[key?.toLowerCase() ?? ''] ?? fallback;
+
+export const getThreatLevel = (score: number): ThreatLevel =>
+  LEVEL_THRESHOLDS.find(([, minimum]) => score >= minimum)?.[0] ?? 'low';
+
+export const getThreatLevelRank = (level: ThreatLevel) => THREAT_LEVELS.indexOf(level);
+
+export const scoreThreat = (
+  object: DetectedObject,
+  { center, radiusMeters, estimate }: ThreatContext,
+  weights: ThreatWeights = DEFAULT_THREAT_WEIGHTS,
+): ThreatAssessment => {
+  const position = getObjectPosition(object);
+  const cpa = position ? computeCpa(object.obj_id, position, estimate, center, radiusMeters) : null;
+  const altitude = object.details?.alt;
+
+  const factors: Record<ThreatFactor, number> = {
+    // 1 ที่จุดป้องกัน ลดลงเป็น 0 ที่ระยะสองเท่าของรัศมี
+    distance: cpa && radiusMeters > 0 ? clamp01(1 - cpa.distance / (2 * radiusMeters)) : 0,
+    closingSpeed: cpa?.closingSpeed ? clamp01(cpa.closingSpeed / MAX_CLOSING_SPEED) : 0,
+    altitude:
+      typeof altitude === 'number'
+        ? clamp01((HIGH_ALTITUDE - altitude) / (HIGH_ALTITUDE - LOW_ALTITUDE))
+        : 0.5,
+    objective: lookup(OBJECTIVE_SCORES, object.objective, 0.6),
+    size: lookup(SIZE_SCORES, object.size, 0.5),
+    type: lookup(TYPE_SCORES, object.type, 0.5),
+  };
+
+  const totalWeight = THREAT_FACTORS.reduce((total, factor) => total + Math.max(0, weights[factor]), 0);
+  const weighted = THREAT_FACTORS.reduce((total, factor) => total + Math.max(0, weights[factor]) * factors[factor], 0);
+  const score = totalWeight > 0 ? (weighted / totalWeight) * 100 : 0;
+
+  return { obj_id: object.obj_id, score, level: getThreatLevel(score), factors };
+};
+
+export const scoreThreats = (
+  objects: DetectedObject[],
+  context: Omit<ThreatContext, 'estimate'>,
+  estimates: Record<string, MotionEstimate>,
+  weights: ThreatWeights,
+): Record<string, ThreatAssessment> =>
+  objects.reduce<Record<string, ThreatAssessment>>((result, object) => {
+    result[object.obj_id] = scoreThreat(object, { ...context, estimate: estimates[object.obj_id] }, weights);
+    return result;
+  }, {});
+
+// ระดับสูงกว่ามาก่อน ระดับเท่ากันเรียงตามคะแนน
+export const compareThreat = (a?: ThreatAssessment, b?: ThreatAssessment) =>
+  getThreatLevelRank(b?.level ?? 'low') - getThreatLevelRank(a?.level ?? 'low') || (b?.score ?? 0) - (a?.score ?? 0);
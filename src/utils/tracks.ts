@@ -0,0 +1,62 @@
+/**
+ * Track model: ประวัติตำแหน่งของแต่ละ obj_id เรียงตามเวลา รวมจากทุก detection event
+ */
+
+import { type DetectedObject, type DetectionEvent } from '../types/detection';
+import { getObjectPosition } from './objectGeo';
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  alt: number | null;
+  time: number;                  // epoch ms ของ event
+}
+
+export interface ObjectTrack {
+  obj_id: string;
+  object: DetectedObject;        // ข้อมูลล่าสุดของวัตถุ
+  points: TrackPoint[];          // เรียงจากเก่าไปใหม่ ไม่มี time ซ้ำ
+}
+
+// ความยาว trail: ย้อนหลังเป็นวินาที หรือเป็นจำนวนจุดล่าสุด (null = ทั้งหมด)
+export type TrailLength = { mode: 'time'; seconds: number } | { mode: 'points'; count: number } | null;
+
+const getTime = (event: DetectionEvent) => new Date(event.timestamp).getTime();
+
+// events เรียงแบบใดก็ได้ ผลลัพธ์เรียงตาม obj_id ที่เห็นล่าสุดก่อน
+export const buildTracks = (events: DetectionEvent[]): ObjectTrack[] => {
+  const tracks = new Map<string, ObjectTrack>();
+  const ordered = [...events].sort((a, b) => getTime(a) - getTime(b));
+
+  ordered.forEach((event) => {
+    const time = getTime(event);
+    if (!Number.isFinite(time)) return;
+
+    event.objects?.forEach((object) => {
+      const position = getObjectPosition(object);
+      if (!position) return;
+
+      const track = tracks.get(object.obj_id) ?? { obj_id: object.obj_id, object, points: [] };
+      const point: TrackPoint = { ...position, alt: object.details?.alt ?? null, time };
+      const last = track.points[track.points.length - 1];
+      // event เดียวกันจาก REST และ socket ให้เหลือจุดเดียว
+      if (last?.time === time) track.points[track.points.length - 1] = point;
+      else track.points.push(point);
+      track.object = object;
+      tracks.set(object.obj_id, track);
+    });
+  });
+
+  return Array.from(tracks.values()).sort(
+    (a, b) => b.points[b.points.length - 1].time - a.points[a.points.length - 1].time,
+  );
+};
+
+export const trimTrackPoints = (points: TrackPoint[], length: TrailLength): TrackPoint[] => {
+  if (!length || points.length === 0) return points;
+  if (length.mode === 'points') return points.slice(-Math.max(1, length.count));
+
+  const newest = points[points.length - 1].time;
+  const cutoff = newest - length.seconds * 1000;
+  return points.filter((point) => point.time >= cutoff);
+};
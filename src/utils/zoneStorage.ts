@@ -0,0 +1,33 @@
+/**
+ * เก็บโซน geofence ไว้ใน localStorage ของ browser
+ */
+
+import { type GeofenceZone } from '../types/geofence';
+
+const STORAGE_KEY = 'tesa.geofence.zones';
+
+const isZone = (value: unknown): value is GeofenceZone => {
+  if (typeof value !== 'object' || value === null) return false;
+  const zone = value as Partial<GeofenceZone>;
+  return typeof zone.id === 'string' && typeof zone.name === 'string' && typeof zone.shape === 'object';
+};
+
+export const loadZones = (): GeofenceZone[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isZone) : [];
+  } catch (error) {
+    console.warn('Unable to read geofence zones', error);
+    return [];
+  }
+};
+
+export const saveZones = (zones: GeofenceZone[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(zones));
+  } catch (error) {
+    console.warn('Unable to save geofence zones', error);
+  }
+};